@@ -1,22 +1,434 @@
-import React from 'react';
-import { MicOff, Phone, PhoneOff, Activity, Sparkles } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { MicOff, Phone, PhoneOff, Activity, Sparkles, Settings, History } from 'lucide-react';
 import { useLiveGemini } from './hooks/useLiveGemini';
+import { usePersonas } from './hooks/usePersonas';
+import { useConversationHistory } from './hooks/useConversationHistory';
+import { useWakeWord } from './hooks/useWakeWord';
+import { useAudioDevices } from './hooks/useAudioDevices';
+import { useLocale } from './hooks/useLocale';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import AudioVisualizer from './components/AudioVisualizer';
+import TranscriptPanel from './components/TranscriptPanel';
+import ToolActivityPanel from './components/ToolActivityPanel';
+import SettingsDrawer from './components/SettingsDrawer';
+import InputModeControls from './components/InputModeControls';
+import RecordingControls from './components/RecordingControls';
+import TextComposer from './components/TextComposer';
+import VideoControls from './components/VideoControls';
+import VideoPreview from './components/VideoPreview';
+import MetricsOverlay from './components/MetricsOverlay';
+import ErrorPanel from './components/ErrorPanel';
+import HistorySidebar from './components/HistorySidebar';
+import HandoffControls from './components/HandoffControls';
+import LocaleSwitcher from './components/LocaleSwitcher';
+import LiveAnnouncer from './components/LiveAnnouncer';
+import { builtinTools } from './tools/builtinTools';
+import { createHandoffTool } from './tools/handoffTool';
+import {
+  DEFAULT_VISUALIZER_SETTINGS,
+  MAX_WAKE_WORD_SAMPLES,
+  VISUALIZER_THEMES,
+  getLanguageLabel,
+  getModelLabel,
+  loadBargeInSettings,
+  loadInterpreterSettings,
+  loadNoiseGate,
+  loadPlaybackRate,
+  loadResponseMode,
+  loadVideoSettings,
+  loadVisualizerSettings,
+  loadWakeWordSettings,
+  loadWakeWordTemplates,
+  saveBargeInSettings,
+  saveInterpreterSettings,
+  saveNoiseGate,
+  savePlaybackRate,
+  saveResponseMode,
+  saveVideoSettings,
+  saveVisualizerSettings,
+  saveWakeWordSettings,
+  saveWakeWordTemplates,
+  supportsTextResponses,
+} from './utils/settings';
+import { downloadBlob, downloadJson } from './utils/download';
+import { loadAudioDevices, saveAudioDevices, supportsOutputSelection } from './utils/devices';
+import { TOKEN_ENDPOINT_PATH } from './utils/liveConfig';
+import { SHORTCUTS, describeShortcut, isTypingTarget } from './utils/shortcuts';
+import { getDefaultTitle, summarizeConversation } from './utils/history';
+import { createWebSocketTransport } from './transport/webSocketTransport';
+import { AudioDeviceSettings, BargeInSettings, ConversationRecord, InputMode, InterpreterSettings, NoiseGateSettings, ResponseMode, VideoSettings, VisualizerSettings, WakeWordSettings } from './types';
+
+// Point VITE_MOCK_LIVE_URL at the mock server (npm run mock-server) to work offline
+const mockTransport = import.meta.env.VITE_MOCK_LIVE_URL
+  ? createWebSocketTransport(import.meta.env.VITE_MOCK_LIVE_URL)
+  : undefined;
 
 const App: React.FC = () => {
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [selectedInputMode, setSelectedInputMode] = useState<InputMode>('open');
+  const [selectedResponseMode, setSelectedResponseMode] = useState<ResponseMode>(loadResponseMode);
+  const [noiseGate, setNoiseGate] = useState<NoiseGateSettings>(loadNoiseGate);
+  const [bargeIn, setBargeIn] = useState<BargeInSettings>(loadBargeInSettings);
+  const [playbackRate, setPlaybackRate] = useState(loadPlaybackRate);
+  const [recordingEnabled, setRecordingEnabled] = useState(false);
+  const [audioDevices, setAudioDevices] = useState<AudioDeviceSettings>(loadAudioDevices);
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(loadVideoSettings);
+  const [visualizerSettings, setVisualizerSettings] = useState<VisualizerSettings>(loadVisualizerSettings);
+  const [wakeWordSettings, setWakeWordSettings] = useState<WakeWordSettings>(loadWakeWordSettings);
+  const [wakeWordTemplates, setWakeWordTemplates] = useState(loadWakeWordTemplates);
+  const [interpreterSettings, setInterpreterSettings] = useState<InterpreterSettings>(loadInterpreterSettings);
+  const { locale, setLocale, t } = useLocale();
+  const { inputs: inputDevices, outputs: outputDevices, refresh: refreshDevices } = useAudioDevices();
+
+  useEffect(() => {
+    saveAudioDevices(audioDevices);
+  }, [audioDevices]);
+
+  // Drop back to the default device when the selected one is unplugged.
+  // Device ids are blank until permission is granted, so only trust a list that has them.
+  useEffect(() => {
+    const isGone = (deviceId: string, devices: MediaDeviceInfo[]) =>
+      !!deviceId && devices.some(device => device.deviceId) && !devices.some(device => device.deviceId === deviceId);
+
+    setAudioDevices(prev => {
+      const inputGone = isGone(prev.inputDeviceId, inputDevices);
+      const outputGone = isGone(prev.outputDeviceId, outputDevices);
+      if (!inputGone && !outputGone) return prev;
+      return {
+        ...prev,
+        inputDeviceId: inputGone ? '' : prev.inputDeviceId,
+        outputDeviceId: outputGone ? '' : prev.outputDeviceId,
+      };
+    });
+  }, [inputDevices, outputDevices]);
+
+  useEffect(() => {
+    saveNoiseGate(noiseGate);
+  }, [noiseGate]);
+
+  useEffect(() => {
+    saveBargeInSettings(bargeIn);
+  }, [bargeIn]);
+
+  useEffect(() => {
+    savePlaybackRate(playbackRate);
+  }, [playbackRate]);
+
+  useEffect(() => {
+    saveResponseMode(selectedResponseMode);
+  }, [selectedResponseMode]);
+
+  useEffect(() => {
+    saveVideoSettings(videoSettings);
+  }, [videoSettings]);
+
+  useEffect(() => {
+    saveVisualizerSettings(visualizerSettings);
+  }, [visualizerSettings]);
+
+  useEffect(() => {
+    saveWakeWordSettings(wakeWordSettings);
+  }, [wakeWordSettings]);
+
+  useEffect(() => {
+    saveWakeWordTemplates(wakeWordTemplates);
+  }, [wakeWordTemplates]);
+
+  useEffect(() => {
+    saveInterpreterSettings(interpreterSettings);
+  }, [interpreterSettings]);
+  const {
+    personas,
+    activePersona,
+    selectPersona,
+    updatePersona,
+    createPersona,
+    deletePersona,
+  } = usePersonas();
+  const personasRef = useRef(personas);
+  personasRef.current = personas;
+  // The handoff tool is created before the hook that performs the handoff, so it calls through these
+  const handoffByNameRef = useRef<(name: string, reason?: string) => boolean>(() => false);
+  const activeAgentRef = useRef<string | null>(null);
+
+  const tools = useMemo(() => [
+    ...builtinTools,
+    createHandoffTool({
+      getAgents: () => personasRef.current.map(persona => persona.name).filter(name => name !== activeAgentRef.current),
+      onHandoff: (name, reason) => handoffByNameRef.current(name, reason),
+    }),
+  ], []);
+
+  const {
+    conversations,
+    isLoading: isHistoryLoading,
+    saveConversation,
+    renameConversation,
+    deleteConversation,
+  } = useConversationHistory();
+
   const { 
     isConnected, 
     isConnecting, 
+    isReconnecting,
+    reconnectAttempt,
     isSpeaking, 
+    isUserSpeaking,
     connect, 
     disconnect, 
     error,
+    clearError,
+    transcript,
+    clearTranscript,
+    sendText,
+    responseMode,
+    interpreter: sessionInterpreter,
+    toolActivity,
+    isRecording,
+    hasRecording,
+    exportRecording,
+    metrics,
+    exportMetrics,
+    inputMode,
+    isMuted,
+    setMuted,
+    isTalking,
+    startTalking,
+    stopTalking,
+    videoSource,
+    videoStream,
+    isVideoPaused,
+    startVideo,
+    stopVideo,
+    setVideoPaused,
+    activeAgent,
+    isHandingOff,
+    handoff,
     inputAnalyser,
     outputAnalyser
-  } = useLiveGemini();
+  } = useLiveGemini({
+    transport: mockTransport,
+    tokenEndpoint: import.meta.env.VITE_TOKEN_ENDPOINT || TOKEN_ENDPOINT_PATH,
+    tools,
+    settings: activePersona.settings,
+    agentName: activePersona.name,
+    inputMode: selectedInputMode,
+    responseMode: selectedResponseMode,
+    interpreter: interpreterSettings,
+    noiseGate,
+    bargeIn,
+    playbackRate,
+    recordSession: recordingEnabled,
+    devices: audioDevices,
+    video: videoSettings,
+  });
+
+  // Device labels only become readable once microphone permission has been granted
+  useEffect(() => {
+    if (isConnected) refreshDevices();
+  }, [isConnected, refreshDevices]);
+
+  activeAgentRef.current = activeAgent;
+  handoffByNameRef.current = (name, reason) => {
+    const persona = personas.find(candidate => candidate.name === name);
+    return !!persona && handoff({ name: persona.name, settings: persona.settings, reason });
+  };
+
+  const interpreterLanguages = sessionInterpreter && {
+    first: getLanguageLabel(sessionInterpreter.firstLanguage, t),
+    second: getLanguageLabel(sessionInterpreter.secondLanguage, t),
+  };
+
+  // A dropped call that is being resumed still counts as in-call for the controls
+  const isInCall = isConnected || isReconnecting;
+  const isPushToTalk = isInCall && inputMode === 'push-to-talk';
+  const isInputLive = isPushToTalk ? isTalking : !isMuted;
+  const {
+    isStandby,
+    isEnrolling: isEnrollingWakeWord,
+    enroll: enrollWakeWord,
+    error: wakeWordError,
+    clearError: clearWakeWordError,
+  } = useWakeWord({
+    settings: wakeWordSettings,
+    templates: wakeWordTemplates,
+    devices: audioDevices,
+    isInCall: isInCall || isConnecting,
+    isActive: isSpeaking || isUserSpeaking,
+    activity: transcript,
+    onWake: () => connect(),
+    onIdle: disconnect,
+  });
+
+  const handleRecordWakeWord = async () => {
+    const template = await enrollWakeWord();
+    if (!template) {
+      window.alert(t('wakeWord.notHeard'));
+      return;
+    }
+    setWakeWordTemplates(prev => [...prev, template].slice(-MAX_WAKE_WORD_SAMPLES));
+  };
+
+  const visualizerTheme = VISUALIZER_THEMES[visualizerSettings.theme] ?? VISUALIZER_THEMES[DEFAULT_VISUALIZER_SETTINGS.theme];
+
+  // Spacebar push-to-talk, ignored while typing in a field
+  useEffect(() => {
+    if (!isPushToTalk) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== SHORTCUTS.pushToTalk.code || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== SHORTCUTS.pushToTalk.code || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [isPushToTalk, startTalking, stopTalking]);
+
+  useKeyboardShortcuts([
+    { ...SHORTCUTS.connect, handler: () => { if (!isInCall && !isConnecting) connect(); } },
+    { ...SHORTCUTS.endCall, handler: () => { if (isInCall) disconnect(); } },
+    { ...SHORTCUTS.mute, handler: () => { if (isInCall && inputMode === 'open') setMuted(!isMuted); } },
+  ]);
+
+  // Screen reader announcements: connection changes in one region, speaking turns in another
+  // so a turn starting does not cut off the news that the call connected
+  const agentName = activeAgent ?? activePersona.name;
+  const connectionState = isReconnecting ? 'reconnecting' : isConnecting ? 'connecting' : isConnected ? 'live' : isStandby ? 'standby' : 'disconnected';
+  const [statusAnnouncement, setStatusAnnouncement] = useState('');
+  const [turnAnnouncement, setTurnAnnouncement] = useState('');
+
+  const announcedStateRef = useRef(connectionState);
+  useEffect(() => {
+    if (connectionState === announcedStateRef.current) return;
+    announcedStateRef.current = connectionState;
+    setStatusAnnouncement(t(`announce.${connectionState}`, { agent: agentName }));
+  }, [connectionState, agentName, t]);
+
+  const announcedAgentRef = useRef(activeAgent);
+  useEffect(() => {
+    const previous = announcedAgentRef.current;
+    announcedAgentRef.current = activeAgent;
+    if (previous && activeAgent && previous !== activeAgent) {
+      setStatusAnnouncement(t('announce.handoff', { agent: activeAgent }));
+    }
+  }, [activeAgent, t]);
+
+  // Only a change of mute is news, not the call starting or the language switching
+  const announcedMutedRef = useRef(isMuted);
+  useEffect(() => {
+    if (isMuted === announcedMutedRef.current) return;
+    announcedMutedRef.current = isMuted;
+    if (!isInCall) return;
+    setStatusAnnouncement(t(isMuted ? 'announce.muted' : 'announce.unmuted'));
+  }, [isMuted, isInCall, t]);
+
+  const wasSpeakingRef = useRef(false);
+  useEffect(() => {
+    if (isSpeaking === wasSpeakingRef.current) return;
+    wasSpeakingRef.current = isSpeaking;
+    if (!isInCall) return;
+    setTurnAnnouncement(t(isSpeaking ? 'announce.agentSpeaking' : 'announce.agentFinished', { agent: agentName }));
+  }, [isSpeaking, isInCall, agentName, t]);
+
+  const visualizerLabel = !isInCall
+    ? t('visualizer.idle')
+    : isSpeaking
+      ? t('visualizer.speaking', { agent: agentName })
+      : isInputLive ? t('visualizer.listening') : t('visualizer.muted');
+
+  const handleDownloadRecording = () => {
+    const recording = exportRecording('stereo');
+    if (!recording) return;
+    const stamp = recording.log.startedAt.replace(/[:.]/g, '-');
+    downloadBlob(recording.wav, `fahad-ai-call-${stamp}.wav`);
+    downloadJson(recording.log, `fahad-ai-call-${stamp}.json`);
+  };
+
+  const handleExportMetrics = () => {
+    const snapshot = exportMetrics();
+    if (!snapshot) return;
+    const stamp = (snapshot.startedAt ?? new Date().toISOString()).replace(/[:.]/g, '-');
+    downloadJson(snapshot, `fahad-ai-metrics-${stamp}.json`);
+  };
+
+  // Permission errors are worth retrying once the user has changed the browser setting
+  const getRetryAction = (): (() => void) | null => {
+    if (!error) return null;
+    if (isInCall) {
+      if (error.code === 'camera-denied' || error.code === 'camera-unavailable') return () => startVideo('camera');
+      if (error.code === 'screen-denied' || error.code === 'screen-unavailable') return () => startVideo('screen');
+      return null;
+    }
+    if (isConnecting || !(error.retryable || error.category === 'permission')) return null;
+    return () => connect();
+  };
+
+  // The call being written to history, from the moment it connects
+  const conversationRef = useRef<Omit<ConversationRecord, 'endedAt' | 'durationMs' | 'transcript' | 'toolActivity'> | null>(null);
+  const continuedFromRef = useRef<string | null>(null);
+  const lastSavedRef = useRef('');
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+
+  useEffect(() => {
+    if (isInCall && !conversationRef.current) {
+      const startedAt = Date.now();
+      conversationRef.current = {
+        id: `conversation-${startedAt.toString(36)}`,
+        title: continuedFromRef.current ? t('history.continuedTitle', { title: continuedFromRef.current }) : '',
+        personaId: activePersona.id,
+        personaName: activePersona.name,
+        model: activePersona.settings.model,
+        startedAt,
+      };
+      continuedFromRef.current = null;
+      lastSavedRef.current = '';
+    }
+
+    const conversation = conversationRef.current;
+    if (!conversation) return;
+    if (!isInCall) conversationRef.current = null;
+
+    // Save whenever a turn or tool call finishes, and once more when the call ends
+    const finishedTurns = transcript.filter(entry => entry.endedAt !== null).length;
+    const saveKey = `${finishedTurns}:${toolActivity.filter(tool => tool.endedAt !== null).length}:${isInCall}`;
+    if (transcript.length === 0 || saveKey === lastSavedRef.current) return;
+    lastSavedRef.current = saveKey;
+
+    const endedAt = Date.now();
+    // A rename from the sidebar mid-call wins over the default title
+    const renamed = conversationsRef.current.find(record => record.id === conversation.id)?.title;
+    saveConversation({
+      ...conversation,
+      title: renamed || conversation.title || getDefaultTitle(transcript, conversation.personaName, conversation.startedAt),
+      endedAt,
+      durationMs: endedAt - conversation.startedAt,
+      transcript,
+      toolActivity,
+    });
+  }, [isInCall, transcript, toolActivity, activePersona, saveConversation, t]);
+
+  const handleContinueConversation = (record: ConversationRecord) => {
+    setIsHistoryOpen(false);
+    continuedFromRef.current = record.title;
+    connect({ context: summarizeConversation(record) });
+  };
 
   const handleToggleConnection = () => {
-    if (isConnected) {
+    if (isInCall) {
       disconnect();
     } else {
       connect();
@@ -33,7 +445,7 @@ const App: React.FC = () => {
       </div>
 
       {/* Header */}
-      <header className="absolute top-6 left-6 z-10 flex items-center gap-2">
+      <header className="absolute top-6 start-6 z-10 flex items-center gap-2">
         <div className="p-2 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg shadow-lg shadow-blue-900/50">
            <Sparkles className="w-5 h-5 text-white" />
         </div>
@@ -42,48 +454,157 @@ const App: React.FC = () => {
         </h1>
       </header>
 
+      <div className="absolute top-6 end-6 z-10 flex items-center gap-2">
+        <LocaleSwitcher locale={locale} onLocaleChange={setLocale} label={t('header.locale')} />
+        <button
+          onClick={() => setIsHistoryOpen(true)}
+          className="p-2 rounded-lg border border-zinc-800 bg-zinc-900/50 text-zinc-400 hover:text-zinc-200 backdrop-blur-md transition-colors"
+          title={t('header.history')}
+        >
+          <History className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setIsSettingsOpen(true)}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg border border-zinc-800 bg-zinc-900/50 text-zinc-400 hover:text-zinc-200 backdrop-blur-md transition-colors"
+          title={t('header.settings')}
+        >
+          <Settings className="w-4 h-4" />
+          <span className="text-sm">{activePersona.name}</span>
+        </button>
+      </div>
+
+      <HistorySidebar
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        conversations={conversations}
+        isLoading={isHistoryLoading}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+        onContinue={handleContinueConversation}
+        canContinue={!isInCall && !isConnecting}
+        t={t}
+      />
+
+      <SettingsDrawer
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        personas={personas}
+        activePersona={activePersona}
+        onSelectPersona={selectPersona}
+        onUpdatePersona={updatePersona}
+        onCreatePersona={createPersona}
+        onDeletePersona={deletePersona}
+        noiseGate={noiseGate}
+        onNoiseGateChange={setNoiseGate}
+        bargeIn={bargeIn}
+        onBargeInChange={setBargeIn}
+        playbackRate={playbackRate}
+        onPlaybackRateChange={setPlaybackRate}
+        devices={audioDevices}
+        onDevicesChange={setAudioDevices}
+        inputDevices={inputDevices}
+        outputDevices={outputDevices}
+        canSelectOutput={supportsOutputSelection()}
+        video={videoSettings}
+        onVideoChange={setVideoSettings}
+        visualizer={visualizerSettings}
+        onVisualizerChange={setVisualizerSettings}
+        wakeWord={wakeWordSettings}
+        onWakeWordChange={setWakeWordSettings}
+        wakeWordSampleCount={wakeWordTemplates.length}
+        isRecordingWakeWord={isEnrollingWakeWord}
+        onRecordWakeWord={handleRecordWakeWord}
+        onClearWakeWord={() => setWakeWordTemplates([])}
+        interpreter={interpreterSettings}
+        onInterpreterChange={setInterpreterSettings}
+        isInCall={isInCall || isConnecting}
+        t={t}
+      />
+
+      <LiveAnnouncer message={statusAnnouncement} />
+      <LiveAnnouncer message={turnAnnouncement} />
+
       {/* Main Content Area */}
       <main className="relative z-10 w-full max-w-2xl flex flex-col items-center gap-12">
         
         {/* Status Indicator */}
         <div className={`
-          flex items-center gap-3 px-4 py-2 rounded-full border backdrop-blur-md transition-all duration-300
+          flex items-center gap-3 px-4 py-2 rounded-full border backdrop-blur-md motion-safe:transition-all duration-300
           ${isConnected 
             ? 'bg-green-500/10 border-green-500/30 text-green-400' 
-            : isConnecting 
-              ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'
-              : 'bg-zinc-800/50 border-zinc-700 text-zinc-400'
+            : isReconnecting
+              ? 'bg-orange-500/10 border-orange-500/30 text-orange-400'
+              : isConnecting 
+                ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'
+                : isStandby
+                  ? 'bg-sky-500/10 border-sky-500/30 text-sky-400'
+                  : 'bg-zinc-800/50 border-zinc-700 text-zinc-400'
           }
         `}>
-          <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : isConnecting ? 'bg-yellow-500 animate-bounce' : 'bg-zinc-500'}`} />
+          <div aria-hidden="true" className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 motion-safe:animate-pulse' : isReconnecting ? 'bg-orange-500 motion-safe:animate-ping' : isConnecting ? 'bg-yellow-500 motion-safe:animate-bounce' : isStandby ? 'bg-sky-500 motion-safe:animate-pulse' : 'bg-zinc-500'}`} />
           <span className="text-sm font-medium tracking-wide">
-            {isConnecting ? 'CONNECTING...' : isConnected ? 'LIVE' : 'DISCONNECTED'}
+            {isReconnecting
+              ? t('status.reconnecting', { attempt: reconnectAttempt })
+              : t(isConnecting ? 'status.connecting' : isConnected ? 'status.live' : isStandby ? 'status.standby' : 'status.disconnected')}
           </span>
+          {isInCall && activeAgent && (
+            <span className="text-sm text-zinc-300 border-s border-current/30 ps-3">
+              {isHandingOff ? t('status.transferring') : interpreterLanguages ? t('status.interpreting', interpreterLanguages) : activeAgent}
+            </span>
+          )}
         </div>
 
         {/* Visualizer Container */}
         <div className="relative w-80 h-80 sm:w-96 sm:h-96 flex items-center justify-center">
-          {/* Output Visualizer (Agent) - Blue/Purple */}
-          <div className={`absolute inset-0 z-10 transition-opacity duration-500 ${isSpeaking ? 'opacity-100' : 'opacity-30'}`}>
-             <AudioVisualizer 
-               analyser={outputAnalyser} 
-               isActive={isSpeaking} 
-               barColor="#818cf8" // Indigo 400
-             />
-          </div>
-          
-          {/* Input Visualizer (User) - Green, only visible when connected and agent not speaking */}
-           <div className={`absolute inset-0 z-20 transition-opacity duration-500 ${!isSpeaking && isConnected ? 'opacity-100' : 'opacity-0'}`}>
-              <AudioVisualizer 
-                analyser={inputAnalyser} 
-                isActive={true} 
-                barColor="#34d399" // Emerald 400
+          {visualizerSettings.mode === 'dual-ring' ? (
+            // Both sides share one ring, so there is nothing to cross-fade
+            <div className={`absolute inset-0 z-10 motion-safe:transition-opacity duration-500 ${isInCall ? 'opacity-100' : 'opacity-30'}`}>
+              <AudioVisualizer
+                analyser={outputAnalyser}
+                inputAnalyser={isInputLive ? inputAnalyser : null}
+                isActive={isInCall}
+                mode="dual-ring"
+                theme={visualizerTheme}
+                label={visualizerLabel}
               />
-           </div>
+            </div>
+          ) : (
+            <>
+              {/* Output Visualizer (Agent) */}
+              <div className={`absolute inset-0 z-10 motion-safe:transition-opacity duration-500 ${isSpeaking ? 'opacity-100' : 'opacity-30'}`}>
+                {/* The pair is described once, here, rather than per canvas */}
+                <AudioVisualizer
+                  analyser={outputAnalyser}
+                  isActive={isSpeaking}
+                  mode={visualizerSettings.mode}
+                  theme={visualizerTheme}
+                  label={visualizerLabel}
+                />
+              </div>
+
+              {/* Input Visualizer (User), only visible when connected and agent not speaking */}
+              <div className={`absolute inset-0 z-20 motion-safe:transition-opacity duration-500 ${!isSpeaking && isInCall ? (isInputLive ? 'opacity-100' : 'opacity-30 grayscale') : 'opacity-0'}`}>
+                <AudioVisualizer
+                  analyser={inputAnalyser}
+                  isActive={isInCall}
+                  mode={visualizerSettings.mode}
+                  theme={visualizerTheme}
+                  barColor={visualizerTheme.input}
+                />
+              </div>
+            </>
+          )}
+
+           {/* User Speech Indicator */}
+           {isInCall && isUserSpeaking && !isSpeaking && (
+              <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 px-3 py-1 rounded-full bg-emerald-500/10 border border-emerald-500/30 text-emerald-300 text-xs tracking-wide">
+                {t('status.speaking')}
+              </div>
+           )}
 
            {/* Idle State Icon */}
-           {!isConnected && !isConnecting && (
-              <div className="absolute inset-0 flex items-center justify-center z-30">
+           {!isInCall && !isConnecting && (
+              <div className="absolute inset-0 flex items-center justify-center z-30" aria-hidden="true">
                  <div className="w-48 h-48 rounded-full border-2 border-zinc-800 flex items-center justify-center bg-zinc-900/50 backdrop-blur-sm">
                     <MicOff className="w-12 h-12 text-zinc-700" />
                  </div>
@@ -92,61 +613,164 @@ const App: React.FC = () => {
         </div>
 
         {/* Error Message */}
-        {error && (
-          <div className="px-4 py-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-200 text-sm max-w-sm text-center animate-in fade-in slide-in-from-bottom-2">
-            {error}
-          </div>
+        {error ? (
+          <ErrorPanel
+            error={error}
+            onRetry={getRetryAction()}
+            onOpenSettings={() => setIsSettingsOpen(true)}
+            onDismiss={clearError}
+            t={t}
+          />
+        ) : wakeWordError && (
+          <ErrorPanel
+            error={wakeWordError}
+            onRetry={null}
+            onOpenSettings={() => setIsSettingsOpen(true)}
+            onDismiss={clearWakeWordError}
+            t={t}
+          />
         )}
 
         {/* Controls */}
         <div className="flex flex-col items-center gap-6">
           <p className="text-zinc-400 text-center max-w-md text-sm">
-            {isConnected 
-              ? "Start speaking naturally. The model will listen and respond in real-time."
-              : "Connect to start a real-time voice conversation with Fahad.AI."
+            {isReconnecting
+              ? t('help.reconnecting')
+              : isPushToTalk
+                ? t('help.pushToTalk')
+                : isConnected && isMuted
+                  ? t('help.muted')
+                  : isConnected
+                    ? interpreterLanguages ? t('help.interpreting', interpreterLanguages) : t('help.live')
+                    : isStandby
+                      ? t('help.standby', { phrase: wakeWordSettings.phrase })
+                      : t('help.idle')
             }
           </p>
 
+          <InputModeControls
+            inputMode={isInCall ? inputMode : selectedInputMode}
+            onInputModeChange={setSelectedInputMode}
+            isInCall={isInCall}
+            isMuted={isMuted}
+            onToggleMute={() => setMuted(!isMuted)}
+            isTalking={isTalking}
+            onStartTalking={startTalking}
+            onStopTalking={stopTalking}
+            t={t}
+          />
+
+          {isInCall && (
+            <HandoffControls
+              personas={personas}
+              activeAgent={activeAgent}
+              isHandingOff={isHandingOff}
+              canHandOff={isConnected && !isReconnecting}
+              onHandOff={persona => handoff({ name: persona.name, settings: persona.settings })}
+              t={t}
+            />
+          )}
+
+          {isInCall && (
+            <VideoControls
+              videoSource={videoSource}
+              isVideoPaused={isVideoPaused}
+              onStartVideo={startVideo}
+              onStopVideo={stopVideo}
+              onTogglePause={() => setVideoPaused(!isVideoPaused)}
+              canShareScreen={!!navigator.mediaDevices?.getDisplayMedia}
+              t={t}
+            />
+          )}
+
+          <RecordingControls
+            recordingEnabled={recordingEnabled}
+            onRecordingEnabledChange={setRecordingEnabled}
+            isRecording={isRecording}
+            hasRecording={hasRecording}
+            onDownload={handleDownloadRecording}
+            isInCall={isInCall}
+            t={t}
+          />
+
           <button
             onClick={handleToggleConnection}
             disabled={isConnecting}
+            aria-keyshortcuts={describeShortcut(isInCall ? SHORTCUTS.endCall : SHORTCUTS.connect)}
             className={`
-              group relative flex items-center justify-center gap-3 px-8 py-4 rounded-full text-lg font-semibold transition-all duration-300 shadow-xl
+              group relative flex items-center justify-center gap-3 px-8 py-4 rounded-full text-lg font-semibold motion-safe:transition-all duration-300 shadow-xl
               disabled:opacity-50 disabled:cursor-not-allowed
-              ${isConnected 
+              ${isInCall 
                 ? 'bg-red-500/10 hover:bg-red-500/20 text-red-400 ring-1 ring-red-500/50' 
                 : 'bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white shadow-blue-900/30'
               }
             `}
           >
-            {isConnected ? (
+            {isInCall ? (
               <>
                 <PhoneOff className="w-5 h-5" />
-                <span>End Call</span>
+                <span>{t('call.end')}</span>
               </>
             ) : (
               <>
                 {isConnecting ? (
-                  <Activity className="w-5 h-5 animate-spin" />
+                  <Activity className="w-5 h-5 motion-safe:animate-spin" />
                 ) : (
                   <Phone className="w-5 h-5" />
                 )}
-                <span>{isConnecting ? 'Connecting...' : 'Start Conversation'}</span>
+                <span>{t(isConnecting ? 'call.connecting' : 'call.start')}</span>
               </>
             )}
             
             {/* Button Glow Effect */}
-            {!isConnected && !isConnecting && (
-              <div className="absolute inset-0 rounded-full ring-2 ring-white/20 group-hover:ring-white/40 transition-all" />
+            {!isInCall && !isConnecting && (
+              <div className="absolute inset-0 rounded-full ring-2 ring-white/20 group-hover:ring-white/40 motion-safe:transition-all" />
             )}
           </button>
         </div>
 
+        {/* Tool Activity */}
+        {toolActivity.length > 0 && (
+          <ToolActivityPanel activity={toolActivity} t={t} />
+        )}
+
+        {/* Live Transcript */}
+        {transcript.length > 0 && (
+          <TranscriptPanel entries={transcript} onClear={isInCall ? undefined : clearTranscript} t={t} />
+        )}
+
+        {/* Typed Messages */}
+        <TextComposer
+          onSend={sendText}
+          isInCall={isInCall}
+          responseMode={isInCall ? responseMode : selectedResponseMode}
+          onResponseModeChange={setSelectedResponseMode}
+          responseModeHint={
+            !isInCall && selectedResponseMode === 'text' && !supportsTextResponses(activePersona.settings.model)
+              ? t('composer.voiceOnlyModel')
+              : undefined
+          }
+          t={t}
+        />
+
       </main>
 
+      {/* Video Preview */}
+      {videoStream && videoSource && (
+        <div className="fixed bottom-6 end-6 z-20">
+          <VideoPreview stream={videoStream} source={videoSource} isPaused={isVideoPaused} t={t} />
+        </div>
+      )}
+
+      {/* Debug Metrics */}
+      <div className="fixed bottom-6 start-6 z-20">
+        <MetricsOverlay metrics={metrics} onExport={handleExportMetrics} t={t} />
+      </div>
+
       {/* Footer Info */}
-      <footer className="absolute bottom-6 text-zinc-600 text-xs">
-         Using Gemini 2.5 Flash Native Audio Preview
+      <footer className="absolute bottom-6 flex flex-col items-center gap-1 text-zinc-600 text-xs">
+         <span>{t('footer.model', { model: getModelLabel(activePersona.settings.model) })}</span>
+         <span className="text-zinc-700">{t('shortcuts.hint')}</span>
       </footer>
 
     </div>
@@ -1,141 +1,284 @@
 import React, { useRef, useEffect } from 'react';
+import { VisualizerMode, VisualizerTheme } from '../types';
+import { DEFAULT_VISUALIZER_SETTINGS, VISUALIZER_THEMES } from '../utils/settings';
 
 interface AudioVisualizerProps {
   analyser: AnalyserNode | null;
+  // The user's microphone, drawn alongside the model's audio in 'dual-ring' mode
+  inputAnalyser?: AnalyserNode | null;
   isActive: boolean;
+  mode?: VisualizerMode;
+  theme?: VisualizerTheme;
+  // Overrides the theme's output colour, for stacking visualizers of different sources
   barColor?: string;
-  mode?: 'circle' | 'bars';
+  // Text alternative for what is drawn; without one the canvas is hidden from assistive tech
+  label?: string;
 }
 
-const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ 
-  analyser, 
-  isActive, 
-  barColor = '#3b82f6', // blue-500
-  mode = 'circle'
+// With reduced motion the visualizer still reflects levels, just at a calm rate
+const REDUCED_MOTION_FRAME_MS = 250;
+const RING_BARS = 60;
+const SPECTROGRAM_COLUMN_PX = 2;
+
+interface DrawContext {
+  ctx: CanvasRenderingContext2D;
+  // CSS pixels; the context is scaled to the device pixel ratio
+  width: number;
+  height: number;
+  dpr: number;
+  theme: VisualizerTheme;
+  color: string;
+}
+
+const withAlpha = (hex: string, alpha: number) =>
+  `${hex}${Math.round(alpha * 255).toString(16).padStart(2, '0')}`;
+
+// All bars go into one path so the glow (if any) is drawn once per frame rather than per bar
+function strokeRing(d: DrawContext, data: Uint8Array, radius: number, maxLength: number, color: string, outward = true) {
+  const { ctx, width, height, theme } = d;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const step = Math.max(1, Math.floor(data.length / RING_BARS));
+
+  ctx.beginPath();
+  for (let i = 0; i < RING_BARS; i++) {
+    const length = ((data[i * step] || 0) / 255) * maxLength;
+    const angle = (Math.PI * 2 * i) / RING_BARS;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const end = outward ? radius + length : radius - length;
+    ctx.moveTo(centerX + cos * radius, centerY + sin * radius);
+    ctx.lineTo(centerX + cos * end, centerY + sin * end);
+  }
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  if (theme.glow) {
+    ctx.shadowBlur = 10;
+    ctx.shadowColor = color;
+  }
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+}
+
+function strokeCircle(d: DrawContext, radius: number, color: string, lineWidth = 1) {
+  d.ctx.beginPath();
+  d.ctx.arc(d.width / 2, d.height / 2, radius, 0, 2 * Math.PI);
+  d.ctx.strokeStyle = color;
+  d.ctx.lineWidth = lineWidth;
+  d.ctx.stroke();
+}
+
+function drawCircle(d: DrawContext, frequencies: Uint8Array) {
+  const radius = Math.min(d.width, d.height) / 3;
+  strokeCircle(d, radius - 10, d.theme.track);
+  strokeRing(d, frequencies, radius, radius * 0.8, d.color);
+}
+
+function drawDualRing(d: DrawContext, output: Uint8Array, input: Uint8Array) {
+  const radius = Math.min(d.width, d.height) / 3;
+  strokeCircle(d, radius, d.theme.track);
+  // The model radiates outwards and the user inwards, so both can be read at once
+  strokeRing(d, output, radius + 4, radius * 0.6, d.color);
+  strokeRing(d, input, radius - 4, radius * 0.6, d.theme.input, false);
+}
+
+function drawBars(d: DrawContext, frequencies: Uint8Array) {
+  const { ctx, width, height } = d;
+  // The top of the spectrum is mostly empty for speech
+  const count = Math.floor(frequencies.length * 0.7);
+  const gap = 2;
+  const barWidth = Math.max(1, (width - gap * (count - 1)) / count);
+  const maxHeight = height * 0.6;
+
+  ctx.fillStyle = d.color;
+  ctx.beginPath();
+  for (let i = 0; i < count; i++) {
+    const barHeight = Math.max(2, (frequencies[i] / 255) * maxHeight);
+    ctx.rect(i * (barWidth + gap), (height - barHeight) / 2, barWidth, barHeight);
+  }
+  ctx.fill();
+}
+
+function drawWaveform(d: DrawContext, samples: Uint8Array) {
+  const { ctx, width, height } = d;
+  const centerY = height / 2;
+  const amplitude = height * 0.3;
+
+  ctx.beginPath();
+  for (let i = 0; i < samples.length; i++) {
+    const x = (i / (samples.length - 1)) * width;
+    const y = centerY + ((samples[i] - 128) / 128) * amplitude;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.strokeStyle = d.color;
+  ctx.lineWidth = 2;
+  ctx.lineJoin = 'round';
+  if (d.theme.glow) {
+    ctx.shadowBlur = 8;
+    ctx.shadowColor = d.color;
+  }
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+}
+
+// Scrolls the existing image left and paints the newest spectrum as a column on the right
+function drawSpectrogramColumn(d: DrawContext, frequencies: Uint8Array) {
+  const { ctx, width, height, dpr } = d;
+  const canvas = ctx.canvas;
+  const shift = SPECTROGRAM_COLUMN_PX * dpr;
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = 'copy';
+  ctx.drawImage(canvas, -shift, 0);
+  ctx.restore();
+
+  const x = width - SPECTROGRAM_COLUMN_PX;
+  ctx.clearRect(x, 0, SPECTROGRAM_COLUMN_PX, height);
+  // Low frequencies at the bottom, like a conventional spectrogram
+  const count = Math.floor(frequencies.length * 0.7);
+  const binHeight = height / count;
+  for (let i = 0; i < count; i++) {
+    const value = frequencies[i] / 255;
+    if (value < 0.05) continue;
+    ctx.fillStyle = withAlpha(d.color, value);
+    ctx.fillRect(x, height - (i + 1) * binHeight, SPECTROGRAM_COLUMN_PX, Math.ceil(binHeight));
+  }
+}
+
+function drawIdle(d: DrawContext, mode: VisualizerMode, time: number, animate: boolean) {
+  const { ctx, width, height, theme } = d;
+  if (mode === 'circle' || mode === 'dual-ring') {
+    const radius = Math.min(width, height) / 3;
+    strokeCircle(d, radius + (animate ? Math.sin(time * 2) * 5 : 0), theme.track, 2);
+  } else if (mode !== 'spectrogram') {
+    ctx.beginPath();
+    ctx.moveTo(0, height / 2);
+    ctx.lineTo(width, height / 2);
+    ctx.strokeStyle = theme.track;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  }
+}
+
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
+  analyser,
+  inputAnalyser = null,
+  isActive,
+  mode = DEFAULT_VISUALIZER_SETTINGS.mode,
+  theme = VISUALIZER_THEMES[DEFAULT_VISUALIZER_SETTINGS.theme],
+  barColor,
+  label,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  // Initialized with null for correct type safety
-  const animationRef = useRef<number | null>(null);
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Helper to get frequency data
-    const bufferLength = analyser ? analyser.frequencyBinCount : 0;
-    const dataArray = analyser ? new Uint8Array(bufferLength) : new Uint8Array(0);
-
-    const draw = () => {
-      if (!canvas || !ctx) return;
-
-      const width = canvas.width;
-      const height = canvas.height;
-      const centerX = width / 2;
-      const centerY = height / 2;
-      const radius = Math.min(width, height) / 3;
-
-      ctx.clearRect(0, 0, width, height);
-
-      if (isActive && analyser) {
-        analyser.getByteFrequencyData(dataArray);
-      } else {
-         // idle animation
-         if (!isActive) {
-            const time = Date.now() / 1000;
-            const breathingRadius = radius + Math.sin(time * 2) * 5;
-            
-            ctx.beginPath();
-            ctx.arc(centerX, centerY, breathingRadius, 0, 2 * Math.PI);
-            ctx.strokeStyle = '#27272a'; // zinc-800
-            ctx.lineWidth = 2;
-            ctx.stroke();
-            
-            animationRef.current = requestAnimationFrame(draw);
-            return;
-         }
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const outputData = new Uint8Array(analyser?.frequencyBinCount ?? 0);
+    const inputData = new Uint8Array(inputAnalyser?.frequencyBinCount ?? 0);
+    const waveformData = new Uint8Array(analyser?.fftSize ?? 0);
+    const reducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)');
+
+    const d: DrawContext = { ctx, width: 0, height: 0, dpr: 1, theme, color: barColor ?? theme.output };
+    let frame: number | null = null;
+    let lastDrawAt = 0;
+    let isOnScreen = true;
+
+    const draw = (timestamp: number) => {
+      frame = requestAnimationFrame(draw);
+      if (reducedMotion.matches && timestamp - lastDrawAt < REDUCED_MOTION_FRAME_MS) return;
+      lastDrawAt = timestamp;
+      if (d.width === 0 || d.height === 0) return;
+
+      const isLive = isActive && !!analyser;
+      // The spectrogram keeps its history; everything else is redrawn from scratch
+      if (mode !== 'spectrogram') ctx.clearRect(0, 0, d.width, d.height);
+
+      if (!isLive) {
+        drawIdle(d, mode, timestamp / 1000, !reducedMotion.matches);
+        if (mode === 'spectrogram') drawSpectrogramColumn(d, outputData.fill(0));
+        return;
       }
 
-      if (mode === 'circle') {
-        ctx.beginPath();
-        // Draw a base circle
-        ctx.arc(centerX, centerY, radius - 10, 0, 2 * Math.PI);
-        ctx.strokeStyle = '#27272a';
-        ctx.lineWidth = 1;
-        ctx.stroke();
-
-        // Draw frequency bars radiating out
-        const bars = 60; // Number of bars
-        const step = Math.floor(bufferLength / bars);
-        
-        for (let i = 0; i < bars; i++) {
-          const value = dataArray[i * step] || 0;
-          const percent = value / 255;
-          const barHeight = percent * (radius * 0.8);
-          
-          const angle = (Math.PI * 2 * i) / bars;
-          
-          // Start point on circle
-          const x1 = centerX + Math.cos(angle) * radius;
-          const y1 = centerY + Math.sin(angle) * radius;
-          
-          // End point outwards
-          const x2 = centerX + Math.cos(angle) * (radius + barHeight);
-          const y2 = centerY + Math.sin(angle) * (radius + barHeight);
-
-          ctx.beginPath();
-          ctx.moveTo(x1, y1);
-          ctx.lineTo(x2, y2);
-          
-          ctx.strokeStyle = barColor;
-          ctx.lineWidth = 3;
-          ctx.lineCap = 'round';
-          
-          // Add a glow effect
-          ctx.shadowBlur = 10;
-          ctx.shadowColor = barColor;
-          
-          ctx.stroke();
-          
-          // Reset shadow for performance
-          ctx.shadowBlur = 0;
-        }
-      } else {
-        // Simple bars
-        const barWidth = (width / bufferLength) * 2.5;
-        let barHeight;
-        let x = 0;
-
-        for(let i = 0; i < bufferLength; i++) {
-            barHeight = dataArray[i] / 2;
-            ctx.fillStyle = barColor;
-            ctx.fillRect(x, height - barHeight / 2 - height/2, barWidth, barHeight);
-            x += barWidth + 1;
-        }
+      switch (mode) {
+        case 'bars':
+          analyser.getByteFrequencyData(outputData);
+          drawBars(d, outputData);
+          break;
+        case 'waveform':
+          analyser.getByteTimeDomainData(waveformData);
+          drawWaveform(d, waveformData);
+          break;
+        case 'spectrogram':
+          analyser.getByteFrequencyData(outputData);
+          drawSpectrogramColumn(d, outputData);
+          break;
+        case 'dual-ring':
+          analyser.getByteFrequencyData(outputData);
+          inputAnalyser?.getByteFrequencyData(inputData);
+          drawDualRing(d, outputData, inputData);
+          break;
+        default:
+          analyser.getByteFrequencyData(outputData);
+          drawCircle(d, outputData);
       }
+    };
 
-      animationRef.current = requestAnimationFrame(draw);
+    // Only animate while the canvas can actually be seen
+    const updateRunning = () => {
+      const shouldRun = isOnScreen && document.visibilityState === 'visible';
+      if (shouldRun && frame === null) {
+        frame = requestAnimationFrame(draw);
+      } else if (!shouldRun && frame !== null) {
+        cancelAnimationFrame(frame);
+        frame = null;
+      }
     };
 
-    draw();
+    // Match the backing store to the displayed size so lines stay crisp on high-DPI screens
+    const resizeObserver = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      const dpr = window.devicePixelRatio || 1;
+      d.width = width;
+      d.height = height;
+      d.dpr = dpr;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    });
+    resizeObserver.observe(canvas);
+
+    const intersectionObserver = new IntersectionObserver(([entry]) => {
+      isOnScreen = entry.isIntersecting;
+      updateRunning();
+    });
+    intersectionObserver.observe(canvas);
+
+    document.addEventListener('visibilitychange', updateRunning);
+    updateRunning();
 
     return () => {
-      if (animationRef.current !== null) {
-        cancelAnimationFrame(animationRef.current);
-      }
+      if (frame !== null) cancelAnimationFrame(frame);
+      resizeObserver.disconnect();
+      intersectionObserver.disconnect();
+      document.removeEventListener('visibilitychange', updateRunning);
     };
-  }, [analyser, isActive, barColor, mode]);
+  }, [analyser, inputAnalyser, isActive, mode, theme, barColor]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={600} 
-      height={600} 
+    <canvas
+      ref={canvasRef}
+      role={label ? 'img' : undefined}
+      aria-label={label}
+      aria-hidden={label ? undefined : true}
       className="w-full h-full max-w-[500px] max-h-[500px]"
     />
   );
 };
 
-export default AudioVisualizer;
\ No newline at end of file
+export default AudioVisualizer;
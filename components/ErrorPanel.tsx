@@ -0,0 +1,101 @@
+import React from 'react';
+import { AlertTriangle, RotateCcw, Settings, X } from 'lucide-react';
+import { LiveError, LiveErrorCategory, describeError } from '../utils/errors';
+import { MessageKey, Translate } from '../i18n';
+
+interface ErrorPanelProps {
+  error: LiveError;
+  // Retrying needs a fresh connect when the call is gone, or just the failed step while it is up
+  onRetry: (() => void) | null;
+  onOpenSettings: () => void;
+  onDismiss: () => void;
+  t: Translate;
+}
+
+const getGuidanceKey = (error: LiveError): MessageKey => {
+  switch (error.code) {
+    case 'microphone-denied':
+    case 'camera-denied':
+    case 'screen-denied':
+      return 'error.guidance.permission-denied';
+    case 'microphone-not-found':
+    case 'microphone-in-use':
+    case 'microphone-disconnected':
+    case 'media-unsupported':
+    case 'invalid-api-key':
+    case 'missing-credentials':
+    case 'not-allowed':
+    case 'quota-exceeded':
+    case 'model-unavailable':
+    case 'invalid-request':
+      return `error.guidance.${error.code}`;
+    default:
+      break;
+  }
+  switch (error.category) {
+    case 'network':
+    case 'server':
+    case 'configuration':
+      return `error.guidance.${error.category}`;
+    default:
+      return error.retryable ? 'error.guidance.retryable' : 'error.guidance.fatal';
+  }
+};
+
+const SETTINGS_CATEGORIES: LiveErrorCategory[] = ['device', 'configuration'];
+const SETTINGS_CODES: LiveError['code'][] = ['not-allowed', 'model-unavailable', 'invalid-request'];
+
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, onRetry, onOpenSettings, onDismiss, t }) => {
+  const showSettings = SETTINGS_CATEGORIES.includes(error.category) || SETTINGS_CODES.includes(error.code);
+
+  return (
+    <div
+      role="alert"
+      className="w-full max-w-sm px-4 py-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm animate-in fade-in slide-in-from-bottom-2"
+    >
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-red-400" />
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-red-200">{t(`error.title.${error.category}`)}</p>
+          <p className="mt-0.5 text-red-200/80">{describeError(error, t)}</p>
+          <p className="mt-1 text-zinc-400">{t(getGuidanceKey(error))}</p>
+          {error.closeCode !== undefined && (
+            <p className="mt-1 text-[11px] font-mono text-zinc-600">
+              {error.code} · close {error.closeCode}
+            </p>
+          )}
+
+          <div className="mt-3 flex items-center gap-2 text-xs">
+            {onRetry && (
+              <button
+                onClick={() => onRetry()}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-red-500/20 text-red-100 hover:bg-red-500/30 transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                {t('error.retry')}
+              </button>
+            )}
+            {showSettings && (
+              <button
+                onClick={onOpenSettings}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors"
+              >
+                <Settings className="w-3 h-3" />
+                {t('error.settings')}
+              </button>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={onDismiss}
+          aria-label={t('error.dismiss')}
+          className="p-1 -m-1 rounded text-zinc-500 hover:text-zinc-300 transition-colors"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ArrowRightLeft, Loader2 } from 'lucide-react';
+import { Persona } from '../types';
+import { Translate } from '../i18n';
+
+interface HandoffControlsProps {
+  personas: Persona[];
+  activeAgent: string | null;
+  isHandingOff: boolean;
+  // Transfers are only possible while the connection is up
+  canHandOff: boolean;
+  onHandOff: (persona: Persona) => void;
+  t: Translate;
+}
+
+const HandoffControls: React.FC<HandoffControlsProps> = ({
+  personas,
+  activeAgent,
+  isHandingOff,
+  canHandOff,
+  onHandOff,
+  t,
+}) => {
+  const others = personas.filter(persona => persona.name !== activeAgent);
+  if (others.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      {isHandingOff ? (
+        <Loader2 className="w-3.5 h-3.5 text-zinc-500 motion-safe:animate-spin" />
+      ) : (
+        <ArrowRightLeft className="w-3.5 h-3.5 text-zinc-500" />
+      )}
+      <select
+        value=""
+        onChange={e => {
+          const persona = others.find(({ id }) => id === e.target.value);
+          if (persona) onHandOff(persona);
+        }}
+        disabled={!canHandOff || isHandingOff}
+        className="bg-zinc-800/60 text-zinc-400 ring-1 ring-zinc-700 rounded-full px-3 py-1.5 font-medium focus:outline-none hover:bg-zinc-800 hover:text-zinc-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title={t('handoff.title')}
+      >
+        <option value="" disabled>
+          {isHandingOff ? t('status.transferring') : t('handoff.placeholder')}
+        </option>
+        {others.map(persona => (
+          <option key={persona.id} value={persona.id}>{persona.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default HandoffControls;
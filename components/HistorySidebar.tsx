@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Pencil, PhoneForwarded, Search, Trash2, X } from 'lucide-react';
+import { ConversationRecord } from '../types';
+import { matchesQuery } from '../utils/history';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { Translate } from '../i18n';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversations: ConversationRecord[];
+  isLoading: boolean;
+  onRename: (id: string, title: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  // Starts a new call that picks up from the conversation
+  onContinue: (record: ConversationRecord) => void;
+  // Continuing is only possible between calls
+  canContinue: boolean;
+  t: Translate;
+}
+
+const formatDuration = (ms: number, t: Translate) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return t('history.seconds', { seconds });
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60
+    ? t('history.minutes', { minutes, seconds: seconds % 60 })
+    : t('history.hours', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  isOpen,
+  onClose,
+  conversations,
+  isLoading,
+  onRename,
+  onDelete,
+  onContinue,
+  canContinue,
+  t,
+}) => {
+  const dialogRef = useDialogFocus<HTMLDivElement>(isOpen, onClose);
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const visible = useMemo(
+    () => conversations.filter(record => matchesQuery(record, query)),
+    [conversations, query]
+  );
+
+  const handleRename = async (record: ConversationRecord) => {
+    const title = window.prompt(t('history.renamePrompt'), record.title);
+    if (title?.trim()) {
+      await onRename(record.id, title.trim());
+    }
+  };
+
+  const handleDelete = async (record: ConversationRecord) => {
+    if (window.confirm(t('history.deleteConfirm', { title: record.title }))) {
+      await onDelete(record.id);
+    }
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className={`fixed inset-0 z-40 bg-black/50 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+        onClick={onClose}
+      />
+
+      <div
+        className={`
+          fixed top-0 start-0 z-50 h-full w-full max-w-sm bg-zinc-950 border-e border-zinc-800 shadow-2xl
+          flex flex-col transition-transform duration-300
+          ${isOpen ? 'translate-x-0' : '-translate-x-full rtl:translate-x-full'}
+        `}
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-sidebar-title"
+        // Closed drawers stay mounted for the slide animation but must not take focus
+        inert={!isOpen}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 id="history-sidebar-title" className="text-sm font-semibold text-zinc-200">{t('history.title')}</h2>
+          <button onClick={onClose} className="p-1 rounded text-zinc-500 hover:text-zinc-300" title={t('history.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 border-b border-zinc-800">
+          <label className="relative block">
+            <Search className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-600" />
+            <input
+              type="search"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder={t('history.search')}
+              aria-label={t('history.search')}
+              className="w-full rounded-lg bg-zinc-900 border border-zinc-700 ps-9 pe-3 py-2 text-sm text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            />
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-3 py-3 flex flex-col gap-2">
+          {isLoading && <p className="px-2 text-xs text-zinc-600">{t('history.loading')}</p>}
+          {!isLoading && visible.length === 0 && (
+            <p className="px-2 text-xs text-zinc-600">
+              {conversations.length === 0 ? t('history.empty') : t('history.noMatches')}
+            </p>
+          )}
+
+          {visible.map(record => {
+            const isExpanded = expandedId === record.id;
+            return (
+              <div key={record.id} className="rounded-lg border border-zinc-800 bg-zinc-900/50">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : record.id)}
+                  aria-expanded={isExpanded}
+                  className="w-full flex items-start gap-2 px-3 py-2 text-start"
+                >
+                  {isExpanded
+                    ? <ChevronDown className="w-4 h-4 mt-0.5 shrink-0 text-zinc-500" />
+                    : <ChevronRight className="w-4 h-4 mt-0.5 shrink-0 text-zinc-500 rtl:-scale-x-100" />}
+                  <span className="min-w-0">
+                    <span className="block text-sm text-zinc-200 truncate">{record.title}</span>
+                    <span className="block text-[11px] text-zinc-500">
+                      {formatDate(record.startedAt)} · {formatDuration(record.durationMs, t)} · {record.personaName}
+                    </span>
+                  </span>
+                </button>
+
+                {isExpanded && (
+                  <div className="px-3 pb-3 border-t border-zinc-800">
+                    <div className="mt-2 max-h-48 overflow-y-auto flex flex-col gap-1.5 text-xs">
+                      {record.transcript.length === 0 && <p className="text-zinc-600">{t('history.nothingSaid')}</p>}
+                      {record.transcript.map(entry => (
+                        <p key={entry.id} className={entry.speaker === 'user' ? 'text-emerald-200/80' : 'text-indigo-200/80'}>
+                          <span className="text-zinc-500">{entry.speaker === 'user' ? t('speaker.user') : record.personaName}: </span>
+                          {entry.text}
+                        </p>
+                      ))}
+                    </div>
+                    {record.toolActivity.length > 0 && (
+                      <p className="mt-2 text-[11px] text-zinc-500">
+                        {t('history.tools', { tools: record.toolActivity.map(tool => tool.name).join(', ') })}
+                      </p>
+                    )}
+
+                    <div className="mt-3 flex items-center gap-2 text-xs">
+                      <button
+                        onClick={() => onContinue(record)}
+                        disabled={!canContinue}
+                        className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-blue-600/20 text-blue-200 hover:bg-blue-600/30 transition-colors disabled:opacity-40"
+                        title={canContinue ? t('history.continueHint') : t('history.continueBlocked')}
+                      >
+                        <PhoneForwarded className="w-3 h-3" />
+                        {t('history.continue')}
+                      </button>
+                      <button
+                        onClick={() => handleRename(record)}
+                        className="p-1.5 rounded-md border border-zinc-700 text-zinc-400 hover:bg-zinc-800 transition-colors"
+                        title={t('history.rename')}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(record)}
+                        className="p-1.5 rounded-md border border-zinc-700 text-zinc-400 hover:text-red-300 hover:bg-zinc-800 transition-colors"
+                        title={t('history.delete')}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default HistorySidebar;
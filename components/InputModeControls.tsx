@@ -0,0 +1,103 @@
+import React from 'react';
+import { Hand, Mic, MicOff, Radio } from 'lucide-react';
+import { InputMode } from '../types';
+import { SHORTCUTS, describeShortcut } from '../utils/shortcuts';
+import { MessageKey, Translate } from '../i18n';
+
+interface InputModeControlsProps {
+  inputMode: InputMode;
+  onInputModeChange: (mode: InputMode) => void;
+  isInCall: boolean;
+  isMuted: boolean;
+  onToggleMute: () => void;
+  isTalking: boolean;
+  onStartTalking: () => void;
+  onStopTalking: () => void;
+  t: Translate;
+}
+
+const MODES: { value: InputMode; labelKey: MessageKey; icon: React.ElementType }[] = [
+  { value: 'open', labelKey: 'input.openMic', icon: Radio },
+  { value: 'push-to-talk', labelKey: 'input.pushToTalk', icon: Hand },
+];
+
+const InputModeControls: React.FC<InputModeControlsProps> = ({
+  inputMode,
+  onInputModeChange,
+  isInCall,
+  isMuted,
+  onToggleMute,
+  isTalking,
+  onStartTalking,
+  onStopTalking,
+  t,
+}) => {
+  // The mode is fixed for the duration of a call, so only show its control while in one
+  if (isInCall) {
+    if (inputMode === 'push-to-talk') {
+      return (
+        <button
+          onPointerDown={onStartTalking}
+          onPointerUp={onStopTalking}
+          onPointerLeave={onStopTalking}
+          onPointerCancel={onStopTalking}
+          aria-keyshortcuts={describeShortcut(SHORTCUTS.pushToTalk)}
+          className={`
+            flex items-center gap-2 px-6 py-3 rounded-full text-sm font-medium select-none touch-none transition-all duration-150
+            ${isTalking
+              ? 'bg-emerald-500/20 text-emerald-300 ring-2 ring-emerald-400/60 scale-105'
+              : 'bg-zinc-800/60 text-zinc-300 ring-1 ring-zinc-700 hover:bg-zinc-800'
+            }
+          `}
+        >
+          <Mic className="w-4 h-4" />
+          <span>{isTalking ? t('input.listening') : t('input.holdToTalk')}</span>
+        </button>
+      );
+    }
+
+    return (
+      <button
+        onClick={onToggleMute}
+        aria-pressed={isMuted}
+        aria-keyshortcuts={describeShortcut(SHORTCUTS.mute)}
+        title={t('input.withShortcut', {
+          action: isMuted ? t('input.unmute') : t('input.mute'),
+          shortcut: describeShortcut(SHORTCUTS.mute),
+        })}
+        className={`
+          flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-medium transition-colors
+          ${isMuted
+            ? 'bg-yellow-500/10 text-yellow-300 ring-1 ring-yellow-500/40'
+            : 'bg-zinc-800/60 text-zinc-300 ring-1 ring-zinc-700 hover:bg-zinc-800'
+          }
+        `}
+      >
+        {isMuted ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+        <span>{isMuted ? t('input.unmute') : t('input.mute')}</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center p-1 rounded-full bg-zinc-900/60 border border-zinc-800" role="radiogroup" aria-label={t('input.mode')}>
+      {MODES.map(({ value, labelKey, icon: Icon }) => (
+        <button
+          key={value}
+          role="radio"
+          aria-checked={inputMode === value}
+          onClick={() => onInputModeChange(value)}
+          className={`
+            flex items-center gap-2 px-4 py-1.5 rounded-full text-xs font-medium transition-colors
+            ${inputMode === value ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}
+          `}
+        >
+          <Icon className="w-3.5 h-3.5" />
+          {t(labelKey)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default InputModeControls;
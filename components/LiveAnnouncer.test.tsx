@@ -0,0 +1,28 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+import LiveAnnouncer from './LiveAnnouncer';
+
+afterEach(cleanup);
+
+describe('LiveAnnouncer', () => {
+  it('reads each message out politely, whole, from a visually hidden region', () => {
+    const { rerender } = render(<LiveAnnouncer message="Connected to Fahad.AI." />);
+    const region = screen.getByRole('status');
+    expect(region.getAttribute('aria-live')).toBe('polite');
+    expect(region.getAttribute('aria-atomic')).toBe('true');
+    expect(region.className).toContain('sr-only');
+    expect(region.textContent).toBe('Connected to Fahad.AI.');
+
+    // The same region is kept and its text replaced, which is what screen readers pick up
+    rerender(<LiveAnnouncer message="Call ended." />);
+    expect(screen.getByRole('status')).toBe(region);
+    expect(region.textContent).toBe('Call ended.');
+  });
+
+  it('interrupts the screen reader when asked to', () => {
+    render(<LiveAnnouncer message="Connection lost." politeness="assertive" />);
+    expect(screen.getByRole('status').getAttribute('aria-live')).toBe('assertive');
+  });
+});
@@ -0,0 +1,20 @@
+import React from 'react';
+
+interface LiveAnnouncerProps {
+  message: string;
+  // 'assertive' interrupts whatever the screen reader is saying, so keep it for urgent changes
+  politeness?: 'polite' | 'assertive';
+}
+
+/**
+ * Visually hidden live region: screen readers read out each new message.
+ */
+const LiveAnnouncer: React.FC<LiveAnnouncerProps> = ({ message, politeness = 'polite' }) => {
+  return (
+    <div role="status" aria-live={politeness} aria-atomic="true" className="sr-only">
+      {message}
+    </div>
+  );
+};
+
+export default LiveAnnouncer;
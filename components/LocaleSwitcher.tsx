@@ -0,0 +1,32 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALE_OPTIONS, Locale } from '../i18n';
+
+interface LocaleSwitcherProps {
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
+  label: string;
+}
+
+const LocaleSwitcher: React.FC<LocaleSwitcherProps> = ({ locale, onLocaleChange, label }) => {
+  return (
+    <label
+      className="flex items-center gap-1.5 px-2 py-2 rounded-lg border border-zinc-800 bg-zinc-900/50 text-zinc-400 hover:text-zinc-200 backdrop-blur-md transition-colors"
+      title={label}
+    >
+      <Languages className="w-4 h-4" />
+      <select
+        value={locale}
+        onChange={e => onLocaleChange(e.target.value as Locale)}
+        aria-label={label}
+        className="bg-transparent text-sm focus:outline-none cursor-pointer"
+      >
+        {LOCALE_OPTIONS.map(option => (
+          <option key={option.value} value={option.value} className="bg-zinc-900">{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LocaleSwitcher;
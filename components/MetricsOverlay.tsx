@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Download, Gauge } from 'lucide-react';
+import { SessionMetrics } from '../types';
+import { MessageKey, Translate } from '../i18n';
+
+interface MetricsOverlayProps {
+  metrics: SessionMetrics;
+  onExport: () => void;
+  t: Translate;
+}
+
+const formatMs = (ms: number | null) => (ms === null ? '–' : `${Math.round(ms)} ms`);
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const MetricsOverlay: React.FC<MetricsOverlayProps> = ({ metrics, onExport, t }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { responseLatency: latency, tokens } = metrics;
+
+  const rows: [MessageKey, string][] = [
+    ['metrics.latencyLast', formatMs(latency.lastMs)],
+    ['metrics.latencyAvg', formatMs(latency.averageMs)],
+    ['metrics.latencyRange', `${formatMs(latency.minMs)} / ${formatMs(latency.maxMs)}`],
+    ['metrics.jitter', formatMs(metrics.jitterMs)],
+    ['metrics.underruns', String(metrics.playbackUnderruns)],
+    ['metrics.sent', formatBytes(metrics.bytesSent)],
+    ['metrics.received', formatBytes(metrics.bytesReceived)],
+    ['metrics.modelTurns', String(metrics.modelTurns)],
+    ['metrics.interruptions', String(metrics.interruptions)],
+    ['metrics.reconnects', String(metrics.reconnects)],
+    ['metrics.tokens', `${tokens.prompt} / ${tokens.response}`],
+    ['metrics.tokensTotal', String(tokens.total)],
+  ];
+
+  return (
+    <div className="w-72 rounded-xl border border-zinc-800 bg-zinc-900/80 backdrop-blur-md text-xs shadow-xl shadow-black/40">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 text-zinc-400 hover:text-zinc-200 transition-colors"
+      >
+        <span className="flex items-center gap-2 font-medium tracking-wide">
+          <Gauge className="w-3.5 h-3.5" />
+          {t('metrics.title')}
+          {latency.lastMs !== null && <span className="text-zinc-500 font-normal">· {formatMs(latency.lastMs)}</span>}
+        </span>
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronUp className="w-3.5 h-3.5" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 border-t border-zinc-800">
+          <dl className="mt-2 grid grid-cols-[1fr_auto] gap-x-3 gap-y-1">
+            {rows.map(([labelKey, value]) => (
+              <React.Fragment key={labelKey}>
+                <dt className="text-zinc-500">{t(labelKey)}</dt>
+                <dd className="text-zinc-200 font-mono text-end">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          <div className="mt-3 flex items-center justify-between text-zinc-600">
+            <span className="truncate">{metrics.model ?? t('metrics.noCall')}</span>
+            <button
+              onClick={onExport}
+              disabled={!metrics.startedAt}
+              className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors disabled:opacity-40"
+            >
+              <Download className="w-3 h-3" />
+              {t('metrics.export')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetricsOverlay;
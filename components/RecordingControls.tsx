@@ -0,0 +1,59 @@
+import React from 'react';
+import { Circle, Download } from 'lucide-react';
+import { Translate } from '../i18n';
+
+interface RecordingControlsProps {
+  recordingEnabled: boolean;
+  onRecordingEnabledChange: (enabled: boolean) => void;
+  isRecording: boolean;
+  hasRecording: boolean;
+  onDownload: () => void;
+  isInCall: boolean;
+  t: Translate;
+}
+
+const RecordingControls: React.FC<RecordingControlsProps> = ({
+  recordingEnabled,
+  onRecordingEnabledChange,
+  isRecording,
+  hasRecording,
+  onDownload,
+  isInCall,
+  t,
+}) => {
+  if (isRecording) {
+    return (
+      <div className="flex items-center gap-2 text-xs font-medium tracking-wide text-red-400">
+        <Circle className="w-2.5 h-2.5 fill-red-500 text-red-500 animate-pulse" />
+        {t('recording.live')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-4 text-xs">
+      {!isInCall && (
+        <label className="flex items-center gap-2 text-zinc-500 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={recordingEnabled}
+            onChange={e => onRecordingEnabledChange(e.target.checked)}
+            className="accent-red-500"
+          />
+          {t('recording.enable')}
+        </label>
+      )}
+      {hasRecording && (
+        <button
+          onClick={onDownload}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors"
+        >
+          <Download className="w-3.5 h-3.5" />
+          {t('recording.download')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RecordingControls;
@@ -0,0 +1,626 @@
+import React from 'react';
+import { Mic, Plus, Trash2, X } from 'lucide-react';
+import { AudioDeviceSettings, BargeInSettings, EchoHandling, InterpreterSettings, LiveSettings, NoiseGateSettings, Persona, VideoSettings, VisualizerMode, VisualizerSettings, WakeWordSettings } from '../types';
+import {
+  AVAILABLE_LANGUAGES,
+  AVAILABLE_MODELS,
+  AVAILABLE_VOICES,
+  ECHO_HANDLING_OPTIONS,
+  FRAME_RATE_OPTIONS,
+  FRAME_WIDTH_OPTIONS,
+  IDLE_TIMEOUT_OPTIONS,
+  MAX_SYSTEM_PROMPT_LENGTH,
+  MIN_BARGE_IN_SPEECH_OPTIONS,
+  PLAYBACK_RATE_OPTIONS,
+  RECOMMENDED_WAKE_WORD_SAMPLES,
+  VISUALIZER_MODES,
+  VISUALIZER_THEME_OPTIONS,
+  validateInterpreterSettings,
+  validateSettings,
+} from '../utils/settings';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { Translate } from '../i18n';
+
+interface SettingsDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  personas: Persona[];
+  activePersona: Persona;
+  onSelectPersona: (id: string) => void;
+  onUpdatePersona: (id: string, patch: Partial<Omit<Persona, 'id'>>) => void;
+  onCreatePersona: (name: string, settings: LiveSettings) => void;
+  onDeletePersona: (id: string) => void;
+  noiseGate: NoiseGateSettings;
+  onNoiseGateChange: (noiseGate: NoiseGateSettings) => void;
+  bargeIn: BargeInSettings;
+  onBargeInChange: (bargeIn: BargeInSettings) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  devices: AudioDeviceSettings;
+  onDevicesChange: (devices: AudioDeviceSettings) => void;
+  inputDevices: MediaDeviceInfo[];
+  outputDevices: MediaDeviceInfo[];
+  // False where the browser can't route audio to a chosen speaker
+  canSelectOutput: boolean;
+  video: VideoSettings;
+  onVideoChange: (video: VideoSettings) => void;
+  visualizer: VisualizerSettings;
+  onVisualizerChange: (visualizer: VisualizerSettings) => void;
+  wakeWord: WakeWordSettings;
+  onWakeWordChange: (wakeWord: WakeWordSettings) => void;
+  // Recorded samples of the wake phrase; standby needs at least one
+  wakeWordSampleCount: number;
+  isRecordingWakeWord: boolean;
+  onRecordWakeWord: () => void;
+  onClearWakeWord: () => void;
+  interpreter: InterpreterSettings;
+  onInterpreterChange: (interpreter: InterpreterSettings) => void;
+  // Edits made during a call only take effect on the next one
+  isInCall?: boolean;
+  t: Translate;
+}
+
+const fieldClass = 'w-full rounded-lg bg-zinc-900 border border-zinc-700 px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50';
+const labelClass = 'block text-xs font-medium tracking-wide text-zinc-500 mb-1.5';
+
+const SettingsDrawer: React.FC<SettingsDrawerProps> = ({
+  isOpen,
+  onClose,
+  personas,
+  activePersona,
+  onSelectPersona,
+  onUpdatePersona,
+  onCreatePersona,
+  onDeletePersona,
+  noiseGate,
+  onNoiseGateChange,
+  bargeIn,
+  onBargeInChange,
+  playbackRate,
+  onPlaybackRateChange,
+  devices,
+  onDevicesChange,
+  inputDevices,
+  outputDevices,
+  canSelectOutput,
+  video,
+  onVideoChange,
+  visualizer,
+  onVisualizerChange,
+  wakeWord,
+  onWakeWordChange,
+  wakeWordSampleCount,
+  isRecordingWakeWord,
+  onRecordWakeWord,
+  onClearWakeWord,
+  interpreter,
+  onInterpreterChange,
+  isInCall = false,
+  t,
+}) => {
+  const dialogRef = useDialogFocus<HTMLDivElement>(isOpen, onClose);
+  const { settings } = activePersona;
+  const errors = validateSettings(settings, t);
+  const interpreterErrors = validateInterpreterSettings(interpreter, t);
+
+  const updateSettings = (patch: Partial<LiveSettings>) => {
+    onUpdatePersona(activePersona.id, { settings: { ...settings, ...patch } });
+  };
+
+  const updateDevices = (patch: Partial<AudioDeviceSettings>) => {
+    onDevicesChange({ ...devices, ...patch });
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt(t('settings.savePersonaPrompt'), t('settings.personaCopy', { name: activePersona.name }));
+    if (name?.trim()) {
+      onCreatePersona(name.trim(), settings);
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(t('settings.deletePersonaConfirm', { name: activePersona.name }))) {
+      onDeletePersona(activePersona.id);
+    }
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className={`fixed inset-0 z-40 bg-black/50 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+        onClick={onClose}
+      />
+
+      <div
+        className={`
+          fixed top-0 end-0 z-50 h-full w-full max-w-sm bg-zinc-950 border-s border-zinc-800 shadow-2xl
+          flex flex-col transition-transform duration-300
+          ${isOpen ? 'translate-x-0' : 'translate-x-full rtl:-translate-x-full'}
+        `}
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-drawer-title"
+        // Closed drawers stay mounted for the slide animation but must not take focus
+        inert={!isOpen}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 id="settings-drawer-title" className="text-sm font-semibold text-zinc-200">{t('settings.title')}</h2>
+          <button onClick={onClose} className="p-1 rounded text-zinc-500 hover:text-zinc-300" title={t('settings.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-5">
+          {isInCall && (
+            <p className="text-xs text-yellow-300/80 bg-yellow-500/10 border border-yellow-500/20 rounded-lg px-3 py-2">
+              {t('settings.nextCall')}
+            </p>
+          )}
+
+          {/* Persona */}
+          <div>
+            <label className={labelClass} htmlFor="persona">{t('settings.persona')}</label>
+            <div className="flex gap-2">
+              <select
+                id="persona"
+                className={fieldClass}
+                value={activePersona.id}
+                onChange={e => onSelectPersona(e.target.value)}
+              >
+                {personas.map(persona => (
+                  <option key={persona.id} value={persona.id}>{persona.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleCreate}
+                className="p-2 rounded-lg border border-zinc-700 text-zinc-400 hover:text-zinc-200 disabled:opacity-50"
+                title={t('settings.savePersona')}
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={activePersona.builtIn}
+                className="p-2 rounded-lg border border-zinc-700 text-zinc-400 hover:text-red-400 disabled:opacity-50"
+                title={t('settings.deletePersona')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Model */}
+          <div>
+            <label className={labelClass} htmlFor="model">{t('settings.model')}</label>
+            <select
+              id="model"
+              className={fieldClass}
+              value={settings.model}
+              onChange={e => updateSettings({ model: e.target.value })}
+            >
+              {AVAILABLE_MODELS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Voice & Language */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="voice">{t('settings.voice')}</label>
+              <select
+                id="voice"
+                className={fieldClass}
+                value={settings.voice}
+                onChange={e => updateSettings({ voice: e.target.value })}
+              >
+                {AVAILABLE_VOICES.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="language">{t('settings.language')}</label>
+              <select
+                id="language"
+                className={fieldClass}
+                value={settings.language}
+                onChange={e => updateSettings({ language: e.target.value })}
+              >
+                {AVAILABLE_LANGUAGES.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Temperature */}
+          <div>
+            <label className={labelClass} htmlFor="temperature">
+              {t('settings.temperature')} <span className="text-zinc-400">{settings.temperature.toFixed(1)}</span>
+            </label>
+            <input
+              id="temperature"
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={settings.temperature}
+              onChange={e => updateSettings({ temperature: parseFloat(e.target.value) })}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          {/* System Prompt */}
+          <div>
+            <label className={labelClass} htmlFor="system-prompt">{t('settings.systemPrompt')}</label>
+            <textarea
+              id="system-prompt"
+              rows={8}
+              maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+              className={`${fieldClass} resize-y`}
+              value={settings.systemPrompt}
+              onChange={e => updateSettings({ systemPrompt: e.target.value })}
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-300 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2 list-disc list-inside">
+              {errors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+
+          {/* Audio Devices (apply immediately, even mid-call) */}
+          <div className="pt-4 border-t border-zinc-800 flex flex-col gap-3">
+            <div>
+              <label className={labelClass} htmlFor="input-device">{t('settings.microphone')}</label>
+              <select
+                id="input-device"
+                className={fieldClass}
+                value={devices.inputDeviceId}
+                onChange={e => updateDevices({ inputDeviceId: e.target.value })}
+              >
+                <option value="">{t('settings.systemDefault')}</option>
+                {inputDevices.filter(device => device.deviceId && device.deviceId !== 'default').map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || t('settings.microphoneN', { n: i + 1 })}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="output-device">{t('settings.speaker')}</label>
+              <select
+                id="output-device"
+                className={`${fieldClass} disabled:opacity-50`}
+                value={devices.outputDeviceId}
+                disabled={!canSelectOutput}
+                onChange={e => updateDevices({ outputDeviceId: e.target.value })}
+              >
+                <option value="">{t('settings.systemDefault')}</option>
+                {outputDevices.filter(device => device.deviceId && device.deviceId !== 'default').map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || t('settings.speakerN', { n: i + 1 })}</option>
+                ))}
+              </select>
+              {!canSelectOutput && (
+                <p className="mt-1 text-xs text-zinc-600">{t('settings.outputUnsupported')}</p>
+              )}
+            </div>
+            <div className="flex flex-col gap-2 text-sm text-zinc-300">
+              {([
+                ['echoCancellation', 'settings.echoCancellation'],
+                ['noiseSuppression', 'settings.noiseSuppression'],
+                ['autoGainControl', 'settings.autoGainControl'],
+              ] as const).map(([key, labelKey]) => (
+                <label key={key} className="flex items-center justify-between cursor-pointer">
+                  {t(labelKey)}
+                  <input
+                    type="checkbox"
+                    checked={devices[key]}
+                    onChange={e => updateDevices({ [key]: e.target.checked })}
+                    className="accent-blue-500"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Noise Gate (device level, applies immediately) */}
+          <div className="pt-4 border-t border-zinc-800">
+            <label className="flex items-center justify-between text-xs font-medium tracking-wide text-zinc-500 mb-1.5">
+              {t('settings.noiseGate')}
+              <input
+                type="checkbox"
+                checked={noiseGate.enabled}
+                onChange={e => onNoiseGateChange({ ...noiseGate, enabled: e.target.checked })}
+                className="accent-blue-500"
+              />
+            </label>
+            <p className="text-xs text-zinc-500 mb-2">
+              {t('settings.noiseGateHelp')}
+            </p>
+            <label className={labelClass} htmlFor="vad-sensitivity">
+              {t('settings.sensitivity')} <span className="text-zinc-400">{Math.round(noiseGate.sensitivity * 100)}%</span>
+            </label>
+            <input
+              id="vad-sensitivity"
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={noiseGate.sensitivity}
+              disabled={!noiseGate.enabled}
+              onChange={e => onNoiseGateChange({ ...noiseGate, sensitivity: parseFloat(e.target.value) })}
+              className="w-full accent-blue-500 disabled:opacity-50"
+            />
+          </div>
+
+          {/* Interruptions (applies immediately, even mid-call) */}
+          <div className="pt-4 border-t border-zinc-800 flex flex-col gap-3">
+            <div>
+              <label className="flex items-center justify-between text-xs font-medium tracking-wide text-zinc-500 mb-1.5">
+                {t('settings.interruptions')}
+                <input
+                  type="checkbox"
+                  checked={bargeIn.interruptionsAllowed}
+                  onChange={e => onBargeInChange({ ...bargeIn, interruptionsAllowed: e.target.checked })}
+                  className="accent-blue-500"
+                />
+              </label>
+              <p className="text-xs text-zinc-500">
+                {t('settings.interruptionsHelp')}
+              </p>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="barge-in-min-speech">{t('settings.bargeInSpeech')}</label>
+              <select
+                id="barge-in-min-speech"
+                className={`${fieldClass} disabled:opacity-50`}
+                value={String(bargeIn.minSpeechMs)}
+                disabled={!bargeIn.interruptionsAllowed}
+                onChange={e => onBargeInChange({ ...bargeIn, minSpeechMs: parseInt(e.target.value, 10) })}
+              >
+                {MIN_BARGE_IN_SPEECH_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="barge-in-echo">{t('settings.echoHandling')}</label>
+              <select
+                id="barge-in-echo"
+                className={`${fieldClass} disabled:opacity-50`}
+                value={bargeIn.echoHandling}
+                disabled={!bargeIn.interruptionsAllowed}
+                onChange={e => onBargeInChange({ ...bargeIn, echoHandling: e.target.value as EchoHandling })}
+              >
+                {ECHO_HANDLING_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+              <p className="text-xs text-zinc-500 mt-1.5">
+                {t('settings.echoHandlingHelp')}
+              </p>
+            </div>
+          </div>
+
+          {/* Playback speed (applies immediately, even mid-call) */}
+          <div className="pt-4 border-t border-zinc-800">
+            <label className={labelClass} htmlFor="playback-rate">{t('settings.speechSpeed')}</label>
+            <select
+              id="playback-rate"
+              className={fieldClass}
+              value={String(playbackRate)}
+              onChange={e => onPlaybackRateChange(parseFloat(e.target.value))}
+            >
+              {PLAYBACK_RATE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+              ))}
+            </select>
+            <p className="text-xs text-zinc-500 mt-1.5">
+              {t('settings.speechSpeedHelp')}
+            </p>
+          </div>
+
+          {/* Video (applies immediately, even mid-call) */}
+          <div className="pt-4 border-t border-zinc-800 flex flex-col gap-3">
+            <div>
+              <label className={labelClass} htmlFor="video-frame-rate">{t('settings.frameRate')}</label>
+              <select
+                id="video-frame-rate"
+                className={fieldClass}
+                value={String(video.frameRate)}
+                onChange={e => onVideoChange({ ...video, frameRate: parseFloat(e.target.value) })}
+              >
+                {FRAME_RATE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="video-width">{t('settings.frameWidth')}</label>
+              <select
+                id="video-width"
+                className={fieldClass}
+                value={String(video.maxWidth)}
+                onChange={e => onVideoChange({ ...video, maxWidth: parseInt(e.target.value, 10) })}
+              >
+                {FRAME_WIDTH_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-zinc-600">{t('settings.videoHelp')}</p>
+            </div>
+          </div>
+
+          {/* Wake Word (listens locally between calls) */}
+          <div className="pt-4 border-t border-zinc-800 flex flex-col gap-3">
+            <div>
+              <label className="flex items-center justify-between text-xs font-medium tracking-wide text-zinc-500 mb-1.5">
+                {t('settings.wakeWord')}
+                <input
+                  type="checkbox"
+                  checked={wakeWord.enabled}
+                  onChange={e => onWakeWordChange({ ...wakeWord, enabled: e.target.checked })}
+                  className="accent-blue-500"
+                />
+              </label>
+              <p className="text-xs text-zinc-500">
+                {t('settings.wakeWordHelp')}
+              </p>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="wake-word-phrase">{t('settings.phrase')}</label>
+              <input
+                id="wake-word-phrase"
+                className={fieldClass}
+                value={wakeWord.phrase}
+                onChange={e => onWakeWordChange({ ...wakeWord, phrase: e.target.value })}
+              />
+              <div className="mt-2 flex items-center gap-2">
+                <button
+                  onClick={onRecordWakeWord}
+                  disabled={isRecordingWakeWord || isInCall}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-zinc-700 text-xs text-zinc-300 hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  <Mic className="w-3.5 h-3.5" />
+                  {isRecordingWakeWord ? t('settings.recordingSample') : t('settings.recordSample')}
+                </button>
+                {wakeWordSampleCount > 0 && (
+                  <button
+                    onClick={onClearWakeWord}
+                    className="p-1.5 rounded-lg border border-zinc-700 text-zinc-400 hover:text-red-300 hover:bg-zinc-800"
+                    title={t('settings.deleteSamples')}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <span className="text-xs text-zinc-500">
+                  {t('settings.samples', { count: wakeWordSampleCount, total: RECOMMENDED_WAKE_WORD_SAMPLES })}
+                </span>
+              </div>
+              <p className="mt-1 text-xs text-zinc-600">{t('settings.recordHelp')}</p>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="wake-word-sensitivity">
+                {t('settings.wakeSensitivity')} <span className="text-zinc-400">{Math.round(wakeWord.sensitivity * 100)}%</span>
+              </label>
+              <input
+                id="wake-word-sensitivity"
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={wakeWord.sensitivity}
+                onChange={e => onWakeWordChange({ ...wakeWord, sensitivity: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="wake-word-idle">{t('settings.idleTimeout')}</label>
+              <select
+                id="wake-word-idle"
+                className={fieldClass}
+                value={String(wakeWord.idleTimeoutSec)}
+                disabled={!wakeWord.enabled}
+                onChange={e => onWakeWordChange({ ...wakeWord, idleTimeoutSec: parseInt(e.target.value, 10) })}
+              >
+                {IDLE_TIMEOUT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+              <p className="text-xs text-zinc-500 mt-1.5">
+                {t('settings.idleTimeoutHelp')}
+              </p>
+            </div>
+          </div>
+
+          {/* Interpreter (replaces the persona for the whole call) */}
+          <div className="pt-4 border-t border-zinc-800 flex flex-col gap-3">
+            <div>
+              <label className="flex items-center justify-between text-xs font-medium tracking-wide text-zinc-500 mb-1.5">
+                {t('settings.interpreter')}
+                <input
+                  type="checkbox"
+                  checked={interpreter.enabled}
+                  onChange={e => onInterpreterChange({ ...interpreter, enabled: e.target.checked })}
+                  className="accent-blue-500"
+                />
+              </label>
+              <p className="text-xs text-zinc-500">
+                {t('settings.interpreterHelp')}
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass} htmlFor="interpreter-first">{t('settings.firstLanguage')}</label>
+                <select
+                  id="interpreter-first"
+                  className={fieldClass}
+                  value={interpreter.firstLanguage}
+                  disabled={!interpreter.enabled}
+                  onChange={e => onInterpreterChange({ ...interpreter, firstLanguage: e.target.value })}
+                >
+                  {AVAILABLE_LANGUAGES.filter(option => option.value).map(option => (
+                    <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass} htmlFor="interpreter-second">{t('settings.secondLanguage')}</label>
+                <select
+                  id="interpreter-second"
+                  className={fieldClass}
+                  value={interpreter.secondLanguage}
+                  disabled={!interpreter.enabled}
+                  onChange={e => onInterpreterChange({ ...interpreter, secondLanguage: e.target.value })}
+                >
+                  {AVAILABLE_LANGUAGES.filter(option => option.value).map(option => (
+                    <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {interpreterErrors.length > 0 && (
+              <ul className="text-xs text-red-300 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2 list-disc list-inside">
+                {interpreterErrors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            )}
+          </div>
+
+          {/* Visualizer (applies immediately) */}
+          <div className="pt-4 border-t border-zinc-800 flex flex-col gap-3">
+            <div>
+              <label className={labelClass} htmlFor="visualizer-mode">{t('settings.visualizer')}</label>
+              <select
+                id="visualizer-mode"
+                className={fieldClass}
+                value={visualizer.mode}
+                onChange={e => onVisualizerChange({ ...visualizer, mode: e.target.value as VisualizerMode })}
+              >
+                {VISUALIZER_MODES.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="visualizer-theme">{t('settings.visualizerTheme')}</label>
+              <select
+                id="visualizer-theme"
+                className={fieldClass}
+                value={visualizer.theme}
+                onChange={e => onVisualizerChange({ ...visualizer, theme: e.target.value })}
+              >
+                {VISUALIZER_THEME_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default SettingsDrawer;
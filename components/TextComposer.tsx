@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { SendHorizontal } from 'lucide-react';
+import { ResponseMode } from '../types';
+import { RESPONSE_MODES } from '../utils/settings';
+import { Translate } from '../i18n';
+
+interface TextComposerProps {
+  onSend: (text: string) => boolean;
+  isInCall: boolean;
+  responseMode: ResponseMode;
+  onResponseModeChange: (mode: ResponseMode) => void;
+  // Shown under the reply picker, e.g. when the model cannot reply with text
+  responseModeHint?: string;
+  t: Translate;
+}
+
+const TextComposer: React.FC<TextComposerProps> = ({
+  onSend,
+  isInCall,
+  responseMode,
+  onResponseModeChange,
+  responseModeHint,
+  t,
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const submit = () => {
+    // Keep the draft if it could not be sent, e.g. while reconnecting
+    if (onSend(draft)) setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter starts a new line
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <div className="flex items-end gap-2 rounded-2xl border border-zinc-800 bg-zinc-900/50 backdrop-blur-md p-2">
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={!isInCall}
+          rows={1}
+          placeholder={isInCall ? t('composer.placeholder') : t('composer.placeholderIdle')}
+          aria-label={t('composer.label')}
+          className="flex-1 resize-none bg-transparent px-2 py-1.5 text-sm text-zinc-100 placeholder:text-zinc-600 focus:outline-none disabled:cursor-not-allowed max-h-32"
+        />
+        <button
+          onClick={submit}
+          disabled={!isInCall || !draft.trim()}
+          className="p-2 rounded-xl bg-indigo-500/20 text-indigo-300 hover:bg-indigo-500/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title={t('composer.send')}
+        >
+          <SendHorizontal className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 self-end text-xs text-zinc-500">
+        {t('composer.replies')}
+        <select
+          value={responseMode}
+          onChange={e => onResponseModeChange(e.target.value as ResponseMode)}
+          disabled={isInCall}
+          className="bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-zinc-300 disabled:opacity-50"
+          title={isInCall ? t('composer.nextCall') : undefined}
+        >
+          {RESPONSE_MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{t(mode.labelKey)}</option>
+          ))}
+        </select>
+      </label>
+      {responseModeHint && (
+        <p className="self-end text-xs text-amber-400/80">{responseModeHint}</p>
+      )}
+    </div>
+  );
+};
+
+export default TextComposer;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Activity, Ban, CheckCircle2, Wrench, XCircle } from 'lucide-react';
+import { ToolActivity } from '../types';
+import { Translate } from '../i18n';
+
+interface ToolActivityPanelProps {
+  activity: ToolActivity[];
+  // Only the most recent calls are shown
+  limit?: number;
+  t: Translate;
+}
+
+const formatValue = (value: unknown) => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text && text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+const StatusIcon: React.FC<{ status: ToolActivity['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'running':
+      return <Activity className="w-4 h-4 text-yellow-400 animate-spin" />;
+    case 'completed':
+      return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-400" />;
+    case 'cancelled':
+      return <Ban className="w-4 h-4 text-zinc-500" />;
+  }
+};
+
+const ToolActivityPanel: React.FC<ToolActivityPanelProps> = ({ activity, limit = 5, t }) => {
+  const recent = activity.slice(-limit).reverse();
+
+  return (
+    <div className="w-full rounded-2xl border border-zinc-800 bg-zinc-900/50 backdrop-blur-md">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-zinc-800">
+        <Wrench className="w-3.5 h-3.5 text-zinc-500" />
+        <span className="text-xs font-medium tracking-wide text-zinc-500">{t('tools.title')}</span>
+      </div>
+
+      <ul className="px-4 py-2 flex flex-col divide-y divide-zinc-800/60" aria-live="polite">
+        {recent.map(call => (
+          <li key={call.id} className="flex items-start gap-3 py-2 text-sm">
+            <div className="pt-0.5">
+              <StatusIcon status={call.status} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-baseline gap-2">
+                <span className="font-mono text-zinc-200">{call.name}</span>
+                <span className="font-mono text-xs text-zinc-500 truncate">{formatValue(call.args)}</span>
+              </div>
+              {call.status === 'completed' && (
+                <div className="font-mono text-xs text-zinc-400 truncate">→ {formatValue(call.result)}</div>
+              )}
+              {call.status === 'failed' && (
+                <div className="text-xs text-red-300 truncate">{call.error}</div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ToolActivityPanel;
@@ -0,0 +1,76 @@
+import React, { useRef, useEffect } from 'react';
+import { Trash2 } from 'lucide-react';
+import { TranscriptEntry } from '../types';
+import { Translate } from '../i18n';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  onClear?: () => void;
+  t: Translate;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ entries, onClear, t }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest caption in view as text streams in
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [entries]);
+
+  return (
+    <div className="w-full rounded-2xl border border-zinc-800 bg-zinc-900/50 backdrop-blur-md">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <span className="text-xs font-medium tracking-wide text-zinc-500">{t('transcript.title')}</span>
+        {onClear && (
+          <button
+            onClick={onClear}
+            className="p-1 rounded text-zinc-500 hover:text-zinc-300 transition-colors"
+            title={t('transcript.clear')}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div
+        ref={scrollRef}
+        role="log"
+        aria-live="polite"
+        className="max-h-64 overflow-y-auto px-4 py-3 flex flex-col gap-3"
+      >
+        {entries.map(entry => {
+          const isUser = entry.speaker === 'user';
+          return (
+            <div key={entry.id} className={`flex flex-col gap-1 ${isUser ? 'items-end' : 'items-start'}`}>
+              <div className={`
+                max-w-[85%] px-3 py-2 rounded-xl text-sm leading-relaxed
+                ${isUser
+                  ? 'bg-emerald-500/10 text-emerald-100 border border-emerald-500/20'
+                  : 'bg-indigo-500/10 text-indigo-100 border border-indigo-500/20'
+                }
+                ${entry.endedAt === null ? 'opacity-80' : ''}
+              `}>
+                {entry.text}
+                {entry.interrupted && <span className="text-zinc-500"> —</span>}
+              </div>
+              <span className="text-[10px] text-zinc-600">
+                {isUser ? t('speaker.user') : 'Fahad.AI'} · {formatTime(entry.startedAt)}
+                {entry.endedAt !== null && ` – ${formatTime(entry.endedAt)}`}
+                {entry.source === 'text' && isUser && ` · ${t('transcript.typed')}`}
+                {entry.interrupted && ` · ${t('transcript.interrupted')}`}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
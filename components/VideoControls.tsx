@@ -0,0 +1,69 @@
+import React from 'react';
+import { Camera, MonitorUp, Pause, Play } from 'lucide-react';
+import { VideoSource } from '../types';
+import { MessageKey, Translate } from '../i18n';
+
+interface VideoControlsProps {
+  videoSource: VideoSource | null;
+  isVideoPaused: boolean;
+  onStartVideo: (source: VideoSource) => void;
+  onStopVideo: () => void;
+  onTogglePause: () => void;
+  // False where the browser has no screen capture, e.g. most mobile browsers
+  canShareScreen: boolean;
+  t: Translate;
+}
+
+const SOURCES: { value: VideoSource; labelKey: MessageKey; stopKey: MessageKey; icon: React.ElementType }[] = [
+  { value: 'camera', labelKey: 'video.camera', stopKey: 'video.stopCamera', icon: Camera },
+  { value: 'screen', labelKey: 'video.screen', stopKey: 'video.stopScreen', icon: MonitorUp },
+];
+
+const VideoControls: React.FC<VideoControlsProps> = ({
+  videoSource,
+  isVideoPaused,
+  onStartVideo,
+  onStopVideo,
+  onTogglePause,
+  canShareScreen,
+  t,
+}) => {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      {SOURCES.filter(({ value }) => value !== 'screen' || canShareScreen).map(({ value, labelKey, stopKey, icon: Icon }) => {
+        const isActive = videoSource === value;
+        return (
+          <button
+            key={value}
+            onClick={() => (isActive ? onStopVideo() : onStartVideo(value))}
+            aria-pressed={isActive}
+            className={`
+              flex items-center gap-1.5 px-3 py-1.5 rounded-full font-medium transition-colors
+              ${isActive
+                ? 'bg-sky-500/15 text-sky-300 ring-1 ring-sky-500/40'
+                : 'bg-zinc-800/60 text-zinc-400 ring-1 ring-zinc-700 hover:bg-zinc-800 hover:text-zinc-300'
+              }
+            `}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {t(isActive ? stopKey : labelKey)}
+          </button>
+        );
+      })}
+
+      {videoSource && (
+        <button
+          onClick={onTogglePause}
+          aria-pressed={isVideoPaused}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-full font-medium bg-zinc-800/60 text-zinc-400 ring-1 ring-zinc-700 hover:bg-zinc-800 hover:text-zinc-300 transition-colors"
+          title={t('video.pauseHint')}
+        >
+          {isVideoPaused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+          {isVideoPaused ? t('video.resume') : t('video.pause')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VideoControls;
@@ -0,0 +1,48 @@
+import React, { useEffect, useRef } from 'react';
+import { Pause } from 'lucide-react';
+import { VideoSource } from '../types';
+import { Translate } from '../i18n';
+
+interface VideoPreviewProps {
+  stream: MediaStream;
+  source: VideoSource;
+  isPaused: boolean;
+  t: Translate;
+}
+
+const VideoPreview: React.FC<VideoPreviewProps> = ({ stream, source, isPaused, t }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    return () => {
+      video.srcObject = null;
+    };
+  }, [stream]);
+
+  return (
+    <div className="relative w-48 sm:w-64 aspect-video rounded-xl overflow-hidden border border-zinc-800 bg-black shadow-xl shadow-black/40">
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        // Mirror the camera like a mirror would; shared screens stay readable
+        className={`w-full h-full object-contain ${source === 'camera' ? '-scale-x-100' : ''} ${isPaused ? 'opacity-40' : ''}`}
+      />
+      <div className="absolute top-2 start-2 px-2 py-0.5 rounded-full bg-black/60 text-[10px] font-medium tracking-wide text-zinc-300">
+        {source === 'camera' ? t('video.badge.camera') : t('video.badge.screen')}
+      </div>
+      {isPaused && (
+        <div className="absolute inset-0 flex items-center justify-center gap-1.5 text-xs text-zinc-300">
+          <Pause className="w-4 h-4" />
+          {t('video.notSending')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoPreview;
@@ -0,0 +1,158 @@
+// @vitest-environment jsdom
+import React from 'react';
+import axe from 'axe-core';
+import { cleanup, render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import ErrorPanel from './ErrorPanel';
+import HistorySidebar from './HistorySidebar';
+import InputModeControls from './InputModeControls';
+import SettingsDrawer from './SettingsDrawer';
+import TextComposer from './TextComposer';
+import TranscriptPanel from './TranscriptPanel';
+import { Locale, Translate, translate } from '../i18n';
+import { ConversationRecord, TranscriptEntry } from '../types';
+import { DEFAULT_AUDIO_DEVICES } from '../utils/devices';
+import {
+  DEFAULT_BARGE_IN_SETTINGS,
+  DEFAULT_INTERPRETER_SETTINGS,
+  DEFAULT_NOISE_GATE,
+  DEFAULT_PERSONAS,
+  DEFAULT_VIDEO_SETTINGS,
+  DEFAULT_VISUALIZER_SETTINGS,
+  DEFAULT_WAKE_WORD_SETTINGS,
+} from '../utils/settings';
+
+// Automated checks for names, roles and labels. Contrast needs real layout, which jsdom does not do.
+async function expectNoViolations(container: HTMLElement) {
+  const { violations } = await axe.run(container, { rules: { 'color-contrast': { enabled: false } } });
+  expect(violations.map(({ id, nodes }) => `${id}: ${nodes.map(node => node.html).join(', ')}`)).toEqual([]);
+}
+
+const entry = (speaker: TranscriptEntry['speaker'], text: string): TranscriptEntry => ({
+  id: `${speaker}-${text}`,
+  speaker,
+  text,
+  startedAt: 0,
+  endedAt: 1000,
+  interrupted: false,
+  source: 'voice',
+});
+
+const TRANSCRIPT = [entry('user', 'What time is it?'), entry('model', 'It is noon.')];
+
+const CONVERSATION: ConversationRecord = {
+  id: 'a',
+  title: 'Checking the time',
+  personaId: 'default',
+  personaName: 'Fahad.AI',
+  model: 'model-a',
+  startedAt: 0,
+  endedAt: 60_000,
+  durationMs: 60_000,
+  transcript: TRANSCRIPT,
+  toolActivity: [],
+};
+
+afterEach(cleanup);
+
+describe.each<Locale>(['en', 'ar'])('accessibility (%s)', locale => {
+  const t: Translate = (key, params) => translate(locale, key, params);
+
+  it('labels the call controls, composer and transcript', async () => {
+    const { container } = render(
+      <main>
+        <InputModeControls
+          inputMode="open"
+          onInputModeChange={vi.fn()}
+          isInCall={false}
+          isMuted={false}
+          onToggleMute={vi.fn()}
+          isTalking={false}
+          onStartTalking={vi.fn()}
+          onStopTalking={vi.fn()}
+          t={t}
+        />
+        <InputModeControls
+          inputMode="open"
+          onInputModeChange={vi.fn()}
+          isInCall
+          isMuted
+          onToggleMute={vi.fn()}
+          isTalking={false}
+          onStartTalking={vi.fn()}
+          onStopTalking={vi.fn()}
+          t={t}
+        />
+        <ErrorPanel
+          error={{ category: 'network', code: 'connection-lost', message: 'The connection dropped.', retryable: true }}
+          onRetry={vi.fn()}
+          onOpenSettings={vi.fn()}
+          onDismiss={vi.fn()}
+          t={t}
+        />
+        <TranscriptPanel entries={TRANSCRIPT} onClear={vi.fn()} t={t} />
+        <TextComposer onSend={vi.fn()} isInCall responseMode="audio" onResponseModeChange={vi.fn()} t={t} />
+      </main>
+    );
+    await expectNoViolations(container);
+  });
+
+  it('labels everything in the history sidebar', async () => {
+    const { container } = render(
+      <HistorySidebar
+        isOpen
+        onClose={vi.fn()}
+        conversations={[CONVERSATION]}
+        isLoading={false}
+        onRename={vi.fn()}
+        onDelete={vi.fn()}
+        onContinue={vi.fn()}
+        canContinue
+        t={t}
+      />
+    );
+    // Expanded, so the transcript and its actions are checked too
+    container.querySelector<HTMLButtonElement>('[aria-expanded]')!.click();
+    await expectNoViolations(container);
+  });
+
+  it('labels every setting in the settings drawer', async () => {
+    const { container } = render(
+      <SettingsDrawer
+        isOpen
+        onClose={vi.fn()}
+        personas={DEFAULT_PERSONAS}
+        activePersona={DEFAULT_PERSONAS[0]}
+        onSelectPersona={vi.fn()}
+        onUpdatePersona={vi.fn()}
+        onCreatePersona={vi.fn()}
+        onDeletePersona={vi.fn()}
+        noiseGate={DEFAULT_NOISE_GATE}
+        onNoiseGateChange={vi.fn()}
+        bargeIn={DEFAULT_BARGE_IN_SETTINGS}
+        onBargeInChange={vi.fn()}
+        playbackRate={1}
+        onPlaybackRateChange={vi.fn()}
+        devices={DEFAULT_AUDIO_DEVICES}
+        onDevicesChange={vi.fn()}
+        inputDevices={[]}
+        outputDevices={[]}
+        canSelectOutput={false}
+        video={DEFAULT_VIDEO_SETTINGS}
+        onVideoChange={vi.fn()}
+        visualizer={DEFAULT_VISUALIZER_SETTINGS}
+        onVisualizerChange={vi.fn()}
+        wakeWord={DEFAULT_WAKE_WORD_SETTINGS}
+        onWakeWordChange={vi.fn()}
+        wakeWordSampleCount={1}
+        isRecordingWakeWord={false}
+        onRecordWakeWord={vi.fn()}
+        onClearWakeWord={vi.fn()}
+        interpreter={DEFAULT_INTERPRETER_SETTINGS}
+        onInterpreterChange={vi.fn()}
+        t={t}
+      />
+    );
+    await expectNoViolations(container);
+  });
+});
@@ -0,0 +1,37 @@
+import { useState, useCallback, useEffect } from 'react';
+
+interface UseAudioDevicesReturn {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Lists the available microphones and speakers, kept current as devices are
+ * plugged in or removed. Labels are only filled in once mic permission is granted.
+ */
+export function useAudioDevices(): UseAudioDevicesReturn {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setInputs(devices.filter(device => device.kind === 'audioinput'));
+      setOutputs(devices.filter(device => device.kind === 'audiooutput'));
+    } catch (e) {
+      console.warn('Could not enumerate audio devices', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    };
+  }, [refresh]);
+
+  return { inputs, outputs, refresh };
+}
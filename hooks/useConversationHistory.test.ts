@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useConversationHistory } from './useConversationHistory';
+import { MemoryConversationStore } from '../utils/history';
+import { ConversationRecord } from '../types';
+
+const record = (id: string, startedAt: number): ConversationRecord => ({
+  id,
+  title: `Conversation ${id}`,
+  personaId: 'default',
+  personaName: 'Fahad.AI',
+  model: 'model-a',
+  startedAt,
+  endedAt: startedAt + 1000,
+  durationMs: 1000,
+  transcript: [],
+  toolActivity: [],
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('useConversationHistory', () => {
+  it('loads, saves, renames and deletes through the store', async () => {
+    const store = new MemoryConversationStore();
+    await store.put(record('a', 1000));
+    const { result } = renderHook(() => useConversationHistory(store));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.conversations.map(saved => saved.id)).toEqual(['a']);
+
+    await act(() => result.current.saveConversation(record('b', 2000)));
+    expect(result.current.conversations.map(saved => saved.id)).toEqual(['b', 'a']);
+
+    await act(() => result.current.renameConversation('a', 'Renamed'));
+    expect(result.current.conversations[1].title).toBe('Renamed');
+    expect((await store.get('a'))!.title).toBe('Renamed');
+
+    await act(() => result.current.deleteConversation('b'));
+    expect(result.current.conversations.map(saved => saved.id)).toEqual(['a']);
+    expect((await store.list()).map(saved => saved.id)).toEqual(['a']);
+  });
+
+  it('ignores a rename for a conversation that is gone', async () => {
+    const store = new MemoryConversationStore();
+    const { result } = renderHook(() => useConversationHistory(store));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => result.current.renameConversation('missing', 'Renamed'));
+    expect(result.current.conversations).toEqual([]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('keeps a conversation saved before the history has loaded', async () => {
+    const store = new MemoryConversationStore();
+    await store.put(record('a', 1000));
+    let finishLoading = () => {};
+    const loaded = new Promise<void>(resolve => { finishLoading = resolve; });
+    const list = store.list.bind(store);
+    vi.spyOn(store, 'list').mockImplementation(async () => {
+      const records = await list();
+      await loaded;
+      return records;
+    });
+    const { result } = renderHook(() => useConversationHistory(store));
+
+    await act(() => result.current.saveConversation(record('b', 2000)));
+    await act(async () => finishLoading());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.conversations.map(saved => saved.id)).toEqual(['b', 'a']);
+  });
+
+  it('puts a rename or delete back when the store fails', async () => {
+    const store = new MemoryConversationStore();
+    await store.put(record('a', 1000));
+    const { result } = renderHook(() => useConversationHistory(store));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(store, 'put').mockRejectedValue(new Error('QuotaExceededError'));
+    vi.spyOn(store, 'delete').mockRejectedValue(new Error('QuotaExceededError'));
+
+    await act(() => result.current.renameConversation('a', 'Renamed'));
+    expect(result.current.conversations[0].title).toBe('Conversation a');
+
+    await act(() => result.current.deleteConversation('a'));
+    expect(result.current.conversations.map(saved => saved.id)).toEqual(['a']);
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+});
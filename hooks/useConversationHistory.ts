@@ -0,0 +1,89 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { ConversationRecord } from '../types';
+import { ConversationStore, byNewest, createConversationStore } from '../utils/history';
+
+interface UseConversationHistoryReturn {
+  conversations: ConversationRecord[];
+  isLoading: boolean;
+  saveConversation: (record: ConversationRecord) => Promise<void>;
+  renameConversation: (id: string, title: string) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
+}
+
+/**
+ * Past conversations from the given store (IndexedDB by default), kept in
+ * sync with the store as they are saved, renamed and deleted.
+ */
+export function useConversationHistory(store?: ConversationStore): UseConversationHistoryReturn {
+  const conversationStore = useMemo(() => store ?? createConversationStore(), [store]);
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    conversationStore.list()
+      .then(records => {
+        if (cancelled) return;
+        // Conversations saved while the list was loading are newer than what it returned
+        setConversations(prev => [
+          ...prev,
+          ...records.filter(record => !prev.some(existing => existing.id === record.id)),
+        ].sort(byNewest));
+      })
+      .catch(err => console.error('Could not load conversation history', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationStore]);
+
+  const saveConversation = useCallback(async (record: ConversationRecord) => {
+    setConversations(prev => [record, ...prev.filter(existing => existing.id !== record.id)].sort(byNewest));
+    try {
+      await conversationStore.put(record);
+    } catch (err) {
+      console.error('Could not save conversation', err);
+    }
+  }, [conversationStore]);
+
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    const setTitle = (newTitle: string) =>
+      setConversations(prev => prev.map(existing => existing.id === id ? { ...existing, title: newTitle } : existing));
+    let record: ConversationRecord | null = null;
+    try {
+      record = await conversationStore.get(id);
+      if (!record) return;
+      setTitle(title);
+      await conversationStore.put({ ...record, title });
+    } catch (err) {
+      console.error('Could not rename conversation', err);
+      // Show the title that is actually stored
+      if (record) setTitle(record.title);
+    }
+  }, [conversationStore]);
+
+  const deleteConversation = useCallback(async (id: string) => {
+    setConversations(prev => prev.filter(existing => existing.id !== id));
+    try {
+      await conversationStore.delete(id);
+    } catch (err) {
+      console.error('Could not delete conversation', err);
+      // The conversation is still stored, so bring it back
+      const record = await conversationStore.get(id).catch(() => null);
+      if (record) {
+        setConversations(prev => [record, ...prev.filter(existing => existing.id !== id)].sort(byNewest));
+      }
+    }
+  }, [conversationStore]);
+
+  return {
+    conversations,
+    isLoading,
+    saveConversation,
+    renameConversation,
+    deleteConversation,
+  };
+}
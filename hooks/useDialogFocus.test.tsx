@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useDialogFocus } from './useDialogFocus';
+
+interface DrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const Drawer: React.FC<DrawerProps> = ({ isOpen, onClose }) => {
+  const dialogRef = useDialogFocus<HTMLDivElement>(isOpen, onClose);
+  return (
+    <div ref={dialogRef} role="dialog" aria-label="Drawer">
+      <button>First</button>
+      <button disabled>Disabled</button>
+      <input aria-label="Middle" />
+      <button>Last</button>
+    </div>
+  );
+};
+
+// The drawer next to the button that opens it, as in the app header
+const Page: React.FC<DrawerProps> = props => (
+  <>
+    <button>Open</button>
+    <Drawer {...props} />
+  </>
+);
+
+afterEach(cleanup);
+
+function renderPage(onClose = vi.fn()) {
+  const view = render(<Page isOpen={false} onClose={onClose} />);
+  const open = () => view.rerender(<Page isOpen onClose={onClose} />);
+  const close = () => view.rerender(<Page isOpen={false} onClose={onClose} />);
+  return { open, close, onClose };
+}
+
+const focused = () => document.activeElement;
+
+describe('useDialogFocus', () => {
+  it('moves focus into the drawer when it opens and back to the opener when it closes', () => {
+    const { open, close } = renderPage();
+    screen.getByText('Open').focus();
+
+    open();
+    expect(focused()).toBe(screen.getByText('First'));
+
+    close();
+    expect(focused()).toBe(screen.getByText('Open'));
+  });
+
+  it('keeps Tab inside the drawer, skipping disabled controls', () => {
+    const { open } = renderPage();
+    open();
+
+    screen.getByText('Last').focus();
+    fireEvent.keyDown(focused()!, { key: 'Tab' });
+    expect(focused()).toBe(screen.getByText('First'));
+
+    fireEvent.keyDown(focused()!, { key: 'Tab', shiftKey: true });
+    expect(focused()).toBe(screen.getByText('Last'));
+
+    // Tabbing in the middle is left to the browser
+    screen.getByLabelText('Middle').focus();
+    expect(fireEvent.keyDown(focused()!, { key: 'Tab' })).toBe(true);
+    expect(focused()).toBe(screen.getByLabelText('Middle'));
+  });
+
+  it('pulls focus that escaped the drawer back in', () => {
+    const { open } = renderPage();
+    open();
+
+    screen.getByText('Open').focus();
+    fireEvent.keyDown(focused()!, { key: 'Tab' });
+    expect(focused()).toBe(screen.getByText('First'));
+  });
+
+  it('closes on Escape, and only while open', () => {
+    const { open, close, onClose } = renderPage();
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(onClose).not.toHaveBeenCalled();
+
+    open();
+    fireEvent.keyDown(focused()!, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalledOnce();
+
+    close();
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+});
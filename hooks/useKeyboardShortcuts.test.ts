@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useKeyboardShortcuts } from './useKeyboardShortcuts';
+import { SHORTCUTS } from '../utils/shortcuts';
+
+afterEach(() => {
+  cleanup();
+  document.body.innerHTML = '';
+});
+
+const pressAltC = (target: Window | Element = window, init: KeyboardEventInit = {}) =>
+  fireEvent.keyDown(target, { code: 'KeyC', altKey: true, ...init });
+
+describe('useKeyboardShortcuts', () => {
+  it('runs the matching shortcut and keeps the key from the page', () => {
+    const connect = vi.fn();
+    const mute = vi.fn();
+    renderHook(() => useKeyboardShortcuts([
+      { ...SHORTCUTS.connect, handler: connect },
+      { ...SHORTCUTS.mute, handler: mute },
+    ]));
+
+    expect(pressAltC()).toBe(false);
+    expect(connect).toHaveBeenCalledOnce();
+    expect(mute).not.toHaveBeenCalled();
+  });
+
+  it('ignores other modifiers, a missing Alt and held-down repeats', () => {
+    const connect = vi.fn();
+    renderHook(() => useKeyboardShortcuts([{ ...SHORTCUTS.connect, handler: connect }]));
+
+    expect(pressAltC(window, { altKey: false })).toBe(true);
+    pressAltC(window, { ctrlKey: true });
+    pressAltC(window, { metaKey: true });
+    pressAltC(window, { shiftKey: true });
+    pressAltC(window, { repeat: true });
+    expect(connect).not.toHaveBeenCalled();
+  });
+
+  it('leaves keys alone while the user is typing into a field', () => {
+    const connect = vi.fn();
+    renderHook(() => useKeyboardShortcuts([{ ...SHORTCUTS.connect, handler: connect }]));
+
+    for (const tag of ['input', 'textarea', 'select']) {
+      const field = document.body.appendChild(document.createElement(tag));
+      expect(pressAltC(field)).toBe(true);
+    }
+    expect(connect).not.toHaveBeenCalled();
+
+    pressAltC(document.body.appendChild(document.createElement('button')));
+    expect(connect).toHaveBeenCalledOnce();
+  });
+
+  it('calls the latest handler after a re-render, and stops listening on unmount', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { rerender, unmount } = renderHook(
+      ({ handler }: { handler: () => void }) => useKeyboardShortcuts([{ ...SHORTCUTS.connect, handler }]),
+      { initialProps: { handler: first } },
+    );
+
+    rerender({ handler: second });
+    pressAltC();
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledOnce();
+
+    unmount();
+    pressAltC();
+    expect(second).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutKey, isTypingTarget } from '../utils/shortcuts';
+
+export interface KeyboardShortcut extends ShortcutKey {
+  handler: () => void;
+}
+
+/**
+ * Page-wide keyboard shortcuts. The list may change every render; the
+ * listener is attached once and always sees the latest handlers.
+ */
+export function useKeyboardShortcuts(shortcuts: KeyboardShortcut[]) {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.shiftKey || isTypingTarget(e.target)) return;
+      const shortcut = shortcutsRef.current.find(({ code, alt = false }) => code === e.code && alt === e.altKey);
+      if (!shortcut) return;
+      e.preventDefault();
+      shortcut.handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
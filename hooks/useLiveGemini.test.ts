@@ -0,0 +1,347 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { useLiveGemini, UseLiveGeminiOptions } from './useLiveGemini';
+import { createMockLiveServer, MockLiveServer } from '../server/mockLiveServer';
+import { MOCK_SCRIPTS } from '../server/mockScripts';
+import { LiveTransport } from '../transport/types';
+import { createWebSocketTransport, MockClientMessage } from '../transport/webSocketTransport';
+import { currentTimeTool } from '../tools/builtinTools';
+import { PCM_SAMPLE_RATE_OUTPUT } from '../utils/audio';
+import { HANDOFF_ANNOUNCEMENT, HandoffTarget } from '../utils/handoff';
+import { DEFAULT_PLAYBACK_OPTIONS } from '../utils/playbackEngine';
+import { DEFAULT_SETTINGS } from '../utils/settings';
+import {
+  FakeAudioContext,
+  FakeAudioWorkletNode,
+  FakeBufferSourceNode,
+  createFakeMediaDevices,
+  resetFakeAudio,
+} from '../test/fakeAudio';
+
+// End-to-end: the hook against the mock Live server, with the browser's audio and media APIs faked
+
+let server: MockLiveServer;
+let received: MockClientMessage[] = [];
+let sessions: OpenedSession[] = [];
+let mediaDevices: ReturnType<typeof createFakeMediaDevices>;
+
+const TOOLS = [currentTimeTool];
+const NO_GATE = { enabled: false, sensitivity: 0.5 };
+// Quick, but long enough that the reconnecting state can be observed
+const FAST_RECONNECT = { maxAttempts: 1, baseDelayMs: 300, maxDelayMs: 300 };
+const BILLING: HandoffTarget = {
+  name: 'Billing',
+  settings: { ...DEFAULT_SETTINGS, systemPrompt: 'You sort out invoices and refunds.' },
+  reason: 'Wants a refund',
+};
+
+interface OpenedSession {
+  script: string;
+  // Whether the hook closed it, and the close code once it has closed for any reason
+  hungUp: boolean;
+  closeCode: number | null;
+}
+
+beforeAll(async () => {
+  server = await createMockLiveServer({
+    scripts: MOCK_SCRIPTS,
+    defaultScript: 'reply',
+    onClientMessage: message => received.push(message),
+  });
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  received = [];
+  sessions = [];
+  resetFakeAudio();
+  mediaDevices = createFakeMediaDevices();
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+  vi.stubGlobal('WebSocket', WebSocket);
+  Object.defineProperty(navigator, 'mediaDevices', { value: mediaDevices, configurable: true });
+  // Dropped connections and failed handoffs are expected here, and reported on the console
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function renderCall(script: string | LiveTransport, options: UseLiveGeminiOptions = {}) {
+  const transport = typeof script === 'string' ? createWebSocketTransport(`${server.url}?script=${script}`) : script;
+  return renderHook(() => useLiveGemini({ transport, noiseGate: NO_GATE, ...options }));
+}
+
+// Runs each session the hook opens against the next script, and records in `sessions` how it ended.
+// `beforeConnect` can hold a session back, or fail it by rejecting
+function createScriptedTransport(scripts: string[], beforeConnect: (index: number) => Promise<void> = async () => {}): LiveTransport {
+  let count = 0;
+  return {
+    async connect({ callbacks, ...params }) {
+      const index = count++;
+      await beforeConnect(index);
+      const opened: OpenedSession = { script: scripts[index], hungUp: false, closeCode: null };
+      sessions[index] = opened;
+      const session = await createWebSocketTransport(`${server.url}?script=${opened.script}`).connect({
+        ...params,
+        callbacks: {
+          ...callbacks,
+          onclose: info => {
+            opened.closeCode = info.code;
+            callbacks.onclose(info);
+          },
+        },
+      });
+      return {
+        ...session,
+        close: () => {
+          opened.hungUp = true;
+          session.close();
+        },
+      };
+    },
+  };
+}
+
+const setups = () => received.flatMap(message => 'setup' in message ? [message.setup] : []);
+const outputContext = () => FakeAudioContext.instances.find(ctx => ctx.sampleRate === PCM_SAMPLE_RATE_OUTPUT)!;
+const inputContext = () => FakeAudioContext.instances.find(ctx => ctx.sampleRate !== PCM_SAMPLE_RATE_OUTPUT)!;
+// Chunks after the first repeat the tail they crossfade with, so count those seconds once
+const CROSSFADE_S = DEFAULT_PLAYBACK_OPTIONS.fadeMs / 1000;
+const scheduledSeconds = (sources: FakeBufferSourceNode[]) =>
+  sources.reduce((total, source, i) => total + source.buffer!.duration - (i > 0 ? CROSSFADE_S : 0), 0);
+
+// jsdom's Blob has no arrayBuffer(), but its FileReader can read one
+const readBlob = (blob: Blob) => new Promise<ArrayBuffer>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+// Starts the call and says something into the microphone once it is live
+async function connectAndSpeak(result: { current: ReturnType<typeof useLiveGemini> }) {
+  await act(() => result.current.connect());
+  await waitFor(() => expect(result.current.isConnected).toBe(true));
+  await waitFor(() => expect(FakeAudioWorkletNode.instances).toHaveLength(1));
+  await waitFor(() => expect(mediaDevices.streams).toHaveLength(1));
+  act(() => FakeAudioWorkletNode.instances[0].emitChunk(new Int16Array(1600).fill(2000)));
+}
+
+describe('useLiveGemini against the mock Live server', () => {
+  it('connects with the session config and schedules the reply gaplessly', async () => {
+    const { result } = renderCall('reply');
+    await connectAndSpeak(result);
+
+    const [setup] = setups();
+    expect(setup.model).toBe(DEFAULT_SETTINGS.model);
+    expect(setup.config).toMatchObject({
+      inputAudioTranscription: {},
+      contextWindowCompression: { slidingWindow: {} },
+      responseModalities: ['AUDIO'],
+    });
+    await waitFor(() => expect(received.some(message => 'realtimeInput' in message && message.realtimeInput.audio)).toBe(true));
+
+    // 2.5s of model audio streamed in 40ms chunks, then the turn completes
+    await waitFor(() => expect(result.current.transcript.at(-1)).toMatchObject({ speaker: 'model', endedAt: expect.any(Number) }), { timeout: 5000 });
+    expect(result.current.transcript.map(entry => [entry.speaker, entry.text])).toEqual([
+      ['user', 'Hello, can you hear me?'],
+      ['model', 'Loud and clear. This reply comes from the mock server.'],
+    ]);
+    expect(result.current.isSpeaking).toBe(true);
+
+    const { sources } = outputContext();
+    expect(scheduledSeconds(sources)).toBeCloseTo(2.5, 3);
+    // Nothing plays until the jitter buffer has filled, then chunks follow each other exactly
+    expect(sources[0].startTime).toBeGreaterThan(0);
+    sources.slice(1).forEach((source, i) => expect(source.startTime).toBeCloseTo(sources[i].endTime - CROSSFADE_S, 9));
+
+    // Once the audio has played out the model is no longer speaking
+    act(() => outputContext().advance(3));
+    await waitFor(() => expect(result.current.isSpeaking).toBe(false));
+  }, 10000);
+
+  it('runs the requested tool and answers once the result is back', async () => {
+    const { result } = renderCall('tool', { tools: TOOLS });
+    await connectAndSpeak(result);
+
+    await waitFor(() => expect(received.some(message => 'toolResponse' in message)).toBe(true), { timeout: 3000 });
+    const response = received.find((message): message is Extract<MockClientMessage, { toolResponse: unknown }> => 'toolResponse' in message)!;
+    expect(response.toolResponse.functionResponses).toEqual([
+      expect.objectContaining({ id: 'mock-call-1', name: 'get_current_time', response: { output: expect.objectContaining({ iso: expect.any(String) }) } }),
+    ]);
+    expect(result.current.toolActivity).toEqual([
+      expect.objectContaining({ id: 'mock-call-1', name: 'get_current_time', status: 'completed' }),
+    ]);
+
+    await waitFor(() => expect(result.current.transcript.at(-1)).toMatchObject({ speaker: 'model', text: 'I checked the clock for you.' }), { timeout: 3000 });
+    await waitFor(() => expect(scheduledSeconds(outputContext().sources)).toBeCloseTo(1.5, 3), { timeout: 3000 });
+  }, 10000);
+
+  it('retries a server error, then reports it and tears the call down', async () => {
+    const { result } = renderCall('error', { reconnect: FAST_RECONNECT });
+    await act(() => result.current.connect());
+
+    await waitFor(() => expect(result.current.isReconnecting).toBe(true), { timeout: 3000 });
+    await waitFor(() => expect(result.current.error).not.toBeNull(), { timeout: 3000 });
+    expect(result.current.error).toMatchObject({ category: 'server', code: 'server-error', reconnectAttempts: 1 });
+    expect(result.current.error!.message).toContain('Reconnecting failed after 1 attempts');
+    expect(setups()).toHaveLength(2);
+
+    expect(result.current.isConnected).toBe(false);
+    expect(result.current.isReconnecting).toBe(false);
+    FakeAudioContext.instances.forEach(ctx => expect(ctx.state).toBe('closed'));
+    mediaDevices.streams.flatMap(stream => stream.tracks).forEach(track => expect(track.readyState).toBe('ended'));
+  }, 10000);
+
+  it('resumes a dropped call with the last resumption handle', async () => {
+    const { result } = renderCall('drop', { reconnect: FAST_RECONNECT });
+    await act(() => result.current.connect());
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+
+    // The first session is dropped mid-reply without a close frame
+    await waitFor(() => expect(result.current.isReconnecting).toBe(true), { timeout: 3000 });
+    expect(result.current.reconnectAttempt).toBe(1);
+    await waitFor(() => expect(setups()).toHaveLength(2), { timeout: 3000 });
+    expect(setups()[1].config).toMatchObject({ sessionResumption: { handle: 'mock-handle-1' } });
+    expect(setups()[0].config).toMatchObject({ sessionResumption: {} });
+    // The microphone stays open across the reconnect
+    expect(mediaDevices.streams).toHaveLength(1);
+
+    // The resumed session drops too, and one attempt is all it gets
+    await waitFor(() => expect(result.current.error).toMatchObject({ code: 'connection-lost' }), { timeout: 5000 });
+    expect(result.current.isConnected).toBe(false);
+  }, 15000);
+
+  it('hands the call over to a new session that knows what was said, then hangs up the old one', async () => {
+    const { result } = renderCall(createScriptedTransport(['reply', 'reply']));
+    await connectAndSpeak(result);
+    await waitFor(() => expect(result.current.transcript[0]).toMatchObject({ speaker: 'user' }), { timeout: 3000 });
+    expect(result.current.activeAgent).toBe('Assistant');
+
+    let started = false;
+    act(() => {
+      started = result.current.handoff(BILLING);
+    });
+    expect(started).toBe(true);
+
+    await waitFor(() => expect(result.current.activeAgent).toBe('Billing'), { timeout: 3000 });
+    expect(result.current.isHandingOff).toBe(false);
+    expect(result.current.isConnected).toBe(true);
+
+    const instructions = (setups()[1].config as { systemInstruction: { parts: { text: string }[] } }).systemInstruction.parts.map(part => part.text);
+    expect(instructions[0]).toBe(BILLING.settings.systemPrompt);
+    const context = instructions.at(-1)!;
+    expect(context).toContain('You are Billing, taking over a live voice call from Assistant.');
+    expect(context).toContain('Reason for the transfer: Wants a refund');
+    expect(context).toContain('User: Hello, can you hear me?');
+    // The new agent is prompted to introduce itself
+    await waitFor(() => expect(received).toContainEqual({
+      clientContent: { turns: [{ role: 'user', parts: [{ text: HANDOFF_ANNOUNCEMENT }] }], turnComplete: true },
+    }));
+
+    await waitFor(() => expect(sessions[0]).toMatchObject({ hungUp: true, closeCode: 1000 }));
+    expect(sessions[1]).toMatchObject({ hungUp: false, closeCode: null });
+    expect(result.current.error).toBeNull();
+  }, 10000);
+
+  it('stays with the previous agent when the new session cannot connect', async () => {
+    const transport = createScriptedTransport(['reply', 'reply'], async index => {
+      if (index === 1) throw new Error('WebSocket connection failed');
+    });
+    const { result } = renderCall(transport);
+    await connectAndSpeak(result);
+
+    act(() => {
+      result.current.handoff(BILLING);
+    });
+    await waitFor(() => expect(result.current.error).toMatchObject({ code: 'connection-failed', handoffTarget: 'Billing' }));
+    expect(result.current.error!.message).toContain('Could not hand over to Billing.');
+    expect(result.current.isHandingOff).toBe(false);
+    expect(result.current.isConnected).toBe(true);
+    expect(result.current.activeAgent).toBe('Assistant');
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].hungUp).toBe(false);
+
+    // The microphone goes back to the previous session
+    const sent = received.filter(message => 'realtimeInput' in message).length;
+    act(() => FakeAudioWorkletNode.instances[0].emitChunk(new Int16Array(1600).fill(2000)));
+    await waitFor(() => expect(received.filter(message => 'realtimeInput' in message).length).toBeGreaterThan(sent));
+  }, 10000);
+
+  it('carries on with the new agent when the previous session drops mid-handoff', async () => {
+    // The new session only connects once the previous one has dropped
+    const transport = createScriptedTransport(['drop', 'reply'], async index => {
+      if (index === 1) await vi.waitFor(() => expect(sessions[0].closeCode).not.toBeNull(), { timeout: 5000 });
+    });
+    const { result } = renderCall(transport, { reconnect: FAST_RECONNECT });
+    await act(() => result.current.connect());
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+
+    act(() => {
+      result.current.handoff(BILLING);
+    });
+    await waitFor(() => expect(result.current.activeAgent).toBe('Billing'), { timeout: 5000 });
+    expect(sessions[0].closeCode).toBe(1006);
+    // The drop is not reconnected, since the caller was moving to the new session anyway
+    expect(result.current.reconnectAttempt).toBe(0);
+    expect(result.current.isReconnecting).toBe(false);
+    expect(result.current.isConnected).toBe(true);
+    expect(result.current.error).toBeNull();
+    expect(setups()).toHaveLength(2);
+    expect(setups()[1].config).toMatchObject({ sessionResumption: {} });
+  }, 10000);
+
+  it('leaves what is said while muted out of the recording', async () => {
+    const { result } = renderCall('reply', { recordSession: true });
+    await connectAndSpeak(result);
+
+    act(() => result.current.setMuted(true));
+    act(() => FakeAudioWorkletNode.instances[0].emitChunk(new Int16Array(1600).fill(8000)));
+    act(() => result.current.disconnect());
+
+    const view = new DataView(await readBlob(result.current.exportRecording()!.wav));
+    let loudest = 0;
+    // The microphone is the left channel of the stereo export
+    for (let offset = 44; offset < view.byteLength; offset += 4) {
+      loudest = Math.max(loudest, Math.abs(view.getInt16(offset, true)));
+    }
+    expect(loudest).toBeGreaterThan(1500);
+    expect(loudest).toBeLessThan(4000);
+  }, 10000);
+
+  it('releases audio, microphone and session on disconnect', async () => {
+    const { result } = renderCall('reply');
+    await connectAndSpeak(result);
+    await waitFor(() => expect(outputContext().sources.length).toBeGreaterThan(0), { timeout: 3000 });
+
+    const capture = FakeAudioWorkletNode.instances[0];
+    const playing = [...outputContext().sources];
+    act(() => result.current.disconnect());
+
+    expect(result.current.isConnected).toBe(false);
+    expect(inputContext().state).toBe('closed');
+    expect(outputContext().state).toBe('closed');
+    expect(mediaDevices.streams[0].tracks[0].readyState).toBe('ended');
+    expect(capture.port.onmessage).toBeNull();
+    expect(capture.connections.size).toBe(0);
+    // Scheduled audio is faded out and stopped rather than left to play
+    playing.forEach(source => {
+      expect(source.stopTime).not.toBeNull();
+      expect(source.gainNode!.gain.valueAt(source.stopTime!)).toBe(0);
+    });
+
+    // Later microphone audio goes nowhere
+    const sent = received.length;
+    capture.emitChunk(new Int16Array(1600).fill(2000));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(received.length).toBe(sent);
+  }, 10000);
+});
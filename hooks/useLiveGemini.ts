@@ -1,63 +1,360 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { 
-  PCM_SAMPLE_RATE_INPUT, 
-  PCM_SAMPLE_RATE_OUTPUT, 
-  createPcmBlob, 
-  decodeBase64, 
-  decodeAudioData 
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Blob, FunctionCall, LiveServerMessage, Modality } from '@google/genai';
+import {
+  PCM_SAMPLE_RATE_INPUT,
+  PCM_SAMPLE_RATE_OUTPUT,
+  DEFAULT_CAPTURE_CHUNK_MS,
+  createPcmBlobFromInt16,
+  decodeBase64,
+  pcm16ToFloat32
 } from '../utils/audio';
+import { PlaybackEngine } from '../utils/playbackEngine';
+import { EMPTY_METRICS, SessionMetricsTracker, base64ByteLength } from '../utils/metrics';
+import { createPcmCaptureNode, flushPcmCapture } from '../utils/pcmCapture';
+import { addTextTurn, appendTranscript, closeTranscriptTurn } from '../utils/transcript';
+import { DEFAULT_RECONNECT_OPTIONS, ReconnectOptions, getReconnectDelay } from '../utils/reconnect';
+import { LiveTool, ToolCancelledError, ToolRegistry } from '../tools/registry';
+import {
+  DEFAULT_BARGE_IN_SETTINGS,
+  DEFAULT_INTERPRETER_SETTINGS,
+  DEFAULT_NOISE_GATE,
+  DEFAULT_PLAYBACK_RATE,
+  DEFAULT_RESPONSE_MODE,
+  DEFAULT_SETTINGS,
+  DEFAULT_VIDEO_SETTINGS,
+  supportsTextResponses,
+  validateInterpreterSettings,
+  validateSettings,
+} from '../utils/settings';
+import { buildInterpreterInstruction, buildLanguageInstruction } from '../utils/language';
+import { LOCKED_SESSION_CONFIG } from '../utils/liveConfig';
+import { VadGate } from '../utils/vad';
+import { BargeInController } from '../utils/bargeIn';
+import { ConversationRecorder, RecordingExport, RecordingMixMode } from '../utils/recorder';
+import { DEFAULT_AUDIO_DEVICES, getAudioConstraints, setOutputDevice } from '../utils/devices';
+import { createGeminiTransport } from '../transport/geminiTransport';
+import { LiveActivitySignal, LiveTransport, LiveTransportSession } from '../transport/types';
+import { VideoFrameCapture, openVideoStream } from '../utils/videoCapture';
+import { LiveError, createConfigurationError, fromCloseInfo, fromConnectError, fromMediaError } from '../utils/errors';
+import { HANDOFF_ANNOUNCEMENT, HandoffTarget, buildHandoffContext } from '../utils/handoff';
+import {
+  AudioDeviceSettings,
+  BargeInSettings,
+  InputMode,
+  InterpreterSettings,
+  LiveSettings,
+  NoiseGateSettings,
+  ResponseMode,
+  SessionMetrics,
+  ToolActivity,
+  TranscriptEntry,
+  VideoSettings,
+  VideoSource,
+} from '../types';
+
+export interface UseLiveGeminiOptions {
+  // Replaces the Gemini connection, e.g. with a mock server; keep it stable between renders
+  transport?: LiveTransport;
+  // Token broker URL; each session is opened with a fresh ephemeral token from it
+  tokenEndpoint?: string;
+  // Direct API key, only for trusted environments since it is exposed to the page
+  apiKey?: string;
+  // Duration of each microphone chunk sent to the session, in milliseconds
+  captureChunkMs?: number;
+  reconnect?: Partial<ReconnectOptions>;
+  // Local functions the model may call; keep the array stable between renders
+  tools?: LiveTool[];
+  // Applied on the next connect; a live call keeps the settings it started with
+  settings?: LiveSettings;
+  // Name of the persona the settings belong to, reported as the active agent
+  agentName?: string;
+  // Also applied on connect, since push-to-talk changes the session's activity detection
+  inputMode?: InputMode;
+  // Whether the model replies with speech (plus transcription) or text; applied on connect
+  responseMode?: ResponseMode;
+  // Translate between two languages instead of following the persona; applied on connect
+  interpreter?: InterpreterSettings;
+  // Can be changed mid-call
+  noiseGate?: NoiseGateSettings;
+  // Whether and how the user can talk over the model; can be changed mid-call
+  bargeIn?: BargeInSettings;
+  // Speed of the model's speech, from 0.5 to 2; can be changed mid-call
+  playbackRate?: number;
+  // Keep both sides of the call and a session log for export; takes effect on connect
+  recordSession?: boolean;
+  // Switching devices mid-call swaps the audio routing without touching the session
+  devices?: AudioDeviceSettings;
+  // Frame rate and size for camera/screen sharing; can be changed mid-call
+  video?: VideoSettings;
+}
+
+/**
+ * A handoff in progress: the new session is connecting while the previous one
+ * keeps playing, and everything needed to fall back to it if the new one fails.
+ */
+interface PendingHandoff {
+  target: HandoffTarget;
+  toGeneration: number;
+  fromGeneration: number;
+  fromSession: Promise<LiveTransportSession> | null;
+  fromSettings: LiveSettings;
+  fromContext: string | null;
+  fromAgent: string;
+  // The previous session dropped while the new one was connecting, so there is nothing to fall back to
+  fromLost: boolean;
+}
+
+export interface ConnectOptions {
+  // Extra background for the system instruction, e.g. a summary of an earlier conversation
+  context?: string;
+}
+
+const NO_TOOLS: LiveTool[] = [];
+
+// How often the metrics snapshot is refreshed during a call
+const METRICS_REFRESH_MS = 1000;
 
 interface UseLiveGeminiReturn {
   isConnected: boolean;
   isConnecting: boolean;
+  isReconnecting: boolean;
+  reconnectAttempt: number;
   isSpeaking: boolean;
-  error: string | null;
-  connect: () => Promise<void>;
+  isUserSpeaking: boolean;
+  error: LiveError | null;
+  clearError: () => void;
+  transcript: TranscriptEntry[];
+  clearTranscript: () => void;
+  // Sends a typed user turn; false when there is no session to send it on
+  sendText: (text: string) => boolean;
+  responseMode: ResponseMode;
+  // The interpreter languages of the current call, null when it is a regular conversation
+  interpreter: InterpreterSettings | null;
+  toolActivity: ToolActivity[];
+  isRecording: boolean;
+  hasRecording: boolean;
+  exportRecording: (mode?: RecordingMixMode) => RecordingExport | null;
+  // Refreshed about once a second during a call, and kept after it ends
+  metrics: SessionMetrics;
+  exportMetrics: () => SessionMetrics | null;
+  inputMode: InputMode;
+  isMuted: boolean;
+  setMuted: (muted: boolean) => void;
+  isTalking: boolean;
+  startTalking: () => void;
+  stopTalking: () => void;
+  videoSource: VideoSource | null;
+  // The stream being shared, for previewing it
+  videoStream: MediaStream | null;
+  isVideoPaused: boolean;
+  startVideo: (source: VideoSource) => Promise<void>;
+  stopVideo: () => void;
+  setVideoPaused: (paused: boolean) => void;
+  connect: (options?: ConnectOptions) => Promise<void>;
+  // Persona the current call is talking to
+  activeAgent: string | null;
+  isHandingOff: boolean;
+  // Moves the call to another persona without hanging up; false when no handoff can start now
+  handoff: (target: HandoffTarget) => boolean;
   disconnect: () => void;
   outputAnalyser: AnalyserNode | null;
   inputAnalyser: AnalyserNode | null;
 }
 
-export function useLiveGemini(): UseLiveGeminiReturn {
+export function useLiveGemini(options: UseLiveGeminiOptions = {}): UseLiveGeminiReturn {
+  const {
+    transport: customTransport,
+    tokenEndpoint,
+    apiKey,
+    captureChunkMs = DEFAULT_CAPTURE_CHUNK_MS,
+    tools = NO_TOOLS,
+    settings = DEFAULT_SETTINGS,
+    agentName = 'Assistant',
+    inputMode = 'open',
+    responseMode = DEFAULT_RESPONSE_MODE,
+    interpreter = DEFAULT_INTERPRETER_SETTINGS,
+    noiseGate = DEFAULT_NOISE_GATE,
+    bargeIn = DEFAULT_BARGE_IN_SETTINGS,
+    playbackRate = DEFAULT_PLAYBACK_RATE,
+    recordSession = false,
+    devices = DEFAULT_AUDIO_DEVICES,
+    video = DEFAULT_VIDEO_SETTINGS,
+  } = options;
+  const {
+    maxAttempts = DEFAULT_RECONNECT_OPTIONS.maxAttempts,
+    baseDelayMs = DEFAULT_RECONNECT_OPTIONS.baseDelayMs,
+    maxDelayMs = DEFAULT_RECONNECT_OPTIONS.maxDelayMs,
+    maxBufferedInputMs = DEFAULT_RECONNECT_OPTIONS.maxBufferedInputMs,
+    stableAfterMs = DEFAULT_RECONNECT_OPTIONS.stableAfterMs,
+  } = options.reconnect ?? {};
+
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [isSpeaking, setIsSpeaking] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  const [error, setError] = useState<LiveError | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  // Read when handing over, which happens outside of render
+  const transcriptRef = useRef(transcript);
+  transcriptRef.current = transcript;
+  const [toolActivity, setToolActivity] = useState<ToolActivity[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [hasRecording, setHasRecording] = useState(false);
+  const [sessionInputMode, setSessionInputMode] = useState<InputMode>(inputMode);
+  const [sessionResponseMode, setSessionResponseMode] = useState<ResponseMode>(responseMode);
+  const [sessionInterpreter, setSessionInterpreter] = useState<InterpreterSettings | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const [metrics, setMetrics] = useState<SessionMetrics>(EMPTY_METRICS);
+  const [videoSource, setVideoSource] = useState<VideoSource | null>(null);
+  const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
+  const [isVideoPaused, setIsVideoPaused] = useState(false);
+  const [activeAgent, setActiveAgent] = useState<string | null>(null);
+  const [isHandingOff, setIsHandingOff] = useState(false);
 
   // Audio Contexts and Nodes
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
   const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  
+
   // Analysers for visualization
   const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
   const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const inputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
 
   // Playback State
-  const nextStartTimeRef = useRef<number>(0);
-  const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  
+  const playbackRef = useRef<PlaybackEngine | null>(null);
+
   // Session Management
-  const sessionResolveRef = useRef<((value: any) => void) | null>(null);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionResolveRef = useRef<((session: LiveTransportSession) => void) | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveTransportSession> | null>(null);
+  // Changed for every session opened (and on cleanup) so callbacks from stale sessions are ignored
+  const generationRef = useRef(0);
+  // Source of new generations, so falling back to an earlier session never reuses one
+  const generationCounterRef = useRef(0);
+  // Settings the current call was started with, reused when reconnecting
+  const sessionSettingsRef = useRef<LiveSettings>(settings);
+  const sessionContextRef = useRef<string | null>(null);
+  const agentNameRef = useRef(agentName);
+  const handoffRef = useRef<PendingHandoff | null>(null);
+
+  // Reconnection State
+  const hasOpenedRef = useRef(false);
+  const isReconnectingRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const stableTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const resumeHandleRef = useRef<string | null>(null);
+  const pendingInputRef = useRef<Blob[]>([]);
+
+  // Input Gating
+  const inputModeRef = useRef<InputMode>(inputMode);
+  const interpreterRef = useRef<InterpreterSettings>(interpreter);
+  const responseModeRef = useRef<ResponseMode>(responseMode);
+  const isMutedRef = useRef(false);
+  const isTalkingRef = useRef(false);
+  // Set between releasing push-to-talk and the last chunk being flushed
+  const isReleasingRef = useRef(false);
+
+  // Voice Activity Detection
+  const vadGateRef = useRef<VadGate | null>(null);
+  const isUserSpeakingRef = useRef(false);
+  const noiseGateRef = useRef(noiseGate);
+  noiseGateRef.current = noiseGate;
+
+  // Barge-in: keeps the model's voice coming back through the speakers from interrupting it
+  const bargeInRef = useRef<BargeInController | null>(null);
+  const bargeInSettingsRef = useRef(bargeIn);
+  bargeInSettingsRef.current = bargeIn;
+
+  const playbackRateRef = useRef(playbackRate);
+  playbackRateRef.current = playbackRate;
+
+  // Devices
+  const deviceSettingsRef = useRef(devices);
+  deviceSettingsRef.current = devices;
+
+  // Video
+  const videoCaptureRef = useRef<VideoFrameCapture | null>(null);
+  // Bumped whenever video is started or stopped so a slow permission prompt can't revive it
+  const videoRequestRef = useRef(0);
+  const videoSettingsRef = useRef(video);
+  videoSettingsRef.current = video;
+
+  // Metrics of the current (or last) call
+  const metricsRef = useRef<SessionMetricsTracker | null>(null);
+
+  // Recording of the current (or last) call
+  const recorderRef = useRef<ConversationRecorder | null>(null);
+
+  // Tools
+  const transport = useMemo(
+    () => customTransport ?? createGeminiTransport({ tokenEndpoint, apiKey }),
+    [customTransport, tokenEndpoint, apiKey]
+  );
+
+  const toolRegistry = useMemo(() => new ToolRegistry(tools), [tools]);
+  const toolRegistryRef = useRef(toolRegistry);
+  toolRegistryRef.current = toolRegistry;
+
+  const reportError = useCallback((liveError: LiveError) => {
+    setError(liveError);
+    recorderRef.current?.log('error', `${liveError.code}: ${liveError.message}`);
+  }, []);
+
+  const clearError = useCallback(() => setError(null), []);
 
   const cleanup = useCallback(() => {
-    console.log('Cleaning up Gemini Live session...');
-    
-    // Stop all active audio sources
-    activeSourcesRef.current.forEach(source => {
-      try { source.stop(); } catch (e) { /* ignore */ }
-    });
-    activeSourcesRef.current.clear();
+    generationRef.current = ++generationCounterRef.current;
+
+    // A handoff in progress leaves the previous session open too
+    handoffRef.current?.fromSession?.then(session => session.close()).catch(() => {});
+    handoffRef.current = null;
+
+    // Finish the recording but keep it around for export
+    if (recorderRef.current?.isRecording) {
+      recorderRef.current.log('disconnected');
+      recorderRef.current.stop();
+    }
 
-    // Disconnect and stop script processor
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect();
-      scriptProcessorRef.current.onaudioprocess = null;
-      scriptProcessorRef.current = null;
+    // Cancel any pending reconnect
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    if (stableTimerRef.current) {
+      clearTimeout(stableTimerRef.current);
+      stableTimerRef.current = null;
+    }
+
+    // Take a final metrics snapshot while the playback stats are still around
+    if (metricsRef.current) {
+      setMetrics(metricsRef.current.snapshot(playbackRef.current?.getStats()));
+    }
+
+    // Stop all queued and playing audio
+    playbackRef.current?.dispose();
+    playbackRef.current = null;
+    bargeInRef.current = null;
+
+    // Abandon any tool calls still running
+    toolRegistryRef.current.cancelAll();
+
+    // Stop sharing video
+    videoRequestRef.current++;
+    videoCaptureRef.current?.stop();
+    videoCaptureRef.current = null;
+
+    // Disconnect and stop capture worklet
+    if (captureNodeRef.current) {
+      captureNodeRef.current.disconnect();
+      captureNodeRef.current.port.onmessage = null;
+      captureNodeRef.current = null;
     }
 
     // Disconnect input source
@@ -83,30 +380,720 @@ export function useLiveGemini(): UseLiveGeminiReturn {
     }
 
     // Reset Refs
-    nextStartTimeRef.current = 0;
     sessionPromiseRef.current = null;
     sessionResolveRef.current = null;
-    
+    inputAnalyserRef.current = null;
+    outputAnalyserRef.current = null;
+    hasOpenedRef.current = false;
+    isReconnectingRef.current = false;
+    reconnectAttemptRef.current = 0;
+    resumeHandleRef.current = null;
+    pendingInputRef.current = [];
+    isMutedRef.current = false;
+    isTalkingRef.current = false;
+    isReleasingRef.current = false;
+    vadGateRef.current = null;
+    isUserSpeakingRef.current = false;
+
     // Reset State
     setIsConnected(false);
     setIsConnecting(false);
+    setIsReconnecting(false);
+    setReconnectAttempt(0);
     setIsSpeaking(false);
+    setIsUserSpeaking(false);
+    setIsMuted(false);
+    setIsTalking(false);
+    setIsRecording(false);
+    setVideoSource(null);
+    setVideoStream(null);
+    setIsVideoPaused(false);
+    setIsHandingOff(false);
+    setActiveAgent(null);
     setInputAnalyser(null);
     setOutputAnalyser(null);
+
+    // Close any turns left open, but keep the transcript for review after the call
+    setTranscript(prev => {
+      const now = Date.now();
+      return closeTranscriptTurn(closeTranscriptTurn(prev, 'user', now), 'model', now);
+    });
+  }, []);
+
+  const withSession = useCallback((action: (session: LiveTransportSession) => void) => {
+    // Send to session using the promise to ensure session is ready
+    sessionPromiseRef.current?.then(session => {
+      try {
+        action(session);
+      } catch (e) {
+        console.error("Error sending to session", e);
+      }
+    });
+  }, []);
+
+  const sendActivity = useCallback((signal: LiveActivitySignal) => {
+    withSession(session => session.sendActivity(signal));
+  }, [withSession]);
+
+  // Whether the current input mode lets microphone audio through
+  const isInputOpen = useCallback(() => (
+    inputModeRef.current === 'push-to-talk'
+      ? isTalkingRef.current || isReleasingRef.current
+      : !isMutedRef.current
+  ), []);
+
+  const sendAudio = useCallback((pcmBlob: Blob) => {
+    if (!isInputOpen()) return;
+
+    // While the connection is down or moving to another agent, hold on to the most recent
+    // audio and replay it once the session is ready
+    if (isReconnectingRef.current || handoffRef.current) {
+      const maxChunks = Math.max(1, Math.ceil(maxBufferedInputMs / captureChunkMs));
+      pendingInputRef.current.push(pcmBlob);
+      if (pendingInputRef.current.length > maxChunks) {
+        pendingInputRef.current.splice(0, pendingInputRef.current.length - maxChunks);
+      }
+      return;
+    }
+
+    metricsRef.current?.addBytesSent(base64ByteLength(pcmBlob.data ?? ''));
+    withSession(session => session.sendAudio(pcmBlob));
+  }, [captureChunkMs, maxBufferedInputMs, withSession, isInputOpen]);
+
+  const handleCapturedChunk = useCallback((pcm: Int16Array, sampleRate: number) => {
+    const gate = vadGateRef.current;
+    if (!gate) return;
+
+    // Record what the input mode lets through, gated or not, and silence while it is closed
+    // so the microphone track stays in step with the model's
+    recorderRef.current?.addInput(isInputOpen() ? pcm : new Int16Array(pcm.length));
+
+    const { send, isSpeaking: speaking, speechEnded } = gate.push(pcm);
+    if (speaking !== isUserSpeakingRef.current) {
+      isUserSpeakingRef.current = speaking;
+      setIsUserSpeaking(speaking);
+    }
+
+    // Push-to-talk already decides what is sent
+    if (inputModeRef.current === 'push-to-talk') {
+      sendAudio(createPcmBlobFromInt16(pcm, sampleRate));
+      return;
+    }
+
+    // A disabled gate lets everything through, but the model's own voice is still kept out below
+    const chunks = noiseGateRef.current.enabled ? send : [pcm];
+    const bargeIn = bargeInRef.current;
+    // Pre-roll chunks were captured before this one, and only this one is known to be speech
+    let capturedAt = performance.now() - (chunks.reduce((total, chunk) => total + chunk.length, 0) * 1000) / sampleRate;
+    chunks.forEach(chunk => {
+      capturedAt += (chunk.length * 1000) / sampleRate;
+      if (!bargeIn) {
+        sendAudio(createPcmBlobFromInt16(chunk, sampleRate));
+        return;
+      }
+      const result = bargeIn.process(chunk, speaking && chunk === pcm, capturedAt);
+      if (result.bargedIn) {
+        recorderRef.current?.log('barge_in');
+      }
+      result.send.forEach(allowed => sendAudio(createPcmBlobFromInt16(allowed, sampleRate)));
+    });
+
+    // Nothing is uploaded during silence, so tell the server the stream paused rather than
+    // leaving its activity detection waiting for audio that never comes
+    if (noiseGateRef.current.enabled && speechEnded && !isMutedRef.current && !isReconnectingRef.current) {
+      metricsRef.current?.markSpeechEnd('vad');
+      sendActivity('audioStreamEnd');
+    }
+  }, [sendAudio, sendActivity, isInputOpen]);
+
+  const sendText = useCallback((text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || !sessionPromiseRef.current) return false;
+
+    withSession(session => session.sendText(trimmed));
+    metricsRef.current?.addBytesSent(new TextEncoder().encode(trimmed).length);
+    metricsRef.current?.markSpeechEnd('text');
+    recorderRef.current?.log('text_input', trimmed);
+    setTranscript(prev => addTextTurn(prev, 'user', trimmed));
+    return true;
+  }, [withSession]);
+
+  const stopVideo = useCallback(() => {
+    videoRequestRef.current++;
+    videoCaptureRef.current?.stop();
+    videoCaptureRef.current = null;
+    setVideoSource(null);
+    setVideoStream(null);
+    setIsVideoPaused(false);
+  }, []);
+
+  const startVideo = useCallback(async (source: VideoSource) => {
+    // Video rides on the call, so there must be one to send it on
+    if (!outputAudioContextRef.current) return;
+    stopVideo();
+    const request = videoRequestRef.current;
+
+    let stream: MediaStream;
+    try {
+      stream = await openVideoStream(source, videoSettingsRef.current);
+    } catch (err: any) {
+      // Declining the prompt or cancelling the screen picker is not an error
+      if (err?.name !== 'NotAllowedError') {
+        console.error('Could not start video', err);
+        reportError(fromMediaError(err, source));
+      }
+      return;
+    }
+
+    if (request !== videoRequestRef.current || !outputAudioContextRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    // Ending the share from the browser's own controls stops the track
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (request === videoRequestRef.current) stopVideo();
+    });
+
+    videoCaptureRef.current = new VideoFrameCapture(
+      stream,
+      frame => {
+        metricsRef.current?.addBytesSent(base64ByteLength(frame.data ?? ''));
+        withSession(session => session.sendVideo(frame));
+      },
+      videoSettingsRef.current
+    );
+    setVideoSource(source);
+    setVideoStream(stream);
+    setIsVideoPaused(false);
+  }, [stopVideo, reportError, withSession]);
+
+  const setVideoPaused = useCallback((paused: boolean) => {
+    if (!videoCaptureRef.current) return;
+    videoCaptureRef.current.setPaused(paused);
+    setIsVideoPaused(paused);
+  }, []);
+
+  const setMuted = useCallback((muted: boolean) => {
+    if (isMutedRef.current === muted) return;
+    isMutedRef.current = muted;
+    setIsMuted(muted);
+
+    // Let the server's activity detection close out the current utterance right away
+    if (muted && inputModeRef.current === 'open' && !isReconnectingRef.current) {
+      sendActivity('audioStreamEnd');
+    }
+  }, [sendActivity]);
+
+  const startTalking = useCallback(() => {
+    if (inputModeRef.current !== 'push-to-talk' || isTalkingRef.current || isReleasingRef.current || !captureNodeRef.current) return;
+    isTalkingRef.current = true;
+    setIsTalking(true);
+    sendActivity('activityStart');
+  }, [sendActivity]);
+
+  const stopTalking = useCallback(async () => {
+    const captureNode = captureNodeRef.current;
+    if (inputModeRef.current !== 'push-to-talk' || !isTalkingRef.current || !captureNode) return;
+    isTalkingRef.current = false;
+    isReleasingRef.current = true;
+    setIsTalking(false);
+
+    // Deliver the partially filled chunk before closing the activity so the tail isn't clipped
+    await flushPcmCapture(captureNode);
+    isReleasingRef.current = false;
+    metricsRef.current?.markSpeechEnd('push-to-talk');
+    sendActivity('activityEnd');
+  }, [sendActivity]);
+
+  // Opens the selected microphone and routes it into the analyser and capture worklet,
+  // replacing any previous stream without touching the session
+  const connectMicrophone = useCallback(async (useDefaultDevice = false): Promise<void> => {
+    const inputCtx = inputAudioContextRef.current;
+    const inAnalyser = inputAnalyserRef.current;
+    if (!inputCtx || !inAnalyser) return;
+
+    const settings = useDefaultDevice
+      ? { ...deviceSettingsRef.current, inputDeviceId: '' }
+      : deviceSettingsRef.current;
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: getAudioConstraints(settings) });
+    } catch (err: any) {
+      // The remembered device may be gone; settle for the default rather than failing the call
+      if (settings.inputDeviceId && (err?.name === 'OverconstrainedError' || err?.name === 'NotFoundError')) {
+        console.warn('Selected microphone unavailable, using default');
+        return connectMicrophone(true);
+      }
+      throw err;
+    }
+
+    // The call may have ended while waiting for permission
+    if (inputAudioContextRef.current !== inputCtx) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const previousStream = streamRef.current;
+    const previousSource = inputSourceRef.current;
+
+    const source = inputCtx.createMediaStreamSource(stream);
+    source.connect(inAnalyser);
+    if (captureNodeRef.current) {
+      source.connect(captureNodeRef.current);
+    }
+    streamRef.current = stream;
+    inputSourceRef.current = source;
+
+    previousSource?.disconnect();
+    previousStream?.getTracks().forEach(track => track.stop());
+
+    // Unplugging a headset ends its track; carry on with the default microphone
+    stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+      if (streamRef.current !== stream) return;
+      connectMicrophone(true).catch(err => {
+        console.error('Microphone error:', err);
+        reportError({
+          category: 'device',
+          code: 'microphone-disconnected',
+          message: 'The microphone was disconnected and no other microphone could be opened.',
+          retryable: true,
+          cause: err,
+        });
+      });
+    });
+  }, [reportError]);
+
+  const startMicrophone = useCallback(async () => {
+    const inputCtx = inputAudioContextRef.current;
+    if (!inputCtx) return;
+
+    try {
+      vadGateRef.current = new VadGate({
+        sampleRate: PCM_SAMPLE_RATE_INPUT,
+        sensitivity: noiseGateRef.current.sensitivity,
+      });
+
+      // Capture and convert in an AudioWorklet so input stays smooth during re-renders
+      const captureNode = await createPcmCaptureNode(inputCtx, handleCapturedChunk, {
+        chunkDurationMs: captureChunkMs,
+        targetSampleRate: PCM_SAMPLE_RATE_INPUT,
+      });
+      captureNodeRef.current = captureNode;
+      captureNode.connect(inputCtx.destination);
+
+      await connectMicrophone();
+    } catch (err) {
+      console.error('Microphone error:', err);
+      reportError(fromMediaError(err, 'microphone'));
+      cleanup();
+    }
+  }, [captureChunkMs, handleCapturedChunk, connectMicrophone, reportError, cleanup]);
+
+  const updateToolActivity = useCallback((id: string, patch: Partial<ToolActivity>) => {
+    setToolActivity(prev => prev.map(activity => activity.id === id ? { ...activity, ...patch } : activity));
   }, []);
 
-  const connect = useCallback(async () => {
-    if (isConnected || isConnecting) return;
-    
+  const runToolCall = useCallback(async (call: FunctionCall) => {
+    const id = call.id ?? `${call.name}-${Date.now()}`;
+    recorderRef.current?.log('tool_call', `${call.name} ${JSON.stringify(call.args ?? {})}`);
+    setToolActivity(prev => [...prev, {
+      id,
+      name: call.name ?? 'unknown',
+      args: call.args ?? {},
+      status: 'running',
+      startedAt: Date.now(),
+      endedAt: null,
+    }]);
+
+    try {
+      const response = await toolRegistryRef.current.execute({ ...call, id });
+      const failure = response.response?.error;
+      updateToolActivity(id, failure
+        ? { status: 'failed', error: String(failure), endedAt: Date.now() }
+        : { status: 'completed', result: response.response?.output, endedAt: Date.now() });
+
+      withSession(session => session.sendToolResponse([response]));
+    } catch (err) {
+      if (err instanceof ToolCancelledError) {
+        updateToolActivity(id, { status: 'cancelled', endedAt: Date.now() });
+      } else {
+        console.error("Tool call failed", err);
+      }
+    }
+  }, [updateToolActivity, withSession]);
+
+  const handleMessage = useCallback(async (message: LiveServerMessage) => {
+    const outputCtx = outputAudioContextRef.current;
+    const playback = playbackRef.current;
+    if (!outputCtx || !playback) return;
+
+    // Remember the latest resumption handle so a dropped connection can pick up where it left off
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      resumeHandleRef.current = resumption.newHandle;
+    }
+
+    // Handle Tool Calls; a session being handed over could not receive the results
+    if (!handoffRef.current) {
+      message.toolCall?.functionCalls?.forEach(call => {
+        runToolCall(call);
+      });
+    }
+
+    const cancelledIds = message.toolCallCancellation?.ids;
+    if (cancelledIds?.length) {
+      toolRegistryRef.current.cancel(cancelledIds);
+    }
+
+    const metricsTracker = metricsRef.current;
+    if (message.usageMetadata) {
+      metricsTracker?.addUsage(message.usageMetadata);
+    }
+
+    // Handle Transcriptions
+    const inputText = message.serverContent?.inputTranscription?.text;
+    if (inputText) {
+      metricsTracker?.addBytesReceived(inputText.length);
+      metricsTracker?.markSpeechEnd('transcription');
+      setTranscript(prev => appendTranscript(prev, 'user', inputText));
+    }
+
+    const outputText = message.serverContent?.outputTranscription?.text;
+    if (outputText) {
+      metricsTracker?.addBytesReceived(outputText.length);
+      // The model answering means the user's turn is over
+      setTranscript(prev => appendTranscript(closeTranscriptTurn(prev, 'user'), 'model', outputText));
+    }
+
+    // Text replies stream straight into the transcript
+    const parts = message.serverContent?.modelTurn?.parts ?? [];
+    if (responseModeRef.current === 'text') {
+      const replyText = parts.filter(part => part.text && !part.thought).map(part => part.text).join('');
+      if (replyText) {
+        metricsTracker?.addBytesReceived(replyText.length);
+        metricsTracker?.markModelOutput();
+        setTranscript(prev => appendTranscript(closeTranscriptTurn(prev, 'user'), 'model', replyText, Date.now(), 'text'));
+      }
+    }
+
+    // Handle Audio Output
+    const base64Audio = parts.find(part => part.inlineData?.data)?.inlineData?.data;
+
+    if (base64Audio) {
+      metricsTracker?.addBytesReceived(base64ByteLength(base64Audio));
+      metricsTracker?.markModelOutput();
+      try {
+        if (outputCtx.state === 'suspended') {
+          await outputCtx.resume();
+        }
+
+        // The engine may hold the chunk back briefly to absorb network jitter
+        playback.enqueue(pcm16ToFloat32(decodeBase64(base64Audio)));
+      } catch (decodeErr) {
+        console.error("Audio Decode Error", decodeErr);
+      }
+    }
+
+    // Handle Interruption
+    if (message.serverContent?.interrupted) {
+      recorderRef.current?.truncateOutput();
+      recorderRef.current?.log('interrupted');
+      metricsTracker?.countInterruption();
+      playback.flush();
+      bargeInRef.current?.stopReference(performance.now());
+      setIsSpeaking(false);
+      setTranscript(prev => closeTranscriptTurn(prev, 'model', Date.now(), true));
+    }
+
+    // Handle Turn Completion
+    if (message.serverContent?.turnComplete) {
+      playback.endOfStream();
+      metricsTracker?.countTurn();
+      recorderRef.current?.log('turn_complete');
+      setTranscript(prev => {
+        const now = Date.now();
+        return closeTranscriptTurn(closeTranscriptTurn(prev, 'user', now), 'model', now);
+      });
+    }
+  }, [runToolCall]);
+
+  const openSession = useCallback((resumeHandle: string | null) => {
+    const generation = ++generationCounterRef.current;
+    generationRef.current = generation;
+    // The session being handed over from stays live until the new one is ready
+    const isStale = () => generation !== generationRef.current && generation !== handoffRef.current?.fromGeneration;
+    let lost = false;
+
+    const completeHandoff = (handoff: PendingHandoff, session: LiveTransportSession) => {
+      handoffRef.current = null;
+      handoff.fromSession?.then(previous => previous.close()).catch(() => {});
+      // Whatever the previous agent had left to say goes with it
+      playbackRef.current?.flush();
+      bargeInRef.current?.stopReference(performance.now());
+      setIsSpeaking(false);
+      setTranscript(prev => closeTranscriptTurn(prev, 'model', Date.now(), true));
+      // The previous session's handle would resume the old conversation, not this one
+      resumeHandleRef.current = null;
+      agentNameRef.current = handoff.target.name;
+      setActiveAgent(handoff.target.name);
+      setIsHandingOff(false);
+      recorderRef.current?.log('handoff', `${handoff.fromAgent} -> ${handoff.target.name}`);
+      session.sendText(HANDOFF_ANNOUNCEMENT);
+    };
+
+    const abortHandoff = (handoff: PendingHandoff, liveError: LiveError) => {
+      handoffRef.current = null;
+      setIsHandingOff(false);
+      const failed = {
+        ...liveError,
+        message: `Could not hand over to ${handoff.target.name}. ${liveError.message}`,
+        handoffTarget: handoff.target.name,
+      };
+      if (handoff.fromLost || !handoff.fromSession) {
+        reportError(failed);
+        cleanup();
+        return;
+      }
+
+      console.warn(`Handoff to ${handoff.target.name} failed, staying with ${handoff.fromAgent}`);
+      generationRef.current = handoff.fromGeneration;
+      sessionPromiseRef.current = handoff.fromSession;
+      sessionResolveRef.current = null;
+      sessionSettingsRef.current = handoff.fromSettings;
+      sessionContextRef.current = handoff.fromContext;
+      reportError(failed);
+
+      const pending = pendingInputRef.current;
+      pendingInputRef.current = [];
+      pending.forEach(sendAudio);
+    };
+
+    // Called once per session for whichever of onclose/onerror/rejection reports the drop first
+    const handleConnectionLost = (liveError: LiveError) => {
+      if (lost || isStale()) return;
+      lost = true;
+      if (stableTimerRef.current) {
+        clearTimeout(stableTimerRef.current);
+        stableTimerRef.current = null;
+      }
+
+      const handoff = handoffRef.current;
+      if (handoff?.fromGeneration === generation) {
+        // The caller is on their way to the new agent anyway
+        handoff.fromLost = true;
+        return;
+      }
+      if (handoff?.toGeneration === generation) {
+        abortHandoff(handoff, liveError);
+        return;
+      }
+
+      // A session that never opened is a failed connect, not a drop
+      if (!hasOpenedRef.current) {
+        reportError(liveError);
+        cleanup();
+        return;
+      }
+
+      // Reconnecting cannot fix a rejected key or an exhausted quota
+      if (!liveError.retryable) {
+        reportError(liveError);
+        cleanup();
+        return;
+      }
+
+      const attempt = reconnectAttemptRef.current + 1;
+      if (attempt > maxAttempts) {
+        console.error(`Giving up after ${maxAttempts} reconnect attempts`);
+        reportError({
+          ...liveError,
+          message: `${liveError.message} Reconnecting failed after ${maxAttempts} attempts.`,
+          reconnectAttempts: maxAttempts,
+        });
+        cleanup();
+        return;
+      }
+
+      reconnectAttemptRef.current = attempt;
+      isReconnectingRef.current = true;
+      sessionPromiseRef.current = null;
+      sessionResolveRef.current = null;
+      setIsConnected(false);
+      setIsReconnecting(true);
+      setReconnectAttempt(attempt);
+      metricsRef.current?.countReconnect();
+      recorderRef.current?.log('reconnecting', `attempt ${attempt}: ${liveError.code}`);
+
+      const delay = getReconnectDelay(attempt, { maxAttempts, baseDelayMs, maxDelayMs, maxBufferedInputMs, stableAfterMs });
+      reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        if (!isStale()) {
+          openSession(resumeHandleRef.current);
+        }
+      }, delay);
+    };
+
+    const sessionSettings = sessionSettingsRef.current;
+
+    // Create a promise wrapper to allow the audio processor to wait for the session
+    let sessionResolver: (session: LiveTransportSession) => void;
+    const p = new Promise<LiveTransportSession>((resolve) => {
+      sessionResolver = resolve;
+    });
+    sessionResolveRef.current = sessionResolver!;
+    sessionPromiseRef.current = p;
+
+    const isTextReply = responseModeRef.current === 'text';
+    const isInterpreting = interpreterRef.current.enabled;
+    const instructions = isInterpreting
+      ? [buildInterpreterInstruction(interpreterRef.current)]
+      : [sessionSettings.systemPrompt, buildLanguageInstruction(sessionSettings.language)];
+    if (sessionContextRef.current) instructions.push(sessionContextRef.current);
+    const sessionPromise = transport.connect({
+      model: sessionSettings.model,
+      config: {
+        // The token broker locks these, so they have to match
+        ...LOCKED_SESSION_CONFIG,
+        responseModalities: [isTextReply ? Modality.TEXT : Modality.AUDIO],
+        temperature: sessionSettings.temperature,
+        outputAudioTranscription: isTextReply ? undefined : {},
+        // Resumption handles let a dropped call continue with its context intact
+        sessionResumption: resumeHandle ? { handle: resumeHandle } : {},
+        // Push-to-talk marks turns explicitly with activityStart/activityEnd
+        realtimeInputConfig: inputModeRef.current === 'push-to-talk'
+          ? { automaticActivityDetection: { disabled: true } }
+          : undefined,
+        // An interpreter only relays what is said, so it gets no tools
+        tools: toolRegistryRef.current.size && !isInterpreting
+          ? [{ functionDeclarations: toolRegistryRef.current.toFunctionDeclarations() }]
+          : undefined,
+        systemInstruction: {
+          parts: instructions.filter((text): text is string => !!text).map(text => ({ text }))
+        },
+        speechConfig: isTextReply ? undefined : {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: sessionSettings.voice } },
+          // Speaking two languages rules out pinning one
+          languageCode: (!isInterpreting && sessionSettings.language) || undefined
+        }
+      },
+      callbacks: {
+        onopen: () => {
+          if (isStale()) return;
+          hasOpenedRef.current = true;
+          recorderRef.current?.log('connected', resumeHandle ? 'resumed' : undefined);
+          setIsConnected(true);
+          setIsConnecting(false);
+
+          // Start Audio Stream after connection is confirmed; it stays open across reconnects
+          if (!streamRef.current) {
+            startMicrophone();
+          }
+        },
+        onmessage: (message: LiveServerMessage) => {
+          if (isStale()) return;
+          handleMessage(message);
+        },
+        onclose: ({ code, reason }) => {
+          handleConnectionLost(fromCloseInfo({ code, reason }));
+        },
+        onerror: (err) => {
+          console.error("Gemini Connection Error", err);
+          handleConnectionLost({
+            category: 'network',
+            code: 'connection-lost',
+            message: 'The connection failed.',
+            retryable: true,
+            cause: err,
+          });
+        }
+      }
+    });
+
+    // Handle connection promise resolution/rejection
+    sessionPromise
+      .then(session => {
+        if (isStale()) {
+          session.close();
+          return;
+        }
+        if (sessionResolveRef.current) {
+           sessionResolveRef.current(session);
+        }
+
+        const handoff = handoffRef.current;
+        if (handoff?.toGeneration === generation) {
+          completeHandoff(handoff, session);
+        }
+
+        if (isReconnectingRef.current) {
+          isReconnectingRef.current = false;
+          setIsReconnecting(false);
+          setReconnectAttempt(0);
+          // A server that accepts the connection and drops it straight away
+          // should still run out of attempts, so only count it as recovered later
+          stableTimerRef.current = setTimeout(() => {
+            stableTimerRef.current = null;
+            reconnectAttemptRef.current = 0;
+          }, stableAfterMs);
+        }
+
+        // Replay audio captured while the connection was down
+        const pending = pendingInputRef.current;
+        pendingInputRef.current = [];
+        pending.forEach(sendAudio);
+      })
+      .catch(err => {
+        console.error("Session connection failed", err);
+        handleConnectionLost(fromConnectError(err));
+      });
+
+    return generation;
+  }, [maxAttempts, baseDelayMs, maxDelayMs, maxBufferedInputMs, stableAfterMs, transport, reportError, cleanup, startMicrophone, handleMessage, sendAudio]);
+
+  const connect = useCallback(async ({ context }: ConnectOptions = {}) => {
+    if (isConnected || isConnecting || isReconnecting) return;
+
+    const settingsErrors = [...validateSettings(settings), ...validateInterpreterSettings(interpreter)];
+    if (settingsErrors.length > 0) {
+      reportError(createConfigurationError('invalid-settings', settingsErrors.join(' ')));
+      return;
+    }
+    if (responseMode === 'text' && !supportsTextResponses(settings.model)) {
+      reportError(createConfigurationError(
+        'unsupported-response-mode',
+        "This model can only reply with voice. Pick another model or switch replies to voice."
+      ));
+      return;
+    }
+    sessionSettingsRef.current = settings;
+    sessionContextRef.current = context || null;
+    agentNameRef.current = agentName;
+    setActiveAgent(agentName);
+    inputModeRef.current = inputMode;
+    setSessionInputMode(inputMode);
+    interpreterRef.current = interpreter;
+    setSessionInterpreter(interpreter.enabled ? interpreter : null);
+    responseModeRef.current = responseMode;
+    setSessionResponseMode(responseMode);
+
     try {
       setIsConnecting(true);
       setError(null);
+      setTranscript([]);
+      setToolActivity([]);
+
+      metricsRef.current = new SessionMetricsTracker(settings.model);
+      setMetrics(metricsRef.current.snapshot());
+      recorderRef.current = recordSession ? new ConversationRecorder() : null;
+      recorderRef.current?.log('connecting', sessionSettingsRef.current.model);
+      setIsRecording(recordSession);
+      setHasRecording(recordSession);
 
       // 1. Initialize Audio Contexts
-      // We use a lower buffer size (2048) for lower latency (~128ms at 16kHz)
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: PCM_SAMPLE_RATE_INPUT,
-      });
+      // The input context runs at the hardware rate; the capture worklet resamples to 16kHz
+      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
       const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({
         sampleRate: PCM_SAMPLE_RATE_OUTPUT,
       });
@@ -114,194 +1101,176 @@ export function useLiveGemini(): UseLiveGeminiReturn {
       inputAudioContextRef.current = inputCtx;
       outputAudioContextRef.current = outputCtx;
 
+      if (deviceSettingsRef.current.outputDeviceId) {
+        setOutputDevice(outputCtx, deviceSettingsRef.current.outputDeviceId).catch(err => {
+          console.warn('Could not select output device', err);
+        });
+      }
+
       // Setup Analysers
       const inAnalyser = inputCtx.createAnalyser();
       inAnalyser.fftSize = 256;
       inAnalyser.smoothingTimeConstant = 0.5;
+      inputAnalyserRef.current = inAnalyser;
       setInputAnalyser(inAnalyser);
 
       const outAnalyser = outputCtx.createAnalyser();
       outAnalyser.fftSize = 256;
       outAnalyser.smoothingTimeConstant = 0.5;
+      outputAnalyserRef.current = outAnalyser;
       setOutputAnalyser(outAnalyser);
+      outAnalyser.connect(outputCtx.destination);
 
-      // 2. Initialize Gemini API Client
-      // Create a new instance for each connection to ensure fresh state
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // Create a promise wrapper to allow the audio processor to wait for the session
-      let sessionResolver: (value: any) => void;
-      const p = new Promise<any>((resolve) => {
-        sessionResolver = resolve;
-      });
-      sessionResolveRef.current = sessionResolver!;
-      sessionPromiseRef.current = p;
-
-      // 3. Connect to Live API
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: {
-            parts: [{ text: "You are a helpful, witty, and concise AI assistant. Keep responses relatively short to facilitate a natural conversation flow." }]
-          },
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-          }
-        },
-        callbacks: {
-          onopen: async () => {
-            console.log('Gemini Live Connection Opened');
-            setIsConnected(true);
-            setIsConnecting(false);
-
-            // Start Audio Stream after connection is confirmed
-            try {
-              const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-              streamRef.current = stream;
-              
-              const source = inputCtx.createMediaStreamSource(stream);
-              inputSourceRef.current = source;
-              source.connect(inAnalyser);
-
-              // Setup Processor with 2048 buffer size for better latency
-              const processor = inputCtx.createScriptProcessor(2048, 1, 1);
-              scriptProcessorRef.current = processor;
-
-              processor.onaudioprocess = (e) => {
-                const inputData = e.inputBuffer.getChannelData(0);
-                const pcmBlob = createPcmBlob(inputData);
-                
-                // Send to session using the promise to ensure session is ready
-                if (sessionPromiseRef.current) {
-                  sessionPromiseRef.current.then(session => {
-                    try {
-                      session.sendRealtimeInput({ media: pcmBlob });
-                    } catch (e) {
-                      console.error("Error sending input", e);
-                    }
-                  });
-                }
-              };
-
-              source.connect(processor);
-              processor.connect(inputCtx.destination);
-            } catch (err) {
-              console.error('Microphone error:', err);
-              setError("Microphone access failed.");
-              cleanup();
-            }
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle Audio Output
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            
-            if (base64Audio) {
-              try {
-                if (outputCtx.state === 'suspended') {
-                  await outputCtx.resume();
-                }
-
-                // Ensure strict sync
-                nextStartTimeRef.current = Math.max(
-                  nextStartTimeRef.current,
-                  outputCtx.currentTime
-                );
-
-                const audioBuffer = await decodeAudioData(
-                  decodeBase64(base64Audio),
-                  outputCtx,
-                  PCM_SAMPLE_RATE_OUTPUT,
-                  1
-                );
-
-                const source = outputCtx.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(outAnalyser);
-                outAnalyser.connect(outputCtx.destination);
-                
-                source.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += audioBuffer.duration;
-                
-                activeSourcesRef.current.add(source);
-                setIsSpeaking(true);
-
-                source.onended = () => {
-                  activeSourcesRef.current.delete(source);
-                  // Add a small delay to prevent flickering if a new chunk arrives immediately
-                  setTimeout(() => {
-                    if (activeSourcesRef.current.size === 0) {
-                      setIsSpeaking(false);
-                    }
-                  }, 200);
-                };
-              } catch (decodeErr) {
-                console.error("Audio Decode Error", decodeErr);
-              }
-            }
+      const bargeInController = new BargeInController(bargeInSettingsRef.current, { sampleRate: PCM_SAMPLE_RATE_INPUT });
+      bargeInRef.current = bargeInController;
 
-            // Handle Interruption
-            if (message.serverContent?.interrupted) {
-              console.log('Model interrupted');
-              activeSourcesRef.current.forEach(src => {
-                try { src.stop(); } catch(e) {/* ignore */}
-              });
-              activeSourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
+      playbackRef.current = new PlaybackEngine(outputCtx, outAnalyser, { playbackRate: playbackRateRef.current }, {
+        onPlayingChange: playing => {
+          if (playing) {
+            setIsSpeaking(true);
+            return;
+          }
+          // Add a small delay to prevent flickering if a new chunk arrives immediately
+          setTimeout(() => {
+            if (playbackRef.current && !playbackRef.current.isPlaying) {
               setIsSpeaking(false);
             }
-          },
-          onclose: () => {
-            console.log("Gemini Connection Closed");
-            cleanup();
-          },
-          onerror: (err) => {
-            console.error("Gemini Connection Error", err);
-            setError("Connection error.");
-            cleanup();
-          }
-        }
+          }, 200);
+        },
+        onUnderrun: gapMs => console.warn(`Playback underrun, ${Math.round(gapMs)}ms gap`),
+        onChunkScheduled: (samples, startTime, playbackRate) => {
+          const delayMs = (startTime - outputCtx.currentTime) * 1000;
+          recorderRef.current?.addOutput(samples, Date.now() + delayMs, playbackRate);
+          // The controller compares against when the chunk actually leaves the speakers
+          const rate = PCM_SAMPLE_RATE_OUTPUT * playbackRate;
+          bargeInController.addReference(samples, rate, performance.now() + delayMs + (outputCtx.outputLatency || 0) * 1000);
+        },
       });
 
-      // Handle connection promise resolution/rejection
-      sessionPromise
-        .then(session => {
-          if (sessionResolveRef.current) {
-             sessionResolveRef.current(session);
-          }
-        })
-        .catch(err => {
-          console.error("Session connection failed", err);
-          setError(err.message || "Connection failed");
-          cleanup();
-        });
+      // 2. Connect to Live API
+      openSession(null);
 
-    } catch (err: any) {
+    } catch (err) {
       console.error(err);
-      setError(err.message || "Failed to connect");
+      reportError(fromConnectError(err));
       setIsConnecting(false);
       cleanup();
     }
-  }, [isConnected, isConnecting, cleanup]);
+  }, [isConnected, isConnecting, isReconnecting, settings, agentName, inputMode, responseMode, interpreter, recordSession, reportError, cleanup, openSession]);
+
+  const handoff = useCallback((target: HandoffTarget) => {
+    if (!isConnected || isReconnectingRef.current || handoffRef.current) return false;
+    if (target.name === agentNameRef.current) return false;
+
+    const settingsErrors = validateSettings(target.settings);
+    if (settingsErrors.length > 0) {
+      reportError(createConfigurationError('invalid-settings', `${target.name}: ${settingsErrors.join(' ')}`));
+      return false;
+    }
+    if (responseModeRef.current === 'text' && !supportsTextResponses(target.settings.model)) {
+      reportError(createConfigurationError(
+        'unsupported-response-mode',
+        `${target.name} uses a model that can only reply with voice.`
+      ));
+      return false;
+    }
+
+    const fromAgent = agentNameRef.current;
+    const pending: PendingHandoff = {
+      target,
+      toGeneration: -1,
+      fromGeneration: generationRef.current,
+      fromSession: sessionPromiseRef.current,
+      fromSettings: sessionSettingsRef.current,
+      fromContext: sessionContextRef.current,
+      fromAgent,
+      fromLost: false,
+    };
+    // Tool calls in flight belong to the agent being replaced
+    toolRegistryRef.current.cancelAll();
+
+    sessionSettingsRef.current = target.settings;
+    sessionContextRef.current = buildHandoffContext(fromAgent, target, transcriptRef.current);
+    handoffRef.current = pending;
+    setIsHandingOff(true);
+    // The previous session keeps talking until the new one is ready, then audio switches over at once
+    pending.toGeneration = openSession(null);
+    return true;
+  }, [isConnected, reportError, openSession]);
 
   const disconnect = useCallback(() => {
     // Attempt to close the session gracefully
     sessionPromiseRef.current?.then(session => {
-       if(session) {
-         try {
-           // Not all SDK versions expose explicit close, but we try
-           // @ts-ignore
-           session.close?.(); 
-         } catch(e) {
-           console.warn("Could not close session explicitly", e);
-         }
-       }
+      try {
+        session.close();
+      } catch (e) {
+        console.warn("Could not close session explicitly", e);
+      }
     }).catch(() => {});
-    
+
     // Force local cleanup
     cleanup();
   }, [cleanup]);
 
+  useEffect(() => {
+    vadGateRef.current?.detector.setSensitivity(noiseGate.sensitivity);
+  }, [noiseGate.sensitivity]);
+
+  useEffect(() => {
+    bargeInRef.current?.setSettings(bargeIn);
+  }, [bargeIn]);
+
+  useEffect(() => {
+    playbackRef.current?.setPlaybackRate(playbackRate);
+  }, [playbackRate]);
+
+  // Hot-swap the microphone when the device or its processing options change mid-call
+  useEffect(() => {
+    if (!streamRef.current) return;
+    connectMicrophone().catch(err => {
+      console.error('Microphone switch failed:', err);
+      reportError(fromMediaError(err, 'microphone'));
+    });
+  }, [devices.inputDeviceId, devices.echoCancellation, devices.noiseSuppression, devices.autoGainControl, connectMicrophone, reportError]);
+
+  useEffect(() => {
+    videoCaptureRef.current?.setSettings(video);
+  }, [video]);
+
+  useEffect(() => {
+    const outputCtx = outputAudioContextRef.current;
+    if (!outputCtx) return;
+    setOutputDevice(outputCtx, devices.outputDeviceId).catch(err => {
+      console.warn('Could not switch output device', err);
+    });
+  }, [devices.outputDeviceId]);
+
+  const exportRecording = useCallback((mode: RecordingMixMode = 'stereo') => {
+    return recorderRef.current?.export(transcript, mode) ?? null;
+  }, [transcript]);
+
+  const exportMetrics = useCallback(() => {
+    const tracker = metricsRef.current;
+    if (!tracker) return null;
+    // Mid-call the live playback stats are current; afterwards the last snapshot has them
+    return playbackRef.current ? tracker.snapshot(playbackRef.current.getStats()) : metrics;
+  }, [metrics]);
+
+  // Poll rather than re-render on every chunk
+  useEffect(() => {
+    if (!isConnected && !isReconnecting) return;
+    const timer = setInterval(() => {
+      if (metricsRef.current) {
+        setMetrics(metricsRef.current.snapshot(playbackRef.current?.getStats()));
+      }
+    }, METRICS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isConnected, isReconnecting]);
+
+  const clearTranscript = useCallback(() => {
+    setTranscript([]);
+  }, []);
+
   useEffect(() => {
     return () => {
       cleanup();
@@ -311,11 +1280,41 @@ export function useLiveGemini(): UseLiveGeminiReturn {
   return {
     isConnected,
     isConnecting,
+    isReconnecting,
+    reconnectAttempt,
     isSpeaking,
+    isUserSpeaking,
     error,
+    clearError,
+    transcript,
+    clearTranscript,
+    toolActivity,
+    isRecording,
+    hasRecording,
+    exportRecording,
+    metrics,
+    exportMetrics,
+    sendText,
+    responseMode: sessionResponseMode,
+    interpreter: sessionInterpreter,
+    inputMode: sessionInputMode,
+    isMuted,
+    setMuted,
+    isTalking,
+    startTalking,
+    stopTalking,
+    videoSource,
+    videoStream,
+    isVideoPaused,
+    startVideo,
+    stopVideo,
+    setVideoPaused,
     connect,
     disconnect,
+    activeAgent,
+    isHandingOff,
+    handoff,
     inputAnalyser,
     outputAnalyser
   };
-}
\ No newline at end of file
+}
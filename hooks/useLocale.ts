@@ -0,0 +1,28 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Locale, TextDirection, Translate, getTextDirection, loadLocale, saveLocale, translate } from '../i18n';
+
+interface UseLocaleReturn {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  dir: TextDirection;
+  t: Translate;
+}
+
+/**
+ * The interface language, remembered between visits. The document's `lang`
+ * and `dir` follow it so right-to-left locales lay out and read correctly.
+ */
+export function useLocale(): UseLocaleReturn {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const dir = getTextDirection(locale);
+
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const t = useCallback<Translate>((key, params) => translate(locale, key, params), [locale]);
+
+  return { locale, setLocale, dir, t };
+}
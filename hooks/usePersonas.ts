@@ -0,0 +1,61 @@
+import { useState, useCallback, useEffect } from 'react';
+import { LiveSettings, Persona } from '../types';
+import { loadActivePersonaId, loadPersonas, saveActivePersonaId, savePersonas } from '../utils/settings';
+
+interface UsePersonasReturn {
+  personas: Persona[];
+  activePersona: Persona;
+  selectPersona: (id: string) => void;
+  updatePersona: (id: string, patch: Partial<Omit<Persona, 'id'>>) => void;
+  createPersona: (name: string, settings: LiveSettings) => string;
+  deletePersona: (id: string) => void;
+}
+
+/**
+ * Named persona presets, persisted to localStorage along with the current selection.
+ */
+export function usePersonas(): UsePersonasReturn {
+  const [personas, setPersonas] = useState<Persona[]>(loadPersonas);
+  const [activeId, setActiveId] = useState<string>(() => loadActivePersonaId() ?? '');
+
+  useEffect(() => {
+    savePersonas(personas);
+  }, [personas]);
+
+  const activePersona = personas.find(persona => persona.id === activeId) ?? personas[0];
+
+  useEffect(() => {
+    saveActivePersonaId(activePersona.id);
+  }, [activePersona.id]);
+
+  const selectPersona = useCallback((id: string) => {
+    setActiveId(id);
+  }, []);
+
+  const updatePersona = useCallback((id: string, patch: Partial<Omit<Persona, 'id'>>) => {
+    setPersonas(prev => prev.map(persona => persona.id === id ? { ...persona, ...patch } : persona));
+  }, []);
+
+  const createPersona = useCallback((name: string, settings: LiveSettings) => {
+    const id = `persona-${Date.now().toString(36)}`;
+    setPersonas(prev => [...prev, { id, name, settings }]);
+    setActiveId(id);
+    return id;
+  }, []);
+
+  const deletePersona = useCallback((id: string) => {
+    setPersonas(prev => {
+      const next = prev.filter(persona => persona.id !== id || persona.builtIn);
+      return next.length > 0 ? next : prev;
+    });
+  }, []);
+
+  return {
+    personas,
+    activePersona,
+    selectPersona,
+    updatePersona,
+    createPersona,
+    deletePersona,
+  };
+}
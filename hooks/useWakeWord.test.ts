@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useWakeWord } from './useWakeWord';
+import { PCM_SAMPLE_RATE_INPUT } from '../utils/audio';
+import { DEFAULT_AUDIO_DEVICES } from '../utils/devices';
+import { createKeywordTemplate } from '../utils/keywordSpotter';
+import { FakeAudioContext, FakeAudioWorkletNode, createFakeMediaDevices, resetFakeAudio } from '../test/fakeAudio';
+import { WakeWordSettings } from '../types';
+
+const RATE = PCM_SAMPLE_RATE_INPUT;
+const IDLE_MS = 200;
+
+// A voiced "phrase" between stretches of silence
+function phrase(): Int16Array {
+  const out = new Int16Array(RATE * 2);
+  const start = RATE / 2;
+  for (let i = 0; i < (RATE * 6) / 10; i++) {
+    let value = 0;
+    for (let harmonic = 1; harmonic <= 8; harmonic++) {
+      value += Math.sin((2 * Math.PI * (150 + i / 200) * harmonic * i) / RATE) / harmonic;
+    }
+    out[start + i] = Math.round(value * 5000);
+  }
+  return out;
+}
+
+// Split into 100ms microphone chunks
+function chunks(pcm: Int16Array): Int16Array[] {
+  const out: Int16Array[] = [];
+  for (let offset = 0; offset < pcm.length; offset += RATE / 10) out.push(pcm.slice(offset, offset + RATE / 10));
+  return out;
+}
+
+const SETTINGS: WakeWordSettings = { enabled: true, phrase: 'Hey there', sensitivity: 0.5, idleTimeoutSec: IDLE_MS / 1000 };
+const TEMPLATES = [createKeywordTemplate(phrase(), RATE)!];
+
+interface Props {
+  isInCall: boolean;
+  isActive?: boolean;
+  activity?: unknown;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let onWake: ReturnType<typeof vi.fn>;
+let onIdle: ReturnType<typeof vi.fn>;
+
+function renderWakeWord(initialProps: Props) {
+  return renderHook(({ isInCall, isActive = false, activity }: Props) => useWakeWord({
+    settings: SETTINGS,
+    templates: TEMPLATES,
+    devices: DEFAULT_AUDIO_DEVICES,
+    isInCall,
+    isActive,
+    activity,
+    onWake,
+    onIdle,
+  }), { initialProps });
+}
+
+beforeEach(() => {
+  resetFakeAudio();
+  onWake = vi.fn();
+  onIdle = vi.fn();
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+  Object.defineProperty(navigator, 'mediaDevices', { value: createFakeMediaDevices(), configurable: true });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+async function wake(rerender: (props: Props) => void, result: { current: ReturnType<typeof useWakeWord> }) {
+  await waitFor(() => expect(result.current.isStandby).toBe(true));
+  act(() => chunks(phrase()).forEach(chunk => FakeAudioWorkletNode.instances[0].emitChunk(chunk)));
+  expect(onWake).toHaveBeenCalledOnce();
+  rerender({ isInCall: true });
+}
+
+describe('useWakeWord', () => {
+  it('wakes on the enrolled phrase and hangs up once the call goes quiet', async () => {
+    const { result, rerender } = renderWakeWord({ isInCall: false });
+    await wake(rerender, result);
+    expect(result.current.isStandby).toBe(false);
+
+    await waitFor(() => expect(onIdle).toHaveBeenCalledOnce());
+  });
+
+  it('holds off while either side is speaking', async () => {
+    const { result, rerender } = renderWakeWord({ isInCall: false });
+    await wake(rerender, result);
+    rerender({ isInCall: true, isActive: true });
+    await act(() => sleep(IDLE_MS * 2));
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+
+  it('starts the wait over whenever something is typed or a text reply arrives', async () => {
+    const { result, rerender } = renderWakeWord({ isInCall: false });
+    await wake(rerender, result);
+
+    for (let turn = 1; turn <= 4; turn++) {
+      await act(() => sleep(IDLE_MS / 2));
+      rerender({ isInCall: true, activity: turn });
+    }
+    expect(onIdle).not.toHaveBeenCalled();
+    await waitFor(() => expect(onIdle).toHaveBeenCalledOnce());
+  });
+
+  it('never hangs up a call started by hand', async () => {
+    const { result, rerender } = renderWakeWord({ isInCall: false });
+    await wake(rerender, result);
+    await waitFor(() => expect(onIdle).toHaveBeenCalledOnce());
+
+    // The woken call ends, and the next one is started from the button
+    rerender({ isInCall: false });
+    await waitFor(() => expect(result.current.isStandby).toBe(true));
+    rerender({ isInCall: true });
+    await act(() => sleep(IDLE_MS * 2));
+    expect(onIdle).toHaveBeenCalledOnce();
+  });
+
+  it('listens again when the wake does not start a call', async () => {
+    const { result } = renderWakeWord({ isInCall: false });
+    await waitFor(() => expect(result.current.isStandby).toBe(true));
+    act(() => chunks(phrase()).forEach(chunk => FakeAudioWorkletNode.instances[0].emitChunk(chunk)));
+    expect(onWake).toHaveBeenCalledOnce();
+
+    // connect() refused, so no call follows and the next phrase has to wake it again
+    await act(() => sleep(1100));
+    expect(result.current.isStandby).toBe(true);
+    act(() => chunks(phrase()).forEach(chunk => FakeAudioWorkletNode.instances[0].emitChunk(chunk)));
+    expect(onWake).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not hang up a later call started by hand after a wake that went nowhere', async () => {
+    const { result, rerender } = renderWakeWord({ isInCall: false });
+    await waitFor(() => expect(result.current.isStandby).toBe(true));
+    act(() => chunks(phrase()).forEach(chunk => FakeAudioWorkletNode.instances[0].emitChunk(chunk)));
+    await act(() => sleep(1100));
+
+    rerender({ isInCall: true });
+    await act(() => sleep(IDLE_MS * 2));
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+});
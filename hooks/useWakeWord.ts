@@ -0,0 +1,205 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { PCM_SAMPLE_RATE_INPUT } from '../utils/audio';
+import { createPcmCaptureNode } from '../utils/pcmCapture';
+import { getAudioConstraints } from '../utils/devices';
+import { KeywordSpotter, KeywordTemplate, createKeywordTemplate } from '../utils/keywordSpotter';
+import { LiveError, fromMediaError } from '../utils/errors';
+import { AudioDeviceSettings, WakeWordSettings } from '../types';
+
+interface UseWakeWordOptions {
+  settings: WakeWordSettings;
+  templates: KeywordTemplate[];
+  devices: AudioDeviceSettings;
+  // Standby only listens between calls, including while one is connecting
+  isInCall: boolean;
+  // True while either side is speaking, which holds off the idle hang-up
+  isActive: boolean;
+  // Changes whenever anything is said or typed (e.g. the transcript), restarting the idle timer
+  activity?: unknown;
+  onWake: () => void;
+  onIdle: () => void;
+}
+
+interface UseWakeWordReturn {
+  isStandby: boolean;
+  isEnrolling: boolean;
+  // Records one sample of the wake phrase; resolves null when no speech was heard
+  enroll: () => Promise<KeywordTemplate | null>;
+  error: LiveError | null;
+  clearError: () => void;
+}
+
+// Long enough to say a short phrase after pressing the button
+const ENROLL_RECORDING_MS = 2500;
+const CAPTURE_CHUNK_MS = 100;
+// How long a wake has to turn into a call before standby listens again
+const WAKE_CALL_TIMEOUT_MS = 1000;
+
+interface MicrophoneTap {
+  stop: () => void;
+}
+
+/**
+ * Streams 16 kHz PCM from the microphone to `onChunk` without anything leaving the browser.
+ */
+async function tapMicrophone(
+  devices: AudioDeviceSettings,
+  onChunk: (pcm: Int16Array) => void
+): Promise<MicrophoneTap> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: getAudioConstraints(devices) });
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const node = await createPcmCaptureNode(ctx, pcm => onChunk(pcm), {
+      chunkDurationMs: CAPTURE_CHUNK_MS,
+      targetSampleRate: PCM_SAMPLE_RATE_INPUT,
+    });
+    const source = ctx.createMediaStreamSource(stream);
+    source.connect(node);
+    node.connect(ctx.destination);
+    return {
+      stop: () => {
+        source.disconnect();
+        node.disconnect();
+        stream.getTracks().forEach(track => track.stop());
+        ctx.close().catch(() => {});
+      },
+    };
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    ctx.close().catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Hands-free activation: while enabled and not in a call, listens for the
+ * enrolled wake phrase and calls `onWake`; during a call it started, calls
+ * `onIdle` once nothing has been said or typed for the configured timeout.
+ */
+export function useWakeWord({
+  settings,
+  templates,
+  devices,
+  isInCall,
+  isActive,
+  activity,
+  onWake,
+  onIdle,
+}: UseWakeWordOptions): UseWakeWordReturn {
+  const [isStandby, setIsStandby] = useState(false);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [error, setError] = useState<LiveError | null>(null);
+  // Only calls started by the wake phrase hang up by themselves
+  const [isWakeCall, setIsWakeCall] = useState(false);
+  const wasInCallRef = useRef(isInCall);
+
+  const onWakeRef = useRef(onWake);
+  onWakeRef.current = onWake;
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+  const spotterRef = useRef<KeywordSpotter | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const shouldListen = settings.enabled && templates.length > 0 && !isInCall && !isEnrolling;
+
+  useEffect(() => {
+    if (!shouldListen) return;
+
+    let cancelled = false;
+    let woken = false;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    let tap: MicrophoneTap | null = null;
+    const spotter = new KeywordSpotter(templates, {
+      sampleRate: PCM_SAMPLE_RATE_INPUT,
+      sensitivity: settings.sensitivity,
+    });
+    spotterRef.current = spotter;
+
+    tapMicrophone(devices, pcm => {
+      if (woken || !spotter.process(pcm)) return;
+      // Chunks already in flight must not wake it twice
+      woken = true;
+      setIsWakeCall(true);
+      onWakeRef.current();
+      // A call that starts tears this effect down; when none does (connect can refuse,
+      // e.g. on invalid settings) go back to listening
+      wakeTimer = setTimeout(() => {
+        woken = false;
+        spotter.reset();
+        setIsWakeCall(false);
+      }, WAKE_CALL_TIMEOUT_MS);
+    })
+      .then(started => {
+        if (cancelled) {
+          started.stop();
+          return;
+        }
+        tap = started;
+        setIsStandby(true);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Could not start wake word standby', err);
+        setError(fromMediaError(err, 'microphone'));
+      });
+
+    return () => {
+      cancelled = true;
+      if (wakeTimer) clearTimeout(wakeTimer);
+      tap?.stop();
+      spotterRef.current = null;
+      setIsStandby(false);
+    };
+    // Sensitivity is applied live below rather than restarting the microphone
+  }, [shouldListen, templates, devices.inputDeviceId, devices.echoCancellation, devices.noiseSuppression, devices.autoGainControl]);
+
+  useEffect(() => {
+    spotterRef.current?.setSensitivity(settings.sensitivity);
+  }, [settings.sensitivity]);
+
+  useEffect(() => {
+    if (wasInCallRef.current && !isInCall) setIsWakeCall(false);
+    wasInCallRef.current = isInCall;
+  }, [isInCall]);
+
+  // Hang up once nothing has been said or typed for the timeout
+  const idleTimeoutMs = settings.enabled ? settings.idleTimeoutSec * 1000 : 0;
+  useEffect(() => {
+    if (!isInCall || !isWakeCall || isActive || idleTimeoutMs <= 0) return;
+    const timer = setTimeout(() => onIdleRef.current(), idleTimeoutMs);
+    return () => clearTimeout(timer);
+  }, [isInCall, isWakeCall, isActive, activity, idleTimeoutMs]);
+
+  const enroll = useCallback(async () => {
+    setIsEnrolling(true);
+    const chunks: Int16Array[] = [];
+    try {
+      const tap = await tapMicrophone(devices, pcm => chunks.push(pcm));
+      await new Promise(resolve => setTimeout(resolve, ENROLL_RECORDING_MS));
+      tap.stop();
+    } catch (err) {
+      console.error('Could not record the wake phrase', err);
+      setError(fromMediaError(err, 'microphone'));
+      return null;
+    } finally {
+      setIsEnrolling(false);
+    }
+
+    const recording = new Int16Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      recording.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return createKeywordTemplate(recording, PCM_SAMPLE_RATE_INPUT);
+  }, [devices]);
+
+  return {
+    isStandby,
+    isEnrolling,
+    enroll,
+    error,
+    clearError,
+  };
+}
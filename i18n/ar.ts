@@ -0,0 +1,301 @@
+import { Messages } from './en';
+
+const ar: Partial<Messages> = {
+  'status.live': 'مباشر',
+  'status.connecting': 'جارٍ الاتصال...',
+  'status.reconnecting': 'جارٍ إعادة الاتصال ({attempt})...',
+  'status.standby': 'في وضع الانتظار',
+  'status.disconnected': 'غير متصل',
+  'status.speaking': 'تتحدث الآن',
+  'status.transferring': 'جارٍ التحويل...',
+
+  'header.history': 'سجل المحادثات',
+  'header.settings': 'إعدادات المساعد',
+  'header.locale': 'لغة الواجهة',
+
+  'help.reconnecting': 'انقطع الاتصال. واصل الحديث، وسنُطلع النموذج على ما فاته عند عودته.',
+  'help.pushToTalk': 'اضغط مع الاستمرار على مفتاح المسافة أو زر التحدث أثناء كلامك.',
+  'help.muted': 'الميكروفون مكتوم.',
+  'help.live': 'ابدأ الحديث بشكل طبيعي. سيستمع النموذج ويرد فورًا.',
+  'help.interpreting': 'تحدث بإحدى اللغتين {first} أو {second} وستسمعه باللغة الأخرى.',
+  'help.standby': 'قل "{phrase}" لبدء محادثة.',
+  'help.idle': 'اتصل لبدء محادثة صوتية فورية مع Fahad.AI.',
+
+  'call.start': 'ابدأ المحادثة',
+  'call.connecting': 'جارٍ الاتصال...',
+  'call.end': 'إنهاء المكالمة',
+
+  'widget.ready': 'جاهز',
+  'widget.talkTo': 'تحدث إلى {name}',
+
+  'composer.voiceOnlyModel': 'هذا النموذج يرد بالصوت فقط.',
+  'footer.model': 'يستخدم {model}',
+  'wakeWord.notHeard': 'لم يُلتقط الصوت. قل عبارة التنبيه مباشرةً بعد الضغط على تسجيل.',
+
+  'announce.live': 'متصل بـ {agent}.',
+  'announce.connecting': 'جارٍ الاتصال.',
+  'announce.reconnecting': 'انقطع الاتصال. جارٍ إعادة الاتصال.',
+  'announce.standby': 'في انتظار عبارة التنبيه.',
+  'announce.disconnected': 'انتهت المكالمة.',
+  'announce.handoff': 'تم التحويل إلى {agent}.',
+  'announce.agentSpeaking': '{agent} يتحدث.',
+  'announce.agentFinished': 'أنهى {agent} حديثه.',
+  'announce.muted': 'تم كتم الميكروفون.',
+  'announce.unmuted': 'الميكروفون يعمل.',
+
+  'visualizer.speaking': '{agent} يتحدث',
+  'visualizer.listening': 'يستمع إليك',
+  'visualizer.muted': 'المكالمة جارية، والميكروفون مكتوم',
+  'visualizer.idle': 'لا توجد مكالمة',
+
+  'shortcuts.hint': 'Alt+C للبدء · Alt+E لإنهاء المكالمة · Alt+M للكتم · اضغط مع الاستمرار على المسافة للتحدث',
+
+  'speaker.user': 'أنت',
+
+  'input.mode': 'طريقة الإدخال',
+  'input.openMic': 'ميكروفون مفتوح',
+  'input.pushToTalk': 'اضغط للتحدث',
+  'input.listening': 'جارٍ الاستماع...',
+  'input.holdToTalk': 'اضغط مع الاستمرار للتحدث (المسافة)',
+  'input.mute': 'كتم',
+  'input.unmute': 'إلغاء الكتم',
+
+  'handoff.title': 'حوّل المكالمة إلى شخصية أخرى دون إنهائها',
+  'handoff.placeholder': 'تحويل إلى...',
+
+  'video.camera': 'الكاميرا',
+  'video.screen': 'مشاركة الشاشة',
+  'video.stopCamera': 'إيقاف الكاميرا',
+  'video.stopScreen': 'إيقاف المشاركة',
+  'video.pause': 'إيقاف الفيديو مؤقتًا',
+  'video.resume': 'استئناف الفيديو',
+  'video.pauseHint': 'أوقف إرسال الصور دون إنهاء المشاركة',
+  'video.badge.camera': 'الكاميرا',
+  'video.badge.screen': 'الشاشة',
+  'video.notSending': 'لا يُرسل',
+
+  'recording.live': 'تسجيل',
+  'recording.enable': 'سجّل المكالمة التالية',
+  'recording.download': 'تنزيل التسجيل',
+
+  'tools.title': 'الأدوات',
+
+  'transcript.title': 'النص المكتوب',
+  'transcript.clear': 'مسح النص',
+  'transcript.typed': 'مكتوب',
+  'transcript.interrupted': 'مقاطَع',
+
+  'composer.placeholder': 'اكتب رسالة أو رابطًا أو مقتطفًا…',
+  'composer.placeholderIdle': 'ابدأ محادثة لكتابة الرسائل',
+  'composer.label': 'رسالة',
+  'composer.send': 'إرسال الرسالة',
+  'composer.replies': 'الردود',
+  'composer.nextCall': 'يُطبَّق على المكالمة التالية',
+
+  'metrics.title': 'المقاييس',
+  'metrics.noCall': 'لا توجد مكالمة بعد',
+  'metrics.latencyLast': 'زمن الرد (الأخير)',
+  'metrics.latencyAvg': 'زمن الرد (المتوسط)',
+  'metrics.latencyRange': 'زمن الرد (الأدنى / الأقصى)',
+  'metrics.jitter': 'تذبذب الصوت',
+  'metrics.underruns': 'انقطاعات التشغيل',
+  'metrics.sent': 'المُرسَل',
+  'metrics.received': 'المُستلَم',
+  'metrics.modelTurns': 'أدوار النموذج',
+  'metrics.interruptions': 'المقاطعات',
+  'metrics.reconnects': 'مرات إعادة الاتصال',
+  'metrics.tokens': 'الرموز (الإدخال / الرد)',
+  'metrics.tokensTotal': 'الرموز (الإجمالي)',
+
+  'history.title': 'سجل المحادثات',
+  'history.close': 'إغلاق السجل',
+  'history.search': 'البحث في المحادثات',
+  'history.loading': 'جارٍ التحميل…',
+  'history.empty': 'تظهر المكالمات المنتهية هنا.',
+  'history.noMatches': 'لا توجد محادثات مطابقة.',
+  'history.nothingSaid': 'لم يُقل شيء.',
+  'history.tools': 'الأدوات: {tools}',
+  'history.continue': 'متابعة',
+  'history.continueHint': 'ابدأ مكالمة جديدة تكمل من هنا',
+  'history.continueBlocked': 'أنهِ المكالمة الحالية أولًا',
+  'history.continuedTitle': '{title} (متابعة)',
+  'history.rename': 'إعادة التسمية',
+  'history.renamePrompt': 'إعادة تسمية المحادثة',
+  'history.delete': 'حذف',
+  'history.deleteConfirm': 'حذف "{title}"؟',
+  'history.seconds': '{seconds} ث',
+  'history.minutes': '{minutes} د {seconds} ث',
+  'history.hours': '{hours} س {minutes} د',
+
+  'settings.title': 'إعدادات المساعد',
+  'settings.close': 'إغلاق الإعدادات',
+  'settings.nextCall': 'تُطبَّق التغييرات على المكالمة التالية.',
+  'settings.persona': 'الشخصية',
+  'settings.savePersona': 'حفظ كشخصية جديدة',
+  'settings.savePersonaPrompt': 'اسم الشخصية الجديدة',
+  'settings.personaCopy': 'نسخة من {name}',
+  'settings.deletePersona': 'حذف الشخصية',
+  'settings.deletePersonaConfirm': 'حذف الشخصية "{name}"؟',
+  'settings.model': 'النموذج',
+  'settings.voice': 'الصوت',
+  'settings.language': 'لغة المحادثة',
+  'settings.temperature': 'درجة الحرارة',
+  'settings.systemPrompt': 'تعليمات النظام',
+  'settings.microphone': 'الميكروفون',
+  'settings.speaker': 'مكبر الصوت',
+  'settings.systemDefault': 'الافتراضي للنظام',
+  'settings.microphoneN': 'ميكروفون {n}',
+  'settings.speakerN': 'مكبر صوت {n}',
+  'settings.outputUnsupported': 'يشغّل هذا المتصفح الصوت دائمًا عبر المخرج الافتراضي للنظام.',
+  'settings.echoCancellation': 'إلغاء الصدى',
+  'settings.noiseSuppression': 'كتم الضوضاء',
+  'settings.autoGainControl': 'التحكم التلقائي في مستوى الصوت',
+  'settings.noiseGate': 'بوابة الضوضاء',
+  'settings.noiseGateHelp': 'لا يُرسل الصوت إلا عند رصد الكلام، مما يوفر عرض النطاق ويمنع الضوضاء من مقاطعة المساعد.',
+  'settings.sensitivity': 'الحساسية',
+  'settings.interruptions': 'السماح بالمقاطعة',
+  'settings.interruptionsHelp': 'يتيح لك التحدث أثناء كلام المساعد. عند إيقافه يكمل المساعد دائمًا ما يقوله.',
+  'settings.bargeInSpeech': 'الكلام اللازم للمقاطعة',
+  'settings.echoHandling': 'معالجة الصدى',
+  'settings.echoHandlingHelp': 'يمنع صوت المساعد الخارج من مكبرات الصوت من الوصول إلى الميكروفون فلا يقاطع نفسه.',
+  'settings.speechSpeed': 'سرعة الكلام',
+  'settings.speechSpeedHelp': 'مدى سرعة كلام المساعد. الكلام الأسرع يبدو أحدّ أيضًا.',
+  'settings.frameRate': 'معدل إطارات الفيديو',
+  'settings.frameWidth': 'دقة الفيديو',
+  'settings.videoHelp': 'المعدلات والدقة الأعلى تستهلك عرض نطاق ورموزًا أكثر.',
+  'settings.wakeWord': 'كلمة التنبيه',
+  'settings.wakeWordHelp': 'بين المكالمات يُراقَب الميكروفون على هذا الجهاز فقط، وتبدأ المكالمة عندما تقول العبارة.',
+  'settings.phrase': 'العبارة',
+  'settings.recordSample': 'تسجيل عينة',
+  'settings.recordingSample': 'جارٍ الاستماع…',
+  'settings.deleteSamples': 'حذف العينات المسجلة',
+  'settings.samples': '{count} من {total} عينات',
+  'settings.recordHelp': 'اضغط تسجيل، ثم قل العبارة كما تقولها عادةً.',
+  'settings.wakeSensitivity': 'حساسية التنبيه',
+  'settings.idleTimeout': 'إنهاء المكالمة عند الصمت',
+  'settings.idleTimeoutHelp': 'فقط للمكالمات التي بدأت بعبارة التنبيه.',
+  'settings.interpreter': 'وضع الترجمة الفورية',
+  'settings.interpreterHelp': 'يتوقف المساعد عن الإجابة ويترجم كل ما يُقال إلى اللغة الأخرى.',
+  'settings.firstLanguage': 'اللغة الأولى',
+  'settings.secondLanguage': 'اللغة الثانية',
+  'settings.visualizer': 'المؤثر المرئي',
+  'settings.visualizerTheme': 'سمة المؤثر المرئي',
+
+  'validation.modelRequired': 'يجب اختيار نموذج.',
+  'validation.unknownVoice': 'صوت غير معروف "{voice}".',
+  'validation.languageCode': '"{language}" ليس رمز لغة صالحًا.',
+  'validation.promptEmpty': 'لا يمكن أن تكون تعليمات النظام فارغة.',
+  'validation.promptTooLong': 'يجب أن تكون تعليمات النظام أقل من {max} حرف.',
+  'validation.temperature': 'يجب أن تكون درجة الحرارة بين 0 و2.',
+  'validation.interpreterLanguages': 'اختر لغتي الترجمة كلتيهما.',
+  'validation.interpreterSame': 'تحتاج الترجمة الفورية إلى لغتين مختلفتين.',
+
+  'language.auto': 'اكتشاف تلقائي',
+  'language.en-US': 'الإنجليزية (الولايات المتحدة)',
+  'language.en-GB': 'الإنجليزية (المملكة المتحدة)',
+  'language.ur-PK': 'الأردية',
+  'language.hi-IN': 'الهندية',
+  'language.ar-XA': 'العربية',
+  'language.es-US': 'الإسبانية',
+  'language.fr-FR': 'الفرنسية',
+  'language.de-DE': 'الألمانية',
+
+  'voice.Kore': 'Kore (حازم)',
+  'voice.Puck': 'Puck (مرح)',
+  'voice.Charon': 'Charon (إخباري)',
+  'voice.Fenrir': 'Fenrir (متحمس)',
+  'voice.Aoede': 'Aoede (خفيف)',
+  'voice.Leda': 'Leda (شاب)',
+  'voice.Orus': 'Orus (حازم)',
+  'voice.Zephyr': 'Zephyr (مشرق)',
+
+  'option.echo.suppress': 'كبت (يقارن بما يُشغَّل)',
+  'option.echo.duck': 'خفض (يخفض الميكروفون)',
+  'option.echo.off': 'إيقاف (سماعات الرأس)',
+  'option.bargeIn.0': 'فورًا',
+  'option.bargeIn.800': '800ms (المقاطعات المقصودة فقط)',
+  'option.response.audio': 'صوت',
+  'option.response.text': 'نص',
+  'option.speed.0.75': 'أبطأ (0.75×)',
+  'option.speed.1': 'عادية',
+  'option.speed.1.25': 'أسرع (1.25×)',
+  'option.speed.1.5': 'الأسرع (1.5×)',
+  'option.frameRate.0.5': 'إطار واحد كل ثانيتين',
+  'option.frameRate.1': 'إطار واحد في الثانية',
+  'option.frameRate.2': 'إطاران في الثانية',
+  'option.frameRate.5': '5 إطارات في الثانية',
+  'option.frameWidth.480': '480px (عرض نطاق منخفض)',
+  'option.frameWidth.1280': '1280px (نص مقروء)',
+  'option.visualizer.circle': 'حلقة',
+  'option.visualizer.dual-ring': 'حلقتان (أنت والنموذج)',
+  'option.visualizer.bars': 'أعمدة',
+  'option.visualizer.waveform': 'موجة صوتية',
+  'option.visualizer.spectrogram': 'مخطط طيفي',
+  'option.theme.aurora': 'شفق',
+  'option.theme.ember': 'جمر',
+  'option.theme.ocean': 'محيط',
+  'option.theme.mono': 'أحادي اللون',
+  'option.idle.0': 'أبدًا',
+  'option.idle.15': 'بعد 15 ثانية',
+  'option.idle.30': 'بعد 30 ثانية',
+  'option.idle.60': 'بعد دقيقة',
+  'option.idle.300': 'بعد 5 دقائق',
+
+  'error.title.permission': 'مطلوب إذن',
+  'error.title.device': 'مشكلة في الجهاز',
+  'error.title.auth': 'تعذر تسجيل الدخول إلى Gemini',
+  'error.title.quota': 'تم بلوغ حد الاستخدام',
+  'error.title.network': 'مشكلة في الاتصال',
+  'error.title.server': 'أنهى الخادم الجلسة',
+  'error.title.configuration': 'راجع الإعدادات',
+  'error.title.unknown': 'حدث خطأ ما',
+
+  'error.message.microphone-denied': 'تم حظر الوصول إلى الميكروفون.',
+  'error.message.camera-denied': 'تم حظر الوصول إلى الكاميرا.',
+  'error.message.screen-denied': 'تم حظر مشاركة الشاشة.',
+  'error.message.microphone-not-found': 'لم يُعثر على ميكروفون.',
+  'error.message.microphone-in-use': 'تعذّر تشغيل الميكروفون. ربما يستخدمه تطبيق آخر.',
+  'error.message.microphone-disconnected': 'انفصل الميكروفون وتعذّر فتح ميكروفون آخر.',
+  'error.message.camera-unavailable': 'تعذّر تشغيل الكاميرا.',
+  'error.message.screen-unavailable': 'تعذّرت مشاركة الشاشة.',
+  'error.message.media-unsupported': 'لا يستطيع هذا المتصفح التقاط الصوت أو الصورة هنا. استخدم صفحة آمنة (https) في متصفح حديث.',
+  'error.message.invalid-api-key': 'تم رفض مفتاح API.',
+  'error.message.missing-credentials': 'لم يتم إعداد خادم رموز أو مفتاح API.',
+  'error.message.not-allowed': 'هذا المفتاح غير مسموح له باستخدام Live API.',
+  'error.message.token-unavailable': 'تعذّر الحصول على رمز الجلسة.',
+  'error.message.quota-exceeded': 'نفدت حصة Gemini API.',
+  'error.message.connection-failed': 'تعذّر الاتصال بالخادم.',
+  'error.message.connection-lost': 'انقطع الاتصال.',
+  'error.message.server-error': 'حدث خطأ في الخادم.',
+  'error.message.server-closed': 'أغلق الخادم الجلسة.',
+  'error.message.model-unavailable': 'النموذج المحدد غير متاح.',
+  'error.message.invalid-request': 'رفض الخادم إعداد الجلسة.',
+  'error.message.invalid-settings': 'بعض الإعدادات غير صالحة.',
+  'error.message.unsupported-response-mode': 'هذا النموذج يرد بالصوت فقط. اختر نموذجًا آخر أو اجعل الردود صوتية.',
+  'error.message.unknown': 'حدث خطأ ما.',
+  'error.handoffFailed': 'تعذّر التحويل إلى {agent}.',
+  'error.reconnectGaveUp': 'فشلت إعادة الاتصال بعد {count} محاولات.',
+
+  'error.guidance.permission-denied': 'اسمح بالوصول من الأيقونة في شريط العنوان، ثم حاول مرة أخرى.',
+  'error.guidance.microphone-not-found': 'وصّل ميكروفونًا أو اختر مدخلًا آخر من الإعدادات.',
+  'error.guidance.microphone-in-use': 'أغلق التطبيقات الأخرى التي تستخدم الميكروفون، أو اختر مدخلًا آخر من الإعدادات.',
+  'error.guidance.microphone-disconnected': 'أعد توصيل الميكروفون أو اختر مدخلًا آخر من الإعدادات.',
+  'error.guidance.media-unsupported': 'افتح التطبيق عبر https في متصفح محدَّث.',
+  'error.guidance.invalid-api-key': 'تحقق من GEMINI_API_KEY الذي يعمل به خادم الرموز.',
+  'error.guidance.missing-credentials': 'اضبط VITE_TOKEN_ENDPOINT أو شغّل خادم التطوير مع GEMINI_API_KEY.',
+  'error.guidance.not-allowed': 'المفتاح أو النموذج غير مسموح له بفتح جلسات Live. جرّب نموذجًا آخر من الإعدادات.',
+  'error.guidance.quota-exceeded': 'انتظر قليلًا قبل الاتصال مرة أخرى، أو ارفع حصة المشروع.',
+  'error.guidance.model-unavailable': 'اختر نموذجًا آخر من الإعدادات.',
+  'error.guidance.invalid-request': 'رفض الخادم إعداد الجلسة. راجع إعدادات الشخصية.',
+  'error.guidance.network': 'تحقق من اتصالك بالإنترنت وحاول مرة أخرى.',
+  'error.guidance.server': 'عادةً ما يكون هذا مؤقتًا. حاول مرة أخرى بعد لحظات.',
+  'error.guidance.configuration': 'صحّح الإعدادات المميزة ثم اتصل مرة أخرى.',
+  'error.guidance.retryable': 'حاول مرة أخرى بعد لحظات.',
+  'error.guidance.fatal': 'أعد تحميل الصفحة إذا تكرر ذلك.',
+
+  'error.retry': 'حاول مرة أخرى',
+  'error.settings': 'الإعدادات',
+  'error.dismiss': 'إغلاق رسالة الخطأ',
+};
+
+export default ar;
@@ -0,0 +1,312 @@
+// Source catalog: every other locale translates these keys, falling back to English where it has none.
+// {name} placeholders are filled in by translate().
+const en = {
+  'status.live': 'LIVE',
+  'status.connecting': 'CONNECTING...',
+  'status.reconnecting': 'RECONNECTING ({attempt})...',
+  'status.standby': 'STANDBY',
+  'status.disconnected': 'DISCONNECTED',
+  'status.speaking': 'SPEAKING',
+  'status.transferring': 'Transferring...',
+  'status.interpreting': '{first} ⇄ {second}',
+
+  'header.history': 'Conversation history',
+  'header.settings': 'Assistant settings',
+  'header.locale': 'Interface language',
+
+  'help.reconnecting': "Connection dropped. Keep talking, we'll catch the model up when it's back.",
+  'help.pushToTalk': 'Hold the spacebar or the talk button while you speak.',
+  'help.muted': 'Your microphone is muted.',
+  'help.live': 'Start speaking naturally. The model will listen and respond in real-time.',
+  'help.interpreting': 'Speak in {first} or {second} and you will hear it in the other language.',
+  'help.standby': 'Say "{phrase}" to start a conversation.',
+  'help.idle': 'Connect to start a real-time voice conversation with Fahad.AI.',
+
+  'call.start': 'Start Conversation',
+  'call.connecting': 'Connecting...',
+  'call.end': 'End Call',
+
+  'widget.ready': 'READY',
+  'widget.talkTo': 'Talk to {name}',
+
+  'composer.voiceOnlyModel': 'This model only replies with voice.',
+  'footer.model': 'Using {model}',
+  'wakeWord.notHeard': "Didn't catch that. Say the wake phrase right after pressing record.",
+
+  'announce.live': 'Connected to {agent}.',
+  'announce.connecting': 'Connecting.',
+  'announce.reconnecting': 'Connection lost. Reconnecting.',
+  'announce.standby': 'Listening for the wake phrase.',
+  'announce.disconnected': 'Call ended.',
+  'announce.handoff': 'Transferred to {agent}.',
+  'announce.agentSpeaking': '{agent} is speaking.',
+  'announce.agentFinished': '{agent} finished speaking.',
+  'announce.muted': 'Microphone muted.',
+  'announce.unmuted': 'Microphone on.',
+
+  'visualizer.speaking': '{agent} is speaking',
+  'visualizer.listening': 'Listening to you',
+  'visualizer.muted': 'Call in progress, microphone muted',
+  'visualizer.idle': 'Not in a call',
+
+  'shortcuts.hint': 'Alt+C start · Alt+E end call · Alt+M mute · hold Space to talk in push-to-talk',
+
+  'speaker.user': 'You',
+
+  'input.mode': 'Input mode',
+  'input.openMic': 'Open mic',
+  'input.pushToTalk': 'Push to talk',
+  'input.listening': 'Listening...',
+  'input.holdToTalk': 'Hold to talk (Space)',
+  'input.mute': 'Mute',
+  'input.unmute': 'Unmute',
+  'input.withShortcut': '{action} ({shortcut})',
+
+  'handoff.title': 'Hand the call over to another persona without hanging up',
+  'handoff.placeholder': 'Transfer to...',
+
+  'video.camera': 'Camera',
+  'video.screen': 'Share screen',
+  'video.stopCamera': 'Stop camera',
+  'video.stopScreen': 'Stop sharing',
+  'video.pause': 'Pause video',
+  'video.resume': 'Resume video',
+  'video.pauseHint': 'Stop sending frames without ending the share',
+  'video.badge.camera': 'CAMERA',
+  'video.badge.screen': 'SCREEN',
+  'video.notSending': 'Not sending',
+
+  'recording.live': 'REC',
+  'recording.enable': 'Record next call',
+  'recording.download': 'Download recording',
+
+  'tools.title': 'TOOLS',
+
+  'transcript.title': 'TRANSCRIPT',
+  'transcript.clear': 'Clear transcript',
+  'transcript.typed': 'typed',
+  'transcript.interrupted': 'interrupted',
+
+  'composer.placeholder': 'Type a message, link or snippet…',
+  'composer.placeholderIdle': 'Start a conversation to type messages',
+  'composer.label': 'Message',
+  'composer.send': 'Send message',
+  'composer.replies': 'Replies',
+  'composer.nextCall': 'Applies to the next call',
+
+  'metrics.title': 'METRICS',
+  'metrics.export': 'JSON',
+  'metrics.noCall': 'No call yet',
+  'metrics.latencyLast': 'Reply latency (last)',
+  'metrics.latencyAvg': 'Reply latency (avg)',
+  'metrics.latencyRange': 'Reply latency (min / max)',
+  'metrics.jitter': 'Audio jitter',
+  'metrics.underruns': 'Playback underruns',
+  'metrics.sent': 'Sent',
+  'metrics.received': 'Received',
+  'metrics.modelTurns': 'Model turns',
+  'metrics.interruptions': 'Interruptions',
+  'metrics.reconnects': 'Reconnects',
+  'metrics.tokens': 'Tokens (prompt / response)',
+  'metrics.tokensTotal': 'Tokens (total)',
+
+  'history.title': 'Conversation History',
+  'history.close': 'Close history',
+  'history.search': 'Search conversations',
+  'history.loading': 'Loading…',
+  'history.empty': 'Finished calls show up here.',
+  'history.noMatches': 'No conversations match.',
+  'history.nothingSaid': 'Nothing was said.',
+  'history.tools': 'Tools: {tools}',
+  'history.continue': 'Continue',
+  'history.continueHint': 'Start a new call that picks up from here',
+  'history.continueBlocked': 'End the current call first',
+  'history.continuedTitle': '{title} (continued)',
+  'history.rename': 'Rename',
+  'history.renamePrompt': 'Rename conversation',
+  'history.delete': 'Delete',
+  'history.deleteConfirm': 'Delete "{title}"?',
+  'history.seconds': '{seconds}s',
+  'history.minutes': '{minutes}m {seconds}s',
+  'history.hours': '{hours}h {minutes}m',
+
+  'settings.title': 'Assistant Settings',
+  'settings.close': 'Close settings',
+  'settings.nextCall': 'Changes apply to the next call.',
+  'settings.persona': 'PERSONA',
+  'settings.savePersona': 'Save as new persona',
+  'settings.savePersonaPrompt': 'Name for the new persona',
+  'settings.personaCopy': '{name} copy',
+  'settings.deletePersona': 'Delete persona',
+  'settings.deletePersonaConfirm': 'Delete persona "{name}"?',
+  'settings.model': 'MODEL',
+  'settings.voice': 'VOICE',
+  'settings.language': 'CONVERSATION LANGUAGE',
+  'settings.temperature': 'TEMPERATURE',
+  'settings.systemPrompt': 'SYSTEM PROMPT',
+  'settings.microphone': 'MICROPHONE',
+  'settings.speaker': 'SPEAKER',
+  'settings.systemDefault': 'System default',
+  'settings.microphoneN': 'Microphone {n}',
+  'settings.speakerN': 'Speaker {n}',
+  'settings.outputUnsupported': 'This browser always plays through the system default output.',
+  'settings.echoCancellation': 'Echo cancellation',
+  'settings.noiseSuppression': 'Noise suppression',
+  'settings.autoGainControl': 'Automatic gain control',
+  'settings.noiseGate': 'NOISE GATE',
+  'settings.noiseGateHelp': 'Only sends audio when speech is detected, saving bandwidth and avoiding noise interrupting the assistant.',
+  'settings.sensitivity': 'SENSITIVITY',
+  'settings.interruptions': 'INTERRUPTIONS ALLOWED',
+  'settings.interruptionsHelp': 'Lets you talk over the assistant. When off, it always finishes what it is saying.',
+  'settings.bargeInSpeech': 'SPEECH NEEDED TO INTERRUPT',
+  'settings.echoHandling': 'ECHO HANDLING',
+  'settings.echoHandlingHelp': "Keeps the assistant's voice from the speakers out of the microphone so it doesn't interrupt itself.",
+  'settings.speechSpeed': 'SPEECH SPEED',
+  'settings.speechSpeedHelp': 'How fast the assistant talks. Faster speech also sounds higher.',
+  'settings.frameRate': 'VIDEO FRAME RATE',
+  'settings.frameWidth': 'VIDEO RESOLUTION',
+  'settings.videoHelp': 'Higher rates and resolutions use more bandwidth and tokens.',
+  'settings.wakeWord': 'WAKE WORD',
+  'settings.wakeWordHelp': 'Between calls the microphone is monitored on this device only, and a call starts when you say the phrase.',
+  'settings.phrase': 'PHRASE',
+  'settings.recordSample': 'Record sample',
+  'settings.recordingSample': 'Listening…',
+  'settings.deleteSamples': 'Delete recorded samples',
+  'settings.samples': '{count} of {total} samples',
+  'settings.recordHelp': 'Press record, then say the phrase the way you normally would.',
+  'settings.wakeSensitivity': 'WAKE SENSITIVITY',
+  'settings.idleTimeout': 'HANG UP WHEN QUIET',
+  'settings.idleTimeoutHelp': 'Only for calls started with the wake phrase.',
+  'settings.interpreter': 'INTERPRETER MODE',
+  'settings.interpreterHelp': 'The assistant stops answering and translates everything said into the other language.',
+  'settings.firstLanguage': 'FIRST LANGUAGE',
+  'settings.secondLanguage': 'SECOND LANGUAGE',
+  'settings.visualizer': 'VISUALIZER',
+  'settings.visualizerTheme': 'VISUALIZER THEME',
+
+  'validation.modelRequired': 'A model is required.',
+  'validation.unknownVoice': 'Unknown voice "{voice}".',
+  'validation.languageCode': '"{language}" is not a valid language code.',
+  'validation.promptEmpty': 'The system prompt cannot be empty.',
+  'validation.promptTooLong': 'The system prompt must be under {max} characters.',
+  'validation.temperature': 'Temperature must be between 0 and 2.',
+  'validation.interpreterLanguages': 'Pick both interpreter languages.',
+  'validation.interpreterSame': 'The interpreter needs two different languages.',
+
+  'language.auto': 'Auto-detect',
+  'language.en-US': 'English (US)',
+  'language.en-GB': 'English (UK)',
+  'language.ur-PK': 'Urdu',
+  'language.hi-IN': 'Hindi',
+  'language.ar-XA': 'Arabic',
+  'language.es-US': 'Spanish',
+  'language.fr-FR': 'French',
+  'language.de-DE': 'German',
+
+  'voice.Kore': 'Kore (firm)',
+  'voice.Puck': 'Puck (upbeat)',
+  'voice.Charon': 'Charon (informative)',
+  'voice.Fenrir': 'Fenrir (excitable)',
+  'voice.Aoede': 'Aoede (breezy)',
+  'voice.Leda': 'Leda (youthful)',
+  'voice.Orus': 'Orus (firm)',
+  'voice.Zephyr': 'Zephyr (bright)',
+
+  'option.echo.suppress': 'Suppress (compares with what is playing)',
+  'option.echo.duck': 'Duck (lowers the microphone)',
+  'option.echo.off': 'Off (headphones)',
+  'option.bargeIn.0': 'Immediately',
+  'option.bargeIn.150': '150ms',
+  'option.bargeIn.300': '300ms',
+  'option.bargeIn.500': '500ms',
+  'option.bargeIn.800': '800ms (only deliberate interruptions)',
+  'option.response.audio': 'Voice',
+  'option.response.text': 'Text',
+  'option.speed.0.75': 'Slower (0.75×)',
+  'option.speed.1': 'Normal',
+  'option.speed.1.25': 'Faster (1.25×)',
+  'option.speed.1.5': 'Fastest (1.5×)',
+  'option.frameRate.0.5': '1 frame every 2 seconds',
+  'option.frameRate.1': '1 frame per second',
+  'option.frameRate.2': '2 frames per second',
+  'option.frameRate.5': '5 frames per second',
+  'option.frameWidth.480': '480px (low bandwidth)',
+  'option.frameWidth.768': '768px',
+  'option.frameWidth.1024': '1024px',
+  'option.frameWidth.1280': '1280px (readable text)',
+  'option.visualizer.circle': 'Ring',
+  'option.visualizer.dual-ring': 'Dual ring (you and the model)',
+  'option.visualizer.bars': 'Bars',
+  'option.visualizer.waveform': 'Waveform',
+  'option.visualizer.spectrogram': 'Spectrogram',
+  'option.theme.aurora': 'Aurora',
+  'option.theme.ember': 'Ember',
+  'option.theme.ocean': 'Ocean',
+  'option.theme.mono': 'Monochrome',
+  'option.idle.0': 'Never',
+  'option.idle.15': 'After 15 seconds',
+  'option.idle.30': 'After 30 seconds',
+  'option.idle.60': 'After 1 minute',
+  'option.idle.300': 'After 5 minutes',
+
+  'error.title.permission': 'Permission needed',
+  'error.title.device': 'Device problem',
+  'error.title.auth': 'Could not sign in to Gemini',
+  'error.title.quota': 'Usage limit reached',
+  'error.title.network': 'Connection problem',
+  'error.title.server': 'The server ended the session',
+  'error.title.configuration': 'Check your settings',
+  'error.title.unknown': 'Something went wrong',
+
+  'error.message.microphone-denied': 'Microphone access was blocked.',
+  'error.message.camera-denied': 'Camera access was blocked.',
+  'error.message.screen-denied': 'Screen sharing was blocked.',
+  'error.message.microphone-not-found': 'No microphone was found.',
+  'error.message.microphone-in-use': 'The microphone could not be started. Another app may be using it.',
+  'error.message.microphone-disconnected': 'The microphone was disconnected and no other microphone could be opened.',
+  'error.message.camera-unavailable': 'The camera could not be started.',
+  'error.message.screen-unavailable': 'The screen could not be shared.',
+  'error.message.media-unsupported': 'This browser cannot capture media here. Use a secure (https) page in a recent browser.',
+  'error.message.invalid-api-key': 'The API key was rejected.',
+  'error.message.missing-credentials': 'No token endpoint or API key is configured.',
+  'error.message.not-allowed': 'This key is not allowed to use the Live API.',
+  'error.message.token-unavailable': 'Could not get a session token.',
+  'error.message.quota-exceeded': 'The Gemini API quota has run out.',
+  'error.message.connection-failed': 'Could not connect to the server.',
+  'error.message.connection-lost': 'The connection dropped.',
+  'error.message.server-error': 'The server hit an error.',
+  'error.message.server-closed': 'The server closed the session.',
+  'error.message.model-unavailable': 'The selected model is not available.',
+  'error.message.invalid-request': 'The server rejected the session setup.',
+  'error.message.invalid-settings': 'Some settings are not valid.',
+  'error.message.unsupported-response-mode': 'This model can only reply with voice. Pick another model or switch replies to voice.',
+  'error.message.unknown': 'Something went wrong.',
+  'error.handoffFailed': 'Could not hand over to {agent}.',
+  'error.reconnectGaveUp': 'Reconnecting failed after {count} attempts.',
+
+  'error.guidance.permission-denied': "Allow access from the icon in your browser's address bar, then try again.",
+  'error.guidance.microphone-not-found': 'Plug in a microphone or pick another input in Settings.',
+  'error.guidance.microphone-in-use': 'Close other apps using the microphone, or pick another input in Settings.',
+  'error.guidance.microphone-disconnected': 'Reconnect your microphone or pick another input in Settings.',
+  'error.guidance.media-unsupported': 'Open the app over https in an up-to-date browser.',
+  'error.guidance.invalid-api-key': 'Check the GEMINI_API_KEY the token server runs with.',
+  'error.guidance.missing-credentials': 'Set VITE_TOKEN_ENDPOINT or run the dev server with GEMINI_API_KEY.',
+  'error.guidance.not-allowed': 'The key or model is not allowed to open Live sessions. Try another model in Settings.',
+  'error.guidance.quota-exceeded': 'Wait a while before calling again, or raise the quota for the project.',
+  'error.guidance.model-unavailable': 'Pick another model in Settings.',
+  'error.guidance.invalid-request': 'The server rejected the session setup. Review the persona settings.',
+  'error.guidance.network': 'Check your internet connection and try again.',
+  'error.guidance.server': 'This is usually temporary. Try again in a moment.',
+  'error.guidance.configuration': 'Fix the highlighted settings and connect again.',
+  'error.guidance.retryable': 'Try again in a moment.',
+  'error.guidance.fatal': 'Reload the page if this keeps happening.',
+
+  'error.retry': 'Try again',
+  'error.settings': 'Settings',
+  'error.dismiss': 'Dismiss error',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export default en satisfies Messages;
@@ -0,0 +1,301 @@
+import { Messages } from './en';
+
+const es: Partial<Messages> = {
+  'status.live': 'EN VIVO',
+  'status.connecting': 'CONECTANDO...',
+  'status.reconnecting': 'RECONECTANDO ({attempt})...',
+  'status.standby': 'EN ESPERA',
+  'status.disconnected': 'DESCONECTADO',
+  'status.speaking': 'HABLANDO',
+  'status.transferring': 'Transfiriendo...',
+
+  'header.history': 'Historial de conversaciones',
+  'header.settings': 'Ajustes del asistente',
+  'header.locale': 'Idioma de la interfaz',
+
+  'help.reconnecting': 'Se perdió la conexión. Sigue hablando; pondremos al día al modelo cuando vuelva.',
+  'help.pushToTalk': 'Mantén pulsada la barra espaciadora o el botón para hablar mientras hablas.',
+  'help.muted': 'Tu micrófono está silenciado.',
+  'help.live': 'Habla con naturalidad. El modelo te escuchará y responderá en tiempo real.',
+  'help.interpreting': 'Habla en {first} o en {second} y lo oirás en el otro idioma.',
+  'help.standby': 'Di "{phrase}" para empezar una conversación.',
+  'help.idle': 'Conéctate para empezar una conversación de voz en tiempo real con Fahad.AI.',
+
+  'call.start': 'Iniciar conversación',
+  'call.connecting': 'Conectando...',
+  'call.end': 'Colgar',
+
+  'widget.ready': 'LISTO',
+  'widget.talkTo': 'Hablar con {name}',
+
+  'composer.voiceOnlyModel': 'Este modelo solo responde con voz.',
+  'footer.model': 'Usando {model}',
+  'wakeWord.notHeard': 'No se entendió. Di la frase de activación justo después de pulsar grabar.',
+
+  'announce.live': 'Conectado con {agent}.',
+  'announce.connecting': 'Conectando.',
+  'announce.reconnecting': 'Se perdió la conexión. Reconectando.',
+  'announce.standby': 'Esperando la frase de activación.',
+  'announce.disconnected': 'Llamada finalizada.',
+  'announce.handoff': 'Transferido a {agent}.',
+  'announce.agentSpeaking': '{agent} está hablando.',
+  'announce.agentFinished': '{agent} terminó de hablar.',
+  'announce.muted': 'Micrófono silenciado.',
+  'announce.unmuted': 'Micrófono activado.',
+
+  'visualizer.speaking': '{agent} está hablando',
+  'visualizer.listening': 'Escuchándote',
+  'visualizer.muted': 'Llamada en curso, micrófono silenciado',
+  'visualizer.idle': 'Sin llamada',
+
+  'shortcuts.hint': 'Alt+C iniciar · Alt+E colgar · Alt+M silenciar · mantén Espacio para hablar en pulsar para hablar',
+
+  'speaker.user': 'Tú',
+
+  'input.mode': 'Modo de entrada',
+  'input.openMic': 'Micrófono abierto',
+  'input.pushToTalk': 'Pulsar para hablar',
+  'input.listening': 'Escuchando...',
+  'input.holdToTalk': 'Mantén pulsado para hablar (Espacio)',
+  'input.mute': 'Silenciar',
+  'input.unmute': 'Activar micrófono',
+
+  'handoff.title': 'Pasa la llamada a otra persona sin colgar',
+  'handoff.placeholder': 'Transferir a...',
+
+  'video.camera': 'Cámara',
+  'video.screen': 'Compartir pantalla',
+  'video.stopCamera': 'Detener cámara',
+  'video.stopScreen': 'Dejar de compartir',
+  'video.pause': 'Pausar vídeo',
+  'video.resume': 'Reanudar vídeo',
+  'video.pauseHint': 'Deja de enviar imágenes sin terminar de compartir',
+  'video.badge.camera': 'CÁMARA',
+  'video.badge.screen': 'PANTALLA',
+  'video.notSending': 'Sin enviar',
+
+  'recording.live': 'GRAB',
+  'recording.enable': 'Grabar la próxima llamada',
+  'recording.download': 'Descargar grabación',
+
+  'tools.title': 'HERRAMIENTAS',
+
+  'transcript.title': 'TRANSCRIPCIÓN',
+  'transcript.clear': 'Borrar transcripción',
+  'transcript.typed': 'escrito',
+  'transcript.interrupted': 'interrumpido',
+
+  'composer.placeholder': 'Escribe un mensaje, enlace o fragmento…',
+  'composer.placeholderIdle': 'Inicia una conversación para escribir mensajes',
+  'composer.label': 'Mensaje',
+  'composer.send': 'Enviar mensaje',
+  'composer.replies': 'Respuestas',
+  'composer.nextCall': 'Se aplica a la próxima llamada',
+
+  'metrics.title': 'MÉTRICAS',
+  'metrics.noCall': 'Todavía no hay llamada',
+  'metrics.latencyLast': 'Latencia de respuesta (última)',
+  'metrics.latencyAvg': 'Latencia de respuesta (media)',
+  'metrics.latencyRange': 'Latencia de respuesta (mín. / máx.)',
+  'metrics.jitter': 'Fluctuación del audio',
+  'metrics.underruns': 'Cortes de reproducción',
+  'metrics.sent': 'Enviado',
+  'metrics.received': 'Recibido',
+  'metrics.modelTurns': 'Turnos del modelo',
+  'metrics.interruptions': 'Interrupciones',
+  'metrics.reconnects': 'Reconexiones',
+  'metrics.tokens': 'Tokens (entrada / respuesta)',
+  'metrics.tokensTotal': 'Tokens (total)',
+
+  'history.title': 'Historial de conversaciones',
+  'history.close': 'Cerrar historial',
+  'history.search': 'Buscar conversaciones',
+  'history.loading': 'Cargando…',
+  'history.empty': 'Las llamadas terminadas aparecen aquí.',
+  'history.noMatches': 'Ninguna conversación coincide.',
+  'history.nothingSaid': 'No se dijo nada.',
+  'history.tools': 'Herramientas: {tools}',
+  'history.continue': 'Continuar',
+  'history.continueHint': 'Inicia una llamada nueva que sigue desde aquí',
+  'history.continueBlocked': 'Primero termina la llamada actual',
+  'history.continuedTitle': '{title} (continuación)',
+  'history.rename': 'Renombrar',
+  'history.renamePrompt': 'Renombrar conversación',
+  'history.delete': 'Eliminar',
+  'history.deleteConfirm': '¿Eliminar «{title}»?',
+  'history.seconds': '{seconds} s',
+  'history.minutes': '{minutes} min {seconds} s',
+  'history.hours': '{hours} h {minutes} min',
+
+  'settings.title': 'Ajustes del asistente',
+  'settings.close': 'Cerrar ajustes',
+  'settings.nextCall': 'Los cambios se aplican a la próxima llamada.',
+  'settings.persona': 'PERSONA',
+  'settings.savePersona': 'Guardar como persona nueva',
+  'settings.savePersonaPrompt': 'Nombre de la persona nueva',
+  'settings.personaCopy': 'Copia de {name}',
+  'settings.deletePersona': 'Eliminar persona',
+  'settings.deletePersonaConfirm': '¿Eliminar la persona «{name}»?',
+  'settings.model': 'MODELO',
+  'settings.voice': 'VOZ',
+  'settings.language': 'IDIOMA DE LA CONVERSACIÓN',
+  'settings.temperature': 'TEMPERATURA',
+  'settings.systemPrompt': 'INSTRUCCIONES DEL SISTEMA',
+  'settings.microphone': 'MICRÓFONO',
+  'settings.speaker': 'ALTAVOZ',
+  'settings.systemDefault': 'Predeterminado del sistema',
+  'settings.microphoneN': 'Micrófono {n}',
+  'settings.speakerN': 'Altavoz {n}',
+  'settings.outputUnsupported': 'Este navegador siempre reproduce por la salida predeterminada del sistema.',
+  'settings.echoCancellation': 'Cancelación de eco',
+  'settings.noiseSuppression': 'Supresión de ruido',
+  'settings.autoGainControl': 'Control automático de ganancia',
+  'settings.noiseGate': 'PUERTA DE RUIDO',
+  'settings.noiseGateHelp': 'Solo envía audio cuando detecta voz, lo que ahorra ancho de banda y evita que el ruido interrumpa al asistente.',
+  'settings.sensitivity': 'SENSIBILIDAD',
+  'settings.interruptions': 'PERMITIR INTERRUPCIONES',
+  'settings.interruptionsHelp': 'Te deja hablar por encima del asistente. Si lo desactivas, siempre termina lo que está diciendo.',
+  'settings.bargeInSpeech': 'VOZ NECESARIA PARA INTERRUMPIR',
+  'settings.echoHandling': 'TRATAMIENTO DEL ECO',
+  'settings.echoHandlingHelp': 'Evita que la voz del asistente que sale por los altavoces entre en el micrófono y lo interrumpa.',
+  'settings.speechSpeed': 'VELOCIDAD DE LA VOZ',
+  'settings.speechSpeedHelp': 'A qué velocidad habla el asistente. Más rápido también suena más agudo.',
+  'settings.frameRate': 'IMÁGENES POR SEGUNDO',
+  'settings.frameWidth': 'RESOLUCIÓN DEL VÍDEO',
+  'settings.videoHelp': 'Más imágenes y más resolución consumen más ancho de banda y tokens.',
+  'settings.wakeWord': 'PALABRA DE ACTIVACIÓN',
+  'settings.wakeWordHelp': 'Entre llamadas el micrófono se escucha solo en este dispositivo, y la llamada empieza cuando dices la frase.',
+  'settings.phrase': 'FRASE',
+  'settings.recordSample': 'Grabar muestra',
+  'settings.recordingSample': 'Escuchando…',
+  'settings.deleteSamples': 'Eliminar muestras grabadas',
+  'settings.samples': '{count} de {total} muestras',
+  'settings.recordHelp': 'Pulsa grabar y di la frase como lo harías normalmente.',
+  'settings.wakeSensitivity': 'SENSIBILIDAD DE ACTIVACIÓN',
+  'settings.idleTimeout': 'COLGAR SI HAY SILENCIO',
+  'settings.idleTimeoutHelp': 'Solo en llamadas iniciadas con la frase de activación.',
+  'settings.interpreter': 'MODO INTÉRPRETE',
+  'settings.interpreterHelp': 'El asistente deja de responder y traduce todo lo que se dice al otro idioma.',
+  'settings.firstLanguage': 'PRIMER IDIOMA',
+  'settings.secondLanguage': 'SEGUNDO IDIOMA',
+  'settings.visualizer': 'VISUALIZADOR',
+  'settings.visualizerTheme': 'TEMA DEL VISUALIZADOR',
+
+  'validation.modelRequired': 'Hace falta un modelo.',
+  'validation.unknownVoice': 'Voz desconocida «{voice}».',
+  'validation.languageCode': '«{language}» no es un código de idioma válido.',
+  'validation.promptEmpty': 'Las instrucciones del sistema no pueden estar vacías.',
+  'validation.promptTooLong': 'Las instrucciones del sistema deben tener menos de {max} caracteres.',
+  'validation.temperature': 'La temperatura debe estar entre 0 y 2.',
+  'validation.interpreterLanguages': 'Elige los dos idiomas del intérprete.',
+  'validation.interpreterSame': 'El intérprete necesita dos idiomas distintos.',
+
+  'language.auto': 'Detección automática',
+  'language.en-US': 'Inglés (EE. UU.)',
+  'language.en-GB': 'Inglés (Reino Unido)',
+  'language.ur-PK': 'Urdu',
+  'language.hi-IN': 'Hindi',
+  'language.ar-XA': 'Árabe',
+  'language.es-US': 'Español',
+  'language.fr-FR': 'Francés',
+  'language.de-DE': 'Alemán',
+
+  'voice.Kore': 'Kore (firme)',
+  'voice.Puck': 'Puck (animada)',
+  'voice.Charon': 'Charon (informativa)',
+  'voice.Fenrir': 'Fenrir (entusiasta)',
+  'voice.Aoede': 'Aoede (desenfadada)',
+  'voice.Leda': 'Leda (juvenil)',
+  'voice.Orus': 'Orus (firme)',
+  'voice.Zephyr': 'Zephyr (luminosa)',
+
+  'option.echo.suppress': 'Suprimir (compara con lo que suena)',
+  'option.echo.duck': 'Atenuar (baja el micrófono)',
+  'option.echo.off': 'Desactivado (auriculares)',
+  'option.bargeIn.0': 'Al instante',
+  'option.bargeIn.800': '800ms (solo interrupciones deliberadas)',
+  'option.response.audio': 'Voz',
+  'option.response.text': 'Texto',
+  'option.speed.0.75': 'Más lenta (0,75×)',
+  'option.speed.1': 'Normal',
+  'option.speed.1.25': 'Más rápida (1,25×)',
+  'option.speed.1.5': 'La más rápida (1,5×)',
+  'option.frameRate.0.5': '1 imagen cada 2 segundos',
+  'option.frameRate.1': '1 imagen por segundo',
+  'option.frameRate.2': '2 imágenes por segundo',
+  'option.frameRate.5': '5 imágenes por segundo',
+  'option.frameWidth.480': '480px (poco ancho de banda)',
+  'option.frameWidth.1280': '1280px (texto legible)',
+  'option.visualizer.circle': 'Anillo',
+  'option.visualizer.dual-ring': 'Doble anillo (tú y el modelo)',
+  'option.visualizer.bars': 'Barras',
+  'option.visualizer.waveform': 'Forma de onda',
+  'option.visualizer.spectrogram': 'Espectrograma',
+  'option.theme.aurora': 'Aurora',
+  'option.theme.ember': 'Brasa',
+  'option.theme.ocean': 'Océano',
+  'option.theme.mono': 'Monocromo',
+  'option.idle.0': 'Nunca',
+  'option.idle.15': 'A los 15 segundos',
+  'option.idle.30': 'A los 30 segundos',
+  'option.idle.60': 'Al minuto',
+  'option.idle.300': 'A los 5 minutos',
+
+  'error.title.permission': 'Se necesita permiso',
+  'error.title.device': 'Problema con el dispositivo',
+  'error.title.auth': 'No se pudo iniciar sesión en Gemini',
+  'error.title.quota': 'Límite de uso alcanzado',
+  'error.title.network': 'Problema de conexión',
+  'error.title.server': 'El servidor cerró la sesión',
+  'error.title.configuration': 'Revisa los ajustes',
+  'error.title.unknown': 'Algo salió mal',
+
+  'error.message.microphone-denied': 'Se ha bloqueado el acceso al micrófono.',
+  'error.message.camera-denied': 'Se ha bloqueado el acceso a la cámara.',
+  'error.message.screen-denied': 'Se ha bloqueado compartir la pantalla.',
+  'error.message.microphone-not-found': 'No se ha encontrado ningún micrófono.',
+  'error.message.microphone-in-use': 'No se pudo iniciar el micrófono. Puede que otra aplicación lo esté usando.',
+  'error.message.microphone-disconnected': 'El micrófono se desconectó y no se pudo abrir ningún otro.',
+  'error.message.camera-unavailable': 'No se pudo iniciar la cámara.',
+  'error.message.screen-unavailable': 'No se pudo compartir la pantalla.',
+  'error.message.media-unsupported': 'Este navegador no puede capturar audio ni vídeo aquí. Usa una página segura (https) en un navegador reciente.',
+  'error.message.invalid-api-key': 'Se rechazó la clave de API.',
+  'error.message.missing-credentials': 'No hay configurado ningún servidor de tokens ni clave de API.',
+  'error.message.not-allowed': 'Esta clave no puede usar la Live API.',
+  'error.message.token-unavailable': 'No se pudo obtener un token de sesión.',
+  'error.message.quota-exceeded': 'Se ha agotado la cuota de la API de Gemini.',
+  'error.message.connection-failed': 'No se pudo conectar con el servidor.',
+  'error.message.connection-lost': 'Se cortó la conexión.',
+  'error.message.server-error': 'El servidor tuvo un error.',
+  'error.message.server-closed': 'El servidor cerró la sesión.',
+  'error.message.model-unavailable': 'El modelo elegido no está disponible.',
+  'error.message.invalid-request': 'El servidor rechazó la configuración de la sesión.',
+  'error.message.invalid-settings': 'Algunos ajustes no son válidos.',
+  'error.message.unsupported-response-mode': 'Este modelo solo responde con voz. Elige otro modelo o cambia las respuestas a voz.',
+  'error.message.unknown': 'Algo salió mal.',
+  'error.handoffFailed': 'No se pudo pasar la llamada a {agent}.',
+  'error.reconnectGaveUp': 'La reconexión falló tras {count} intentos.',
+
+  'error.guidance.permission-denied': 'Permite el acceso desde el icono de la barra de direcciones y vuelve a intentarlo.',
+  'error.guidance.microphone-not-found': 'Conecta un micrófono o elige otra entrada en Ajustes.',
+  'error.guidance.microphone-in-use': 'Cierra otras aplicaciones que usen el micrófono o elige otra entrada en Ajustes.',
+  'error.guidance.microphone-disconnected': 'Vuelve a conectar el micrófono o elige otra entrada en Ajustes.',
+  'error.guidance.media-unsupported': 'Abre la aplicación por https en un navegador actualizado.',
+  'error.guidance.invalid-api-key': 'Comprueba la GEMINI_API_KEY con la que se ejecuta el servidor de tokens.',
+  'error.guidance.missing-credentials': 'Define VITE_TOKEN_ENDPOINT o ejecuta el servidor de desarrollo con GEMINI_API_KEY.',
+  'error.guidance.not-allowed': 'La clave o el modelo no pueden abrir sesiones Live. Prueba otro modelo en Ajustes.',
+  'error.guidance.quota-exceeded': 'Espera un rato antes de volver a llamar o aumenta la cuota del proyecto.',
+  'error.guidance.model-unavailable': 'Elige otro modelo en Ajustes.',
+  'error.guidance.invalid-request': 'El servidor rechazó la configuración de la sesión. Revisa los ajustes de la persona.',
+  'error.guidance.network': 'Comprueba tu conexión a internet y vuelve a intentarlo.',
+  'error.guidance.server': 'Suele ser temporal. Vuelve a intentarlo en un momento.',
+  'error.guidance.configuration': 'Corrige los ajustes señalados y vuelve a conectar.',
+  'error.guidance.retryable': 'Vuelve a intentarlo en un momento.',
+  'error.guidance.fatal': 'Recarga la página si esto sigue ocurriendo.',
+
+  'error.retry': 'Reintentar',
+  'error.settings': 'Ajustes',
+  'error.dismiss': 'Descartar error',
+};
+
+export default es;
@@ -0,0 +1,65 @@
+import en, { MessageKey, Messages } from './en';
+import es from './es';
+import ur from './ur';
+import ar from './ar';
+
+export type { MessageKey, Messages };
+
+export type Locale = 'en' | 'es' | 'ur' | 'ar';
+export type TextDirection = 'ltr' | 'rtl';
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+// Each locale is listed under its own name so it can be found by someone who cannot read the current one
+export const LOCALE_OPTIONS: { value: Locale; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'ur', label: 'اردو' },
+  { value: 'ar', label: 'العربية' },
+];
+
+const CATALOGS: Record<Locale, Partial<Messages>> = { en, es, ur, ar };
+const RTL_LOCALES: Locale[] = ['ur', 'ar'];
+const LOCALE_STORAGE_KEY = 'fahad-ai:locale';
+
+const isLocale = (value: unknown): value is Locale =>
+  LOCALE_OPTIONS.some(option => option.value === value);
+
+export function getTextDirection(locale: Locale): TextDirection {
+  return RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Looks up a message, falling back to English, and fills in {name} placeholders.
+ */
+export function translate(locale: Locale, key: MessageKey, params?: Record<string, string | number>): string {
+  const message = CATALOGS[locale][key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+}
+
+/**
+ * The locale with a catalog for a language tag such as "es-MX", or null when there is none.
+ */
+export function matchLocale(tag: string | null | undefined): Locale | null {
+  const language = tag?.split('-')[0].toLowerCase();
+  return isLocale(language) ? language : null;
+}
+
+// The first of the browser's preferred languages that has a catalog, else English
+function detectLocale(): Locale {
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return 'en';
+}
+
+export function loadLocale(): Locale {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(stored) ? stored : detectLocale();
+}
+
+export function saveLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+}
@@ -0,0 +1,301 @@
+import { Messages } from './en';
+
+const ur: Partial<Messages> = {
+  'status.live': 'لائیو',
+  'status.connecting': 'منسلک ہو رہا ہے...',
+  'status.reconnecting': 'دوبارہ منسلک ہو رہا ہے ({attempt})...',
+  'status.standby': 'منتظر',
+  'status.disconnected': 'منقطع',
+  'status.speaking': 'آپ بول رہے ہیں',
+  'status.transferring': 'منتقل کیا جا رہا ہے...',
+
+  'header.history': 'گفتگو کی تاریخ',
+  'header.settings': 'اسسٹنٹ کی ترتیبات',
+  'header.locale': 'انٹرفیس کی زبان',
+
+  'help.reconnecting': 'کنکشن ٹوٹ گیا۔ بولتے رہیں، واپس آنے پر ماڈل کو سب بتا دیا جائے گا۔',
+  'help.pushToTalk': 'بولتے وقت اسپیس بار یا بولنے کا بٹن دبائے رکھیں۔',
+  'help.muted': 'آپ کا مائیکروفون بند ہے۔',
+  'help.live': 'فطری انداز میں بولنا شروع کریں۔ ماڈل سنے گا اور فوراً جواب دے گا۔',
+  'help.interpreting': '{first} یا {second} میں بولیں، آپ اسے دوسری زبان میں سنیں گے۔',
+  'help.standby': 'گفتگو شروع کرنے کے لیے "{phrase}" کہیں۔',
+  'help.idle': 'Fahad.AI کے ساتھ براہ راست صوتی گفتگو شروع کرنے کے لیے منسلک ہوں۔',
+
+  'call.start': 'گفتگو شروع کریں',
+  'call.connecting': 'منسلک ہو رہا ہے...',
+  'call.end': 'کال ختم کریں',
+
+  'widget.ready': 'تیار',
+  'widget.talkTo': '{name} سے بات کریں',
+
+  'composer.voiceOnlyModel': 'یہ ماڈل صرف آواز میں جواب دیتا ہے۔',
+  'footer.model': '{model} استعمال ہو رہا ہے',
+  'wakeWord.notHeard': 'سمجھ نہیں آیا۔ ریکارڈ دبانے کے فوراً بعد جاگنے کا جملہ کہیں۔',
+
+  'announce.live': '{agent} سے منسلک۔',
+  'announce.connecting': 'منسلک ہو رہا ہے۔',
+  'announce.reconnecting': 'کنکشن ٹوٹ گیا۔ دوبارہ منسلک ہو رہا ہے۔',
+  'announce.standby': 'جاگنے کے جملے کا انتظار ہے۔',
+  'announce.disconnected': 'کال ختم ہو گئی۔',
+  'announce.handoff': '{agent} کو منتقل کر دیا گیا۔',
+  'announce.agentSpeaking': '{agent} بول رہا ہے۔',
+  'announce.agentFinished': '{agent} نے بات مکمل کر لی۔',
+  'announce.muted': 'مائیکروفون بند۔',
+  'announce.unmuted': 'مائیکروفون آن۔',
+
+  'visualizer.speaking': '{agent} بول رہا ہے',
+  'visualizer.listening': 'آپ کو سن رہا ہے',
+  'visualizer.muted': 'کال جاری ہے، مائیکروفون بند ہے',
+  'visualizer.idle': 'کوئی کال نہیں',
+
+  'shortcuts.hint': 'Alt+C شروع · Alt+E کال ختم · Alt+M خاموش · دبا کر بولنے میں اسپیس دبائے رکھیں',
+
+  'speaker.user': 'آپ',
+
+  'input.mode': 'ان پٹ کا طریقہ',
+  'input.openMic': 'کھلا مائیک',
+  'input.pushToTalk': 'دبا کر بولیں',
+  'input.listening': 'سن رہا ہے...',
+  'input.holdToTalk': 'بولنے کے لیے دبائے رکھیں (اسپیس)',
+  'input.mute': 'خاموش کریں',
+  'input.unmute': 'آواز کھولیں',
+
+  'handoff.title': 'کال بند کیے بغیر کسی دوسری شخصیت کو منتقل کریں',
+  'handoff.placeholder': 'منتقل کریں...',
+
+  'video.camera': 'کیمرہ',
+  'video.screen': 'اسکرین شیئر کریں',
+  'video.stopCamera': 'کیمرہ بند کریں',
+  'video.stopScreen': 'شیئر کرنا بند کریں',
+  'video.pause': 'ویڈیو روکیں',
+  'video.resume': 'ویڈیو جاری رکھیں',
+  'video.pauseHint': 'شیئر ختم کیے بغیر تصاویر بھیجنا روک دیں',
+  'video.badge.camera': 'کیمرہ',
+  'video.badge.screen': 'اسکرین',
+  'video.notSending': 'نہیں بھیجا جا رہا',
+
+  'recording.live': 'ریکارڈنگ',
+  'recording.enable': 'اگلی کال ریکارڈ کریں',
+  'recording.download': 'ریکارڈنگ ڈاؤن لوڈ کریں',
+
+  'tools.title': 'ٹولز',
+
+  'transcript.title': 'تحریری ریکارڈ',
+  'transcript.clear': 'تحریری ریکارڈ صاف کریں',
+  'transcript.typed': 'ٹائپ کیا گیا',
+  'transcript.interrupted': 'روکا گیا',
+
+  'composer.placeholder': 'پیغام، لنک یا ٹکڑا ٹائپ کریں…',
+  'composer.placeholderIdle': 'پیغام ٹائپ کرنے کے لیے گفتگو شروع کریں',
+  'composer.label': 'پیغام',
+  'composer.send': 'پیغام بھیجیں',
+  'composer.replies': 'جوابات',
+  'composer.nextCall': 'اگلی کال پر لاگو ہوگا',
+
+  'metrics.title': 'پیمائشیں',
+  'metrics.noCall': 'ابھی کوئی کال نہیں',
+  'metrics.latencyLast': 'جواب میں تاخیر (آخری)',
+  'metrics.latencyAvg': 'جواب میں تاخیر (اوسط)',
+  'metrics.latencyRange': 'جواب میں تاخیر (کم / زیادہ)',
+  'metrics.jitter': 'آڈیو میں اتار چڑھاؤ',
+  'metrics.underruns': 'پلے بیک میں وقفے',
+  'metrics.sent': 'بھیجا گیا',
+  'metrics.received': 'موصول ہوا',
+  'metrics.modelTurns': 'ماڈل کی باریاں',
+  'metrics.interruptions': 'مداخلتیں',
+  'metrics.reconnects': 'دوبارہ کنکشن',
+  'metrics.tokens': 'ٹوکن (ان پٹ / جواب)',
+  'metrics.tokensTotal': 'ٹوکن (کل)',
+
+  'history.title': 'گفتگو کی تاریخ',
+  'history.close': 'تاریخ بند کریں',
+  'history.search': 'گفتگو تلاش کریں',
+  'history.loading': 'لوڈ ہو رہا ہے…',
+  'history.empty': 'ختم شدہ کالیں یہاں نظر آئیں گی۔',
+  'history.noMatches': 'کوئی گفتگو نہیں ملی۔',
+  'history.nothingSaid': 'کچھ نہیں کہا گیا۔',
+  'history.tools': 'ٹولز: {tools}',
+  'history.continue': 'جاری رکھیں',
+  'history.continueHint': 'یہیں سے آگے بڑھنے والی نئی کال شروع کریں',
+  'history.continueBlocked': 'پہلے موجودہ کال ختم کریں',
+  'history.continuedTitle': '{title} (جاری)',
+  'history.rename': 'نام بدلیں',
+  'history.renamePrompt': 'گفتگو کا نام بدلیں',
+  'history.delete': 'حذف کریں',
+  'history.deleteConfirm': '"{title}" حذف کریں؟',
+  'history.seconds': '{seconds} سیکنڈ',
+  'history.minutes': '{minutes} منٹ {seconds} سیکنڈ',
+  'history.hours': '{hours} گھنٹے {minutes} منٹ',
+
+  'settings.title': 'اسسٹنٹ کی ترتیبات',
+  'settings.close': 'ترتیبات بند کریں',
+  'settings.nextCall': 'تبدیلیاں اگلی کال پر لاگو ہوں گی۔',
+  'settings.persona': 'شخصیت',
+  'settings.savePersona': 'نئی شخصیت کے طور پر محفوظ کریں',
+  'settings.savePersonaPrompt': 'نئی شخصیت کا نام',
+  'settings.personaCopy': '{name} کی نقل',
+  'settings.deletePersona': 'شخصیت حذف کریں',
+  'settings.deletePersonaConfirm': 'شخصیت "{name}" حذف کریں؟',
+  'settings.model': 'ماڈل',
+  'settings.voice': 'آواز',
+  'settings.language': 'گفتگو کی زبان',
+  'settings.temperature': 'ٹمپریچر',
+  'settings.systemPrompt': 'سسٹم ہدایات',
+  'settings.microphone': 'مائیکروفون',
+  'settings.speaker': 'اسپیکر',
+  'settings.systemDefault': 'سسٹم کا طے شدہ',
+  'settings.microphoneN': 'مائیکروفون {n}',
+  'settings.speakerN': 'اسپیکر {n}',
+  'settings.outputUnsupported': 'یہ براؤزر ہمیشہ سسٹم کے طے شدہ آؤٹ پٹ سے آواز چلاتا ہے۔',
+  'settings.echoCancellation': 'گونج کا خاتمہ',
+  'settings.noiseSuppression': 'شور میں کمی',
+  'settings.autoGainControl': 'خودکار آواز کا کنٹرول',
+  'settings.noiseGate': 'نوائز گیٹ',
+  'settings.noiseGateHelp': 'آڈیو صرف تب بھیجتا ہے جب بولنے کی آواز آئے، جس سے بینڈوڈتھ بچتی ہے اور شور اسسٹنٹ کو نہیں روکتا۔',
+  'settings.sensitivity': 'حساسیت',
+  'settings.interruptions': 'مداخلت کی اجازت',
+  'settings.interruptionsHelp': 'آپ اسسٹنٹ کے بیچ میں بول سکتے ہیں۔ بند ہو تو وہ ہمیشہ اپنی بات پوری کرتا ہے۔',
+  'settings.bargeInSpeech': 'مداخلت کے لیے درکار بولنا',
+  'settings.echoHandling': 'گونج سے نمٹنا',
+  'settings.echoHandlingHelp': 'اسپیکر سے آنے والی اسسٹنٹ کی آواز کو مائیکروفون سے دور رکھتا ہے تاکہ وہ خود کو نہ روکے۔',
+  'settings.speechSpeed': 'بولنے کی رفتار',
+  'settings.speechSpeedHelp': 'اسسٹنٹ کتنی تیزی سے بولتا ہے۔ تیز آواز کچھ باریک بھی لگتی ہے۔',
+  'settings.frameRate': 'ویڈیو فریم ریٹ',
+  'settings.frameWidth': 'ویڈیو ریزولیوشن',
+  'settings.videoHelp': 'زیادہ ریٹ اور ریزولیوشن زیادہ بینڈوڈتھ اور ٹوکن استعمال کرتے ہیں۔',
+  'settings.wakeWord': 'جگانے کا لفظ',
+  'settings.wakeWordHelp': 'کالوں کے درمیان مائیکروفون صرف اسی ڈیوائس پر سنا جاتا ہے، اور جملہ کہنے پر کال شروع ہو جاتی ہے۔',
+  'settings.phrase': 'جملہ',
+  'settings.recordSample': 'نمونہ ریکارڈ کریں',
+  'settings.recordingSample': 'سن رہا ہے…',
+  'settings.deleteSamples': 'ریکارڈ شدہ نمونے حذف کریں',
+  'settings.samples': '{total} میں سے {count} نمونے',
+  'settings.recordHelp': 'ریکارڈ دبائیں، پھر جملہ اسی طرح کہیں جیسے عام طور پر کہتے ہیں۔',
+  'settings.wakeSensitivity': 'جگانے کی حساسیت',
+  'settings.idleTimeout': 'خاموشی پر کال ختم کریں',
+  'settings.idleTimeoutHelp': 'صرف اُن کالوں کے لیے جو جگانے کے جملے سے شروع ہوئیں۔',
+  'settings.interpreter': 'ترجمان موڈ',
+  'settings.interpreterHelp': 'اسسٹنٹ جواب دینا بند کر دیتا ہے اور جو کچھ کہا جائے اس کا دوسری زبان میں ترجمہ کرتا ہے۔',
+  'settings.firstLanguage': 'پہلی زبان',
+  'settings.secondLanguage': 'دوسری زبان',
+  'settings.visualizer': 'ویژولائزر',
+  'settings.visualizerTheme': 'ویژولائزر تھیم',
+
+  'validation.modelRequired': 'ماڈل ضروری ہے۔',
+  'validation.unknownVoice': 'نامعلوم آواز "{voice}"۔',
+  'validation.languageCode': '"{language}" درست زبان کا کوڈ نہیں ہے۔',
+  'validation.promptEmpty': 'سسٹم ہدایات خالی نہیں ہو سکتیں۔',
+  'validation.promptTooLong': 'سسٹم ہدایات {max} حروف سے کم ہونی چاہییں۔',
+  'validation.temperature': 'ٹمپریچر 0 اور 2 کے درمیان ہونا چاہیے۔',
+  'validation.interpreterLanguages': 'ترجمان کی دونوں زبانیں منتخب کریں۔',
+  'validation.interpreterSame': 'ترجمان کو دو مختلف زبانیں درکار ہیں۔',
+
+  'language.auto': 'خودکار شناخت',
+  'language.en-US': 'انگریزی (امریکہ)',
+  'language.en-GB': 'انگریزی (برطانیہ)',
+  'language.ur-PK': 'اردو',
+  'language.hi-IN': 'ہندی',
+  'language.ar-XA': 'عربی',
+  'language.es-US': 'ہسپانوی',
+  'language.fr-FR': 'فرانسیسی',
+  'language.de-DE': 'جرمن',
+
+  'voice.Kore': 'Kore (مضبوط)',
+  'voice.Puck': 'Puck (پرجوش)',
+  'voice.Charon': 'Charon (معلوماتی)',
+  'voice.Fenrir': 'Fenrir (جوشیلی)',
+  'voice.Aoede': 'Aoede (ہلکی پھلکی)',
+  'voice.Leda': 'Leda (نوجوان)',
+  'voice.Orus': 'Orus (مضبوط)',
+  'voice.Zephyr': 'Zephyr (روشن)',
+
+  'option.echo.suppress': 'دبائیں (چلنے والی آواز سے موازنہ)',
+  'option.echo.duck': 'دھیما کریں (مائیکروفون کم کرتا ہے)',
+  'option.echo.off': 'بند (ہیڈفون)',
+  'option.bargeIn.0': 'فوراً',
+  'option.bargeIn.800': '800ms (صرف جان بوجھ کر مداخلت)',
+  'option.response.audio': 'آواز',
+  'option.response.text': 'تحریر',
+  'option.speed.0.75': 'آہستہ (0.75×)',
+  'option.speed.1': 'عام',
+  'option.speed.1.25': 'تیز (1.25×)',
+  'option.speed.1.5': 'سب سے تیز (1.5×)',
+  'option.frameRate.0.5': 'ہر 2 سیکنڈ میں 1 فریم',
+  'option.frameRate.1': '1 فریم فی سیکنڈ',
+  'option.frameRate.2': '2 فریم فی سیکنڈ',
+  'option.frameRate.5': '5 فریم فی سیکنڈ',
+  'option.frameWidth.480': '480px (کم بینڈوڈتھ)',
+  'option.frameWidth.1280': '1280px (پڑھنے کے قابل تحریر)',
+  'option.visualizer.circle': 'دائرہ',
+  'option.visualizer.dual-ring': 'دوہرا دائرہ (آپ اور ماڈل)',
+  'option.visualizer.bars': 'بارز',
+  'option.visualizer.waveform': 'لہر',
+  'option.visualizer.spectrogram': 'اسپیکٹروگرام',
+  'option.theme.aurora': 'شفق',
+  'option.theme.ember': 'انگارہ',
+  'option.theme.ocean': 'سمندر',
+  'option.theme.mono': 'یک رنگ',
+  'option.idle.0': 'کبھی نہیں',
+  'option.idle.15': '15 سیکنڈ بعد',
+  'option.idle.30': '30 سیکنڈ بعد',
+  'option.idle.60': '1 منٹ بعد',
+  'option.idle.300': '5 منٹ بعد',
+
+  'error.title.permission': 'اجازت درکار ہے',
+  'error.title.device': 'آلے میں مسئلہ',
+  'error.title.auth': 'Gemini میں سائن اِن نہیں ہو سکا',
+  'error.title.quota': 'استعمال کی حد پوری ہو گئی',
+  'error.title.network': 'کنکشن میں مسئلہ',
+  'error.title.server': 'سرور نے سیشن ختم کر دیا',
+  'error.title.configuration': 'اپنی ترتیبات دیکھیں',
+  'error.title.unknown': 'کچھ غلط ہو گیا',
+
+  'error.message.microphone-denied': 'مائیکروفون تک رسائی روک دی گئی۔',
+  'error.message.camera-denied': 'کیمرے تک رسائی روک دی گئی۔',
+  'error.message.screen-denied': 'اسکرین شیئرنگ روک دی گئی۔',
+  'error.message.microphone-not-found': 'کوئی مائیکروفون نہیں ملا۔',
+  'error.message.microphone-in-use': 'مائیکروفون شروع نہیں ہو سکا۔ شاید کوئی اور ایپ اسے استعمال کر رہی ہے۔',
+  'error.message.microphone-disconnected': 'مائیکروفون منقطع ہو گیا اور کوئی دوسرا مائیکروفون نہیں کھل سکا۔',
+  'error.message.camera-unavailable': 'کیمرہ شروع نہیں ہو سکا۔',
+  'error.message.screen-unavailable': 'اسکرین شیئر نہیں ہو سکی۔',
+  'error.message.media-unsupported': 'یہ براؤزر یہاں آڈیو یا ویڈیو حاصل نہیں کر سکتا۔ کسی جدید براؤزر میں محفوظ (https) صفحہ استعمال کریں۔',
+  'error.message.invalid-api-key': 'API کلید مسترد کر دی گئی۔',
+  'error.message.missing-credentials': 'کوئی ٹوکن سرور یا API کلید ترتیب نہیں دی گئی۔',
+  'error.message.not-allowed': 'اس کلید کو Live API استعمال کرنے کی اجازت نہیں۔',
+  'error.message.token-unavailable': 'سیشن ٹوکن حاصل نہیں ہو سکا۔',
+  'error.message.quota-exceeded': 'Gemini API کا کوٹہ ختم ہو گیا ہے۔',
+  'error.message.connection-failed': 'سرور سے رابطہ نہیں ہو سکا۔',
+  'error.message.connection-lost': 'کنکشن ٹوٹ گیا۔',
+  'error.message.server-error': 'سرور میں خرابی پیش آئی۔',
+  'error.message.server-closed': 'سرور نے سیشن بند کر دیا۔',
+  'error.message.model-unavailable': 'منتخب ماڈل دستیاب نہیں ہے۔',
+  'error.message.invalid-request': 'سرور نے سیشن کی ترتیب مسترد کر دی۔',
+  'error.message.invalid-settings': 'کچھ ترتیبات درست نہیں ہیں۔',
+  'error.message.unsupported-response-mode': 'یہ ماڈل صرف آواز میں جواب دیتا ہے۔ کوئی اور ماڈل چنیں یا جوابات کو آواز پر کر دیں۔',
+  'error.message.unknown': 'کچھ غلط ہو گیا۔',
+  'error.handoffFailed': '{agent} کو منتقل نہیں کیا جا سکا۔',
+  'error.reconnectGaveUp': '{count} کوششوں کے بعد دوبارہ رابطہ نہیں ہو سکا۔',
+
+  'error.guidance.permission-denied': 'براؤزر کی ایڈریس بار میں موجود آئیکن سے اجازت دیں، پھر دوبارہ کوشش کریں۔',
+  'error.guidance.microphone-not-found': 'مائیکروفون لگائیں یا ترتیبات میں کوئی اور ان پٹ منتخب کریں۔',
+  'error.guidance.microphone-in-use': 'مائیکروفون استعمال کرنے والی دوسری ایپس بند کریں، یا ترتیبات میں کوئی اور ان پٹ منتخب کریں۔',
+  'error.guidance.microphone-disconnected': 'مائیکروفون دوبارہ لگائیں یا ترتیبات میں کوئی اور ان پٹ منتخب کریں۔',
+  'error.guidance.media-unsupported': 'ایپ کو https پر کسی جدید براؤزر میں کھولیں۔',
+  'error.guidance.invalid-api-key': 'ٹوکن سرور جس GEMINI_API_KEY کے ساتھ چل رہا ہے اسے چیک کریں۔',
+  'error.guidance.missing-credentials': 'VITE_TOKEN_ENDPOINT سیٹ کریں یا ڈیو سرور کو GEMINI_API_KEY کے ساتھ چلائیں۔',
+  'error.guidance.not-allowed': 'اس کلید یا ماڈل کو لائیو سیشن کھولنے کی اجازت نہیں۔ ترتیبات میں کوئی اور ماڈل آزمائیں۔',
+  'error.guidance.quota-exceeded': 'دوبارہ کال کرنے سے پہلے کچھ دیر انتظار کریں، یا پروجیکٹ کا کوٹہ بڑھائیں۔',
+  'error.guidance.model-unavailable': 'ترتیبات میں کوئی اور ماڈل منتخب کریں۔',
+  'error.guidance.invalid-request': 'سرور نے سیشن کی ترتیب مسترد کر دی۔ پرسونا کی ترتیبات دیکھیں۔',
+  'error.guidance.network': 'اپنا انٹرنیٹ کنکشن چیک کریں اور دوبارہ کوشش کریں۔',
+  'error.guidance.server': 'یہ عموماً عارضی ہوتا ہے۔ تھوڑی دیر میں دوبارہ کوشش کریں۔',
+  'error.guidance.configuration': 'نشان زدہ ترتیبات درست کریں اور دوبارہ منسلک ہوں۔',
+  'error.guidance.retryable': 'تھوڑی دیر میں دوبارہ کوشش کریں۔',
+  'error.guidance.fatal': 'اگر یہ بار بار ہو تو صفحہ دوبارہ لوڈ کریں۔',
+
+  'error.retry': 'دوبارہ کوشش کریں',
+  'error.settings': 'ترتیبات',
+  'error.dismiss': 'خرابی کا پیغام بند کریں',
+};
+
+export default ur;
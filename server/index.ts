@@ -0,0 +1,34 @@
+import http from 'http';
+import { createTokenHandler } from './tokenBroker';
+import { LOCKED_SESSION_CONFIG, TOKEN_ENDPOINT_PATH } from '../utils/liveConfig';
+import { AVAILABLE_MODELS } from '../utils/settings';
+
+// Standalone token broker: GEMINI_API_KEY=... npm run token-server
+const port = Number(process.env.PORT ?? 8787);
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set');
+  process.exit(1);
+}
+
+const handleToken = createTokenHandler({
+  apiKey,
+  allowedModels: AVAILABLE_MODELS.map(model => model.value),
+  lockedConfig: LOCKED_SESSION_CONFIG,
+  // Lets the broker run against a local stub of the token API
+  baseUrl: process.env.GEMINI_BASE_URL,
+  allowedOrigins: process.env.ALLOWED_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean),
+});
+
+const server = http.createServer((req, res) => {
+  if (req.url?.split('?')[0] === TOKEN_ENDPOINT_PATH) {
+    handleToken(req, res);
+    return;
+  }
+  res.statusCode = 404;
+  res.end();
+});
+
+server.listen(port, () => {
+  console.log(`Token broker listening on http://localhost:${port}${TOKEN_ENDPOINT_PATH}`);
+});
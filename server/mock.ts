@@ -0,0 +1,15 @@
+import { createMockLiveServer } from './mockLiveServer';
+import { DEFAULT_MOCK_SCRIPT, MOCK_SCRIPTS } from './mockScripts';
+
+// Mock Live API for offline development: npm run mock-server
+const port = Number(process.env.PORT ?? 8788);
+
+createMockLiveServer({ port, scripts: MOCK_SCRIPTS, defaultScript: DEFAULT_MOCK_SCRIPT })
+  .then(({ url }) => {
+    console.log(`Mock Live server listening on ${url}`);
+    console.log(`Scripts: ${Object.keys(MOCK_SCRIPTS).join(', ')} (pick one with ?script=<name>)`);
+  })
+  .catch(err => {
+    console.error('Could not start mock server', err);
+    process.exit(1);
+  });
@@ -0,0 +1,188 @@
+import type { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { MockClientMessage } from '../transport/webSocketTransport';
+import { PCM_SAMPLE_RATE_OUTPUT, encodeBase64, float32ToInt16 } from '../utils/audio';
+
+// Things a client can do that a script may wait for
+export type MockClientEvent =
+  | 'setup'
+  | 'audio'
+  | 'video'
+  | 'activityStart'
+  | 'activityEnd'
+  | 'audioStreamEnd'
+  | 'text'
+  | 'toolResponse';
+
+export type MockStep =
+  // Sends one LiveServerMessage as JSON
+  | { type: 'message'; message: Record<string, unknown>; delayMs?: number }
+  // Streams a tone as model audio chunks, faster than real time like the real API
+  | { type: 'audio'; durationMs: number; frequency?: number; chunkMs?: number; delayMs?: number }
+  | { type: 'wait'; for: MockClientEvent }
+  | { type: 'pause'; ms: number }
+  // Closes cleanly with the given code, e.g. 1011 for a server error
+  | { type: 'close'; code?: number; reason?: string; delayMs?: number }
+  // Kills the socket without a close frame, like a network drop
+  | { type: 'drop'; delayMs?: number };
+
+export type MockScript = MockStep[];
+
+export interface MockLiveServerOptions {
+  port?: number;
+  scripts: Record<string, MockScript>;
+  // Used when the client does not pick one with `?script=`
+  defaultScript: string;
+  // Sees every client message, e.g. to assert on what a test sent
+  onClientMessage?: (message: MockClientMessage, script: string) => void;
+}
+
+export interface MockLiveServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+const DEFAULT_AUDIO_CHUNK_MS = 40;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function getClientEvents(message: MockClientMessage): MockClientEvent[] {
+  if ('setup' in message) return ['setup'];
+  if ('clientContent' in message) return ['text'];
+  if ('toolResponse' in message) return ['toolResponse'];
+  const input = message.realtimeInput;
+  const events: MockClientEvent[] = [];
+  if (input.audio || input.media) events.push('audio');
+  if (input.video) events.push('video');
+  if (input.activityStart) events.push('activityStart');
+  if (input.activityEnd) events.push('activityEnd');
+  if (input.audioStreamEnd) events.push('audioStreamEnd');
+  return events;
+}
+
+function createToneChunk(samples: number, offset: number, frequency: number): string {
+  const tone = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) {
+    tone[i] = 0.3 * Math.sin((2 * Math.PI * frequency * (offset + i)) / PCM_SAMPLE_RATE_OUTPUT);
+  }
+  const pcm = float32ToInt16(tone);
+  return encodeBase64(new Uint8Array(pcm.buffer));
+}
+
+/**
+ * Replays one script against a connected client.
+ */
+async function runScript(socket: WebSocket, script: MockScript, waitFor: (event: MockClientEvent) => Promise<void>) {
+  const send = (message: Record<string, unknown>) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  for (const step of script) {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    if ('delayMs' in step && step.delayMs) await sleep(step.delayMs);
+
+    switch (step.type) {
+      case 'message':
+        send(step.message);
+        break;
+      case 'audio': {
+        const chunkMs = step.chunkMs ?? DEFAULT_AUDIO_CHUNK_MS;
+        const chunkSamples = Math.round((PCM_SAMPLE_RATE_OUTPUT * chunkMs) / 1000);
+        const totalSamples = Math.round((PCM_SAMPLE_RATE_OUTPUT * step.durationMs) / 1000);
+        for (let offset = 0; offset < totalSamples; offset += chunkSamples) {
+          const data = createToneChunk(Math.min(chunkSamples, totalSamples - offset), offset, step.frequency ?? 220);
+          send({
+            serverContent: {
+              modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${PCM_SAMPLE_RATE_OUTPUT}`, data } }] },
+            },
+          });
+          await sleep(chunkMs / 2);
+        }
+        break;
+      }
+      case 'wait':
+        await waitFor(step.for);
+        break;
+      case 'pause':
+        await sleep(step.ms);
+        break;
+      case 'close':
+        socket.close(step.code ?? 1000, step.reason);
+        return;
+      case 'drop':
+        socket.terminate();
+        return;
+    }
+  }
+}
+
+/**
+ * WebSocket server that stands in for the Live API, replaying scripted
+ * `LiveServerMessage` sequences. Pair it with `createWebSocketTransport`.
+ */
+export function createMockLiveServer(options: MockLiveServerOptions): Promise<MockLiveServer> {
+  const server = new WebSocketServer({ port: options.port ?? 0 });
+
+  server.on('connection', (socket, req) => {
+    const name = new URL(req.url ?? '/', 'http://localhost').searchParams.get('script') ?? options.defaultScript;
+    const script = options.scripts[name];
+    if (!script) {
+      socket.close(1008, `Unknown script "${name}"`);
+      return;
+    }
+
+    // A wait is satisfied by anything the client did since the previous wait finished,
+    // since several messages can arrive before the script gets to its next step
+    let received = new Set<MockClientEvent>();
+    let waiter: { event: MockClientEvent; resolve: () => void } | null = null;
+    const waitFor = (event: MockClientEvent) => new Promise<void>(resolve => {
+      if (received.has(event)) {
+        received = new Set();
+        resolve();
+        return;
+      }
+      waiter = { event, resolve };
+    });
+
+    socket.on('message', data => {
+      let message: MockClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        socket.close(1007, 'Messages must be JSON');
+        return;
+      }
+      options.onClientMessage?.(message, name);
+
+      for (const event of getClientEvents(message)) {
+        received.add(event);
+      }
+      if (waiter && received.has(waiter.event)) {
+        received = new Set();
+        waiter.resolve();
+        waiter = null;
+      }
+    });
+
+    runScript(socket, script, waitFor).catch(err => {
+      console.error(`Mock script "${name}" failed`, err);
+      socket.close(1011, 'Mock script failed');
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.once('listening', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `ws://localhost:${port}`,
+        close: () => new Promise<void>(done => {
+          server.clients.forEach(client => client.terminate());
+          server.close(() => done());
+        }),
+      });
+    });
+  });
+}
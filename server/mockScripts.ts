@@ -0,0 +1,78 @@
+import type { MockScript } from './mockLiveServer';
+
+const userSaid = (text: string) => ({ serverContent: { inputTranscription: { text } } });
+const modelSaid = (text: string) => ({ serverContent: { outputTranscription: { text } } });
+const TURN_COMPLETE = { serverContent: { turnComplete: true } };
+
+export const DEFAULT_MOCK_SCRIPT = 'reply';
+
+// Scenarios the mock server can replay, picked with `?script=<name>`
+export const MOCK_SCRIPTS: Record<string, MockScript> = {
+  // Answers each time the user starts talking
+  reply: [
+    { type: 'wait', for: 'setup' },
+    { type: 'message', message: { setupComplete: {} } },
+    { type: 'message', message: { sessionResumptionUpdate: { newHandle: 'mock-handle-1', resumable: true } } },
+    { type: 'wait', for: 'audio' },
+    { type: 'message', message: userSaid('Hello, can you hear me?'), delayMs: 600 },
+    { type: 'message', message: modelSaid('Loud and clear. This reply comes from the mock server.') },
+    { type: 'audio', durationMs: 2500 },
+    { type: 'message', message: TURN_COMPLETE },
+  ],
+
+  // Starts a long reply and cuts it off part way, as if the user barged in
+  interruption: [
+    { type: 'wait', for: 'setup' },
+    { type: 'wait', for: 'audio' },
+    { type: 'message', message: userSaid('Tell me a long story.'), delayMs: 400 },
+    { type: 'message', message: modelSaid('Once upon a time, in a land far') },
+    { type: 'audio', durationMs: 6000, frequency: 330 },
+    { type: 'message', message: userSaid('Wait, stop.'), delayMs: 500 },
+    { type: 'message', message: { serverContent: { interrupted: true } } },
+    { type: 'message', message: modelSaid('Sure, stopping.'), delayMs: 300 },
+    { type: 'audio', durationMs: 800 },
+    { type: 'message', message: TURN_COMPLETE },
+  ],
+
+  // Calls a local tool and only answers once the result comes back
+  tool: [
+    { type: 'wait', for: 'setup' },
+    { type: 'wait', for: 'audio' },
+    { type: 'message', message: userSaid('What time is it?'), delayMs: 400 },
+    { type: 'message', message: { toolCall: { functionCalls: [{ id: 'mock-call-1', name: 'get_current_time', args: {} }] } } },
+    { type: 'wait', for: 'toolResponse' },
+    { type: 'message', message: modelSaid('I checked the clock for you.') },
+    { type: 'audio', durationMs: 1500 },
+    { type: 'message', message: TURN_COMPLETE },
+  ],
+
+  // Answers a typed message with text, for sessions that asked for text replies
+  typed: [
+    { type: 'wait', for: 'setup' },
+    { type: 'wait', for: 'text' },
+    { type: 'message', message: { serverContent: { modelTurn: { parts: [{ text: 'Got your message. ' }] } } }, delayMs: 300 },
+    { type: 'message', message: { serverContent: { modelTurn: { parts: [{ text: 'This text reply comes from the mock server.' }] } } }, delayMs: 200 },
+    { type: 'message', message: TURN_COMPLETE },
+  ],
+
+  // Drops the connection mid-reply; every reconnect drops again until the client gives up
+  drop: [
+    { type: 'wait', for: 'setup' },
+    { type: 'message', message: { sessionResumptionUpdate: { newHandle: 'mock-handle-1', resumable: true } } },
+    { type: 'audio', durationMs: 1000, delayMs: 500 },
+    { type: 'drop', delayMs: 1000 },
+  ],
+
+  // Warns that the server is going away, then closes
+  goaway: [
+    { type: 'wait', for: 'setup' },
+    { type: 'message', message: { goAway: { timeLeft: '1s' } }, delayMs: 1000 },
+    { type: 'close', code: 1001, reason: 'Server going away', delayMs: 1000 },
+  ],
+
+  // Fails the session with a server error
+  error: [
+    { type: 'wait', for: 'setup' },
+    { type: 'close', code: 1011, reason: 'Internal error', delayMs: 200 },
+  ],
+};
@@ -0,0 +1,202 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTokenBroker, createTokenHandler, TokenBrokerError, TokenBrokerOptions } from './tokenBroker';
+import { LOCKED_SESSION_CONFIG } from '../utils/liveConfig';
+
+// The parts of the SDK's create-token request body the tests check
+interface TokenRequestBody {
+  uses?: number;
+  expireTime?: string;
+  newSessionExpireTime?: string;
+  fieldMask?: string;
+  bidiGenerateContentSetup?: Record<string, unknown>;
+}
+
+interface StubRequest {
+  method?: string;
+  url?: string;
+  apiKey?: string;
+  body: TokenRequestBody;
+}
+
+// Local stand-in for the Gemini token API that records what the SDK sends it
+function startTokenApiStub() {
+  const requests: StubRequest[] = [];
+  const stub = { requests, status: 200, close: () => {}, url: '' };
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, apiKey: req.headers['x-goog-api-key'] as string, body: JSON.parse(body) as TokenRequestBody });
+      res.statusCode = stub.status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(stub.status === 200 ? { name: `auth_tokens/token-${requests.length}` } : { error: { code: stub.status } }));
+    });
+  });
+  return new Promise<typeof stub>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      stub.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      stub.close = () => server.close();
+      resolve(stub);
+    });
+  });
+}
+
+function startBroker(options: TokenBrokerOptions) {
+  const server = http.createServer(createTokenHandler(options));
+  return new Promise<{ url: string; close: () => void }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, close: () => server.close() });
+    });
+  });
+}
+
+const post = (url: string, body: unknown, headers: Record<string, string> = {}) => fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: typeof body === 'string' ? body : JSON.stringify(body),
+});
+
+describe('createTokenHandler', () => {
+  let upstream: Awaited<ReturnType<typeof startTokenApiStub>>;
+  let broker: Awaited<ReturnType<typeof startBroker>>;
+
+  beforeEach(async () => {
+    upstream = await startTokenApiStub();
+    broker = await startBroker({
+      apiKey: 'server-key',
+      allowedModels: ['model-a', 'model-b'],
+      lockedConfig: LOCKED_SESSION_CONFIG,
+      baseUrl: upstream.url,
+      allowedOrigins: ['https://app.example'],
+    });
+  });
+
+  afterEach(() => {
+    broker.close();
+    upstream.close();
+    vi.restoreAllMocks();
+  });
+
+  it('mints a single-use token locked to the model and the shared session config', async () => {
+    const before = Date.now();
+    const response = await post(broker.url, { model: 'model-b' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    const body = await response.json();
+    expect(body).toMatchObject({ token: 'auth_tokens/token-1', model: 'model-b' });
+
+    expect(upstream.requests).toHaveLength(1);
+    const [request] = upstream.requests;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/v1alpha/auth_tokens');
+    expect(request.apiKey).toBe('server-key');
+    expect(request.body.uses).toBe(1);
+    expect(request.body.bidiGenerateContentSetup).toEqual({
+      model: 'models/model-b',
+      inputAudioTranscription: {},
+      contextWindowCompression: { slidingWindow: {} },
+    });
+    // The locked fields are the model and everything in the shared config, and nothing else
+    expect(request.body.fieldMask?.split(',').sort()).toEqual(
+      ['contextWindowCompression.slidingWindow', 'inputAudioTranscription', 'model'],
+    );
+
+    const expiresAt = Date.parse(body.expiresAt);
+    expect(Date.parse(request.body.expireTime ?? '')).toBe(expiresAt);
+    expect(expiresAt - before).toBeGreaterThanOrEqual(30 * 60 * 1000);
+    expect(Date.parse(request.body.newSessionExpireTime ?? '')).toBeLessThan(expiresAt);
+  });
+
+  it('uses the first allowed model when none is requested', async () => {
+    const body = await (await post(broker.url, '')).json();
+    expect(body.model).toBe('model-a');
+  });
+
+  it('refuses models outside the allow list without calling the token API', async () => {
+    const response = await post(broker.url, { model: 'model-x' });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Model "model-x" is not allowed' });
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('rejects bodies that are not JSON or too large', async () => {
+    expect((await post(broker.url, '{nope')).status).toBe(400);
+    expect((await post(broker.url, { model: 'x'.repeat(5000) })).status).toBe(413);
+  });
+
+  it('only accepts POST', async () => {
+    const response = await fetch(broker.url);
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('POST, OPTIONS');
+  });
+
+  it('allows configured origins cross-origin and no others', async () => {
+    const preflight = await fetch(broker.url, { method: 'OPTIONS', headers: { Origin: 'https://app.example' } });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('https://app.example');
+
+    const other = await post(broker.url, {}, { Origin: 'https://evil.example' });
+    expect(other.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('maps an exhausted upstream quota to a quota error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    upstream.status = 429;
+    const response = await post(broker.url, {});
+    expect(response.status).toBe(429);
+    expect((await response.json()).code).toBe('quota-exceeded');
+  });
+
+  it('reports a rejected server key without passing on the upstream error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    upstream.status = 401;
+    const response = await post(broker.url, {});
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'The token server\'s API key was rejected', code: 'invalid-api-key' });
+  });
+});
+
+describe('createTokenBroker', () => {
+  it('needs a key or a custom minter and at least one model', () => {
+    expect(() => createTokenBroker({ apiKey: '', allowedModels: ['model-a'] })).toThrow();
+    expect(() => createTokenBroker({ apiKey: 'key', allowedModels: [] })).toThrow();
+  });
+
+  it('passes the expiry window to a custom minter', async () => {
+    const calls: Parameters<NonNullable<TokenBrokerOptions['mintToken']>>[0][] = [];
+    const broker = createTokenBroker({
+      apiKey: '',
+      allowedModels: ['model-a'],
+      sessionTtlMs: 60_000,
+      connectTtlMs: 5_000,
+      mintToken: async params => {
+        calls.push(params);
+        return 'custom-token';
+      },
+    });
+
+    const response = await broker();
+    expect(response.token).toBe('custom-token');
+    const [call] = calls;
+    expect(Date.parse(call.expireTime) - Date.parse(call.newSessionExpireTime)).toBe(55_000);
+  });
+
+  it('surfaces a missing token from the API as a bad gateway', async () => {
+    const upstream = http.createServer((_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end('{}');
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+    const broker = createTokenBroker({
+      apiKey: 'key',
+      allowedModels: ['model-a'],
+      baseUrl: `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`,
+    });
+
+    await expect(broker()).rejects.toThrow(TokenBrokerError);
+    await expect(broker()).rejects.toMatchObject({ status: 502 });
+    upstream.close();
+  });
+});
@@ -0,0 +1,185 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { GoogleGenAI, LiveConnectConfig } from '@google/genai';
+
+export interface TokenRequest {
+  model?: string;
+}
+
+export interface TokenResponse {
+  token: string;
+  model: string;
+  expiresAt: string;
+}
+
+export type MintToken = (params: {
+  model: string;
+  expireTime: string;
+  newSessionExpireTime: string;
+}) => Promise<string>;
+
+export interface TokenBrokerOptions {
+  apiKey: string;
+  // Models a browser may ask for; the first one is used when none is requested
+  allowedModels: string[];
+  // Config fields fixed by the server, which the browser cannot override
+  lockedConfig?: LiveConnectConfig;
+  // How long an open session may keep using the token
+  sessionTtlMs?: number;
+  // How long the token may be used to open a new session
+  connectTtlMs?: number;
+  // Origins allowed to call the endpoint cross-origin; same-origin always works
+  allowedOrigins?: string[];
+  // Points the SDK at another host, e.g. a local stub of the token API
+  baseUrl?: string;
+  // Replaces the SDK call entirely, mainly for tests
+  mintToken?: MintToken;
+}
+
+export class TokenBrokerError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'TokenBrokerError';
+  }
+}
+
+const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_CONNECT_TTL_MS = 60 * 1000;
+const MAX_BODY_BYTES = 4096;
+
+function createSdkMinter(options: TokenBrokerOptions): MintToken {
+  const ai = new GoogleGenAI({
+    apiKey: options.apiKey,
+    httpOptions: { apiVersion: 'v1alpha', ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}) },
+  });
+
+  return async ({ model, expireTime, newSessionExpireTime }) => {
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime,
+        newSessionExpireTime,
+        liveConnectConstraints: { model, config: options.lockedConfig },
+        // Lock only what lockedConfig sets, leaving persona fields (voice, prompt) to the client
+        lockAdditionalFields: [],
+      },
+    });
+    if (!token.name) {
+      throw new TokenBrokerError('Token API returned no token', 502);
+    }
+    return token.name;
+  };
+}
+
+/**
+ * Mints a single-use ephemeral token constrained to an allowed model.
+ */
+export function createTokenBroker(options: TokenBrokerOptions) {
+  if (!options.apiKey && !options.mintToken) {
+    throw new Error('Token broker needs an API key');
+  }
+  if (options.allowedModels.length === 0) {
+    throw new Error('Token broker needs at least one allowed model');
+  }
+
+  const mint = options.mintToken ?? createSdkMinter(options);
+  const sessionTtlMs = options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS;
+  const connectTtlMs = options.connectTtlMs ?? DEFAULT_CONNECT_TTL_MS;
+
+  return async (request: TokenRequest = {}): Promise<TokenResponse> => {
+    const model = request.model ?? options.allowedModels[0];
+    if (!options.allowedModels.includes(model)) {
+      throw new TokenBrokerError(`Model "${model}" is not allowed`, 403);
+    }
+
+    const now = Date.now();
+    const expiresAt = new Date(now + sessionTtlMs).toISOString();
+    const token = await mint({
+      model,
+      expireTime: expiresAt,
+      newSessionExpireTime: new Date(now + connectTtlMs).toISOString(),
+    });
+    return { token, model, expiresAt };
+  };
+}
+
+function readJsonBody(req: IncomingMessage): Promise<TokenRequest> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    let tooLarge = false;
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      if (tooLarge) return;
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        // Drain the rest instead of destroying the socket, so the 413 still reaches the client
+        tooLarge = true;
+        reject(new TokenBrokerError('Request body too large', 413));
+      }
+    });
+    req.on('end', () => {
+      if (!body) return resolve({});
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new TokenBrokerError('Request body must be JSON', 400));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Node/Connect style request handler for the token endpoint, usable both as
+ * Vite dev server middleware and in a plain `http` server.
+ */
+export function createTokenHandler(options: TokenBrokerOptions) {
+  const broker = createTokenBroker(options);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (origin && options.allowedOrigins?.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Vary', 'Origin');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST, OPTIONS');
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    try {
+      const request = await readJsonBody(req);
+      sendJson(res, 200, await broker(request));
+    } catch (err) {
+      if (err instanceof TokenBrokerError) {
+        sendJson(res, err.status, { error: err.message });
+      } else {
+        console.error('Token minting failed', err);
+        // Pass on what the client can act on without leaking the upstream error
+        const upstreamStatus = (err as { status?: number }).status;
+        if (upstreamStatus === 429) {
+          sendJson(res, 429, { error: 'The Gemini API quota is exhausted', code: 'quota-exceeded' });
+        } else if (upstreamStatus === 400 || upstreamStatus === 401 || upstreamStatus === 403) {
+          sendJson(res, 502, { error: 'The token server\'s API key was rejected', code: 'invalid-api-key' });
+        } else {
+          sendJson(res, 502, { error: 'Could not mint a token' });
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,314 @@
+// Test doubles for the Web Audio and media capture APIs, which neither Node nor jsdom provide.
+// They keep only what the app touches and record it, with a clock the test moves by hand.
+
+interface AutomationEvent {
+  type: 'set' | 'ramp';
+  value: number;
+  time: number;
+}
+
+export class FakeAudioParam {
+  events: AutomationEvent[] = [];
+
+  constructor(public value: number) {}
+
+  setValueAtTime(value: number, time: number) {
+    this.events.push({ type: 'set', value, time });
+    return this;
+  }
+
+  linearRampToValueAtTime(value: number, time: number) {
+    this.events.push({ type: 'ramp', value, time });
+    return this;
+  }
+
+  cancelScheduledValues(time: number) {
+    this.events = this.events.filter(event => event.time < time);
+    return this;
+  }
+
+  /**
+   * What the automation works out to at `time`.
+   */
+  valueAt(time: number): number {
+    const events = [...this.events].sort((a, b) => a.time - b.time);
+    let current = { time: 0, value: this.value };
+    for (const event of events) {
+      if (event.time > time) {
+        if (event.type === 'set' || event.time === current.time) return current.value;
+        return current.value + ((event.value - current.value) * (time - current.time)) / (event.time - current.time);
+      }
+      current = event;
+    }
+    return current.value;
+  }
+}
+
+export class FakeAudioNode {
+  readonly connections = new Set<unknown>();
+
+  constructor(readonly context: FakeAudioContext) {}
+
+  connect<T>(destination: T): T {
+    this.connections.add(destination);
+    return destination;
+  }
+
+  disconnect() {
+    this.connections.clear();
+  }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  readonly gain = new FakeAudioParam(1);
+}
+
+export class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
+
+  getByteFrequencyData(array: Uint8Array) {
+    array.fill(0);
+  }
+
+  getByteTimeDomainData(array: Uint8Array) {
+    array.fill(128);
+  }
+
+  getFloatTimeDomainData(array: Float32Array) {
+    array.fill(0);
+  }
+}
+
+export class FakeAudioBuffer {
+  private readonly channels: Float32Array[];
+
+  constructor(numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get numberOfChannels() {
+    return this.channels.length;
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+export class FakeBufferSourceNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  readonly playbackRate = new FakeAudioParam(1);
+  onended: (() => void) | null = null;
+  startTime: number | null = null;
+  stopTime: number | null = null;
+  ended = false;
+
+  start(when = 0) {
+    if (this.startTime !== null) throw new Error('InvalidStateError: already started');
+    this.startTime = when;
+    this.context.sources.push(this);
+  }
+
+  stop(when = this.context.currentTime) {
+    if (this.startTime === null) throw new Error('InvalidStateError: not started');
+    this.stopTime = when;
+  }
+
+  get endTime(): number {
+    const natural = (this.startTime ?? 0) + (this.buffer?.duration ?? 0) / this.playbackRate.value;
+    return this.stopTime === null ? natural : Math.min(natural, this.stopTime);
+  }
+
+  // The gain node the source plays through, if it is connected to one
+  get gainNode(): FakeGainNode | undefined {
+    return [...this.connections].find((node): node is FakeGainNode => node instanceof FakeGainNode);
+  }
+}
+
+export class FakeMediaStreamSourceNode extends FakeAudioNode {
+  constructor(context: FakeAudioContext, readonly mediaStream: FakeMediaStream) {
+    super(context);
+  }
+}
+
+export class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+
+  readonly sampleRate: number;
+  currentTime = 0;
+  state: 'running' | 'suspended' | 'closed' = 'running';
+  outputLatency = 0;
+  readonly destination = new FakeAudioNode(this);
+  readonly audioWorklet = { modules: [] as string[], addModule: async (url: string) => { this.audioWorklet.modules.push(url); } };
+  // Every source started on this context, in start order
+  readonly sources: FakeBufferSourceNode[] = [];
+
+  constructor(options: { sampleRate?: number } = {}) {
+    this.sampleRate = options.sampleRate ?? 48000;
+    FakeAudioContext.instances.push(this);
+  }
+
+  createGain() {
+    return new FakeGainNode(this);
+  }
+
+  createAnalyser() {
+    return new FakeAnalyserNode(this);
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    return new FakeBufferSourceNode(this);
+  }
+
+  createMediaStreamSource(stream: FakeMediaStream) {
+    return new FakeMediaStreamSourceNode(this, stream);
+  }
+
+  async resume() {
+    this.state = 'running';
+  }
+
+  async suspend() {
+    this.state = 'suspended';
+  }
+
+  async close() {
+    this.state = 'closed';
+  }
+
+  /**
+   * Moves the clock on, ending every source that has finished by then.
+   */
+  advance(seconds: number) {
+    this.currentTime += seconds;
+    for (const source of this.sources) {
+      if (!source.ended && source.endTime <= this.currentTime + 1e-9) {
+        source.ended = true;
+        source.onended?.();
+      }
+    }
+  }
+}
+
+type PortListener = (event: { data: unknown }) => void;
+
+export class FakeMessagePort {
+  onmessage: PortListener | null = null;
+  private listeners = new Set<PortListener>();
+  readonly posted: unknown[] = [];
+
+  postMessage(message: unknown) {
+    this.posted.push(message);
+    // The capture worklet answers a flush once any partial chunk is out
+    if ((message as { type?: string })?.type === 'flush') {
+      queueMicrotask(() => this.dispatch({ type: 'flushed' }));
+    }
+  }
+
+  addEventListener(_type: 'message', listener: PortListener) {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: 'message', listener: PortListener) {
+    this.listeners.delete(listener);
+  }
+
+  dispatch(data: unknown) {
+    this.onmessage?.({ data });
+    this.listeners.forEach(listener => listener({ data }));
+  }
+}
+
+export class FakeAudioWorkletNode extends FakeAudioNode {
+  static instances: FakeAudioWorkletNode[] = [];
+
+  readonly port = new FakeMessagePort();
+
+  constructor(context: FakeAudioContext, readonly name: string, readonly options: unknown = {}) {
+    super(context);
+    FakeAudioWorkletNode.instances.push(this);
+  }
+
+  /**
+   * Delivers a chunk as the capture worklet would.
+   */
+  emitChunk(pcm: Int16Array, sampleRate = 16000) {
+    this.port.dispatch({ type: 'chunk', pcm: pcm.slice().buffer, sampleRate });
+  }
+}
+
+export class FakeMediaStreamTrack {
+  readyState: 'live' | 'ended' = 'live';
+  private listeners = new Map<string, Set<() => void>>();
+
+  constructor(readonly kind: 'audio' | 'video' = 'audio') {}
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  addEventListener(type: string, listener: () => void) {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  removeEventListener(type: string, listener: () => void) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  getSettings() {
+    return {};
+  }
+}
+
+export class FakeMediaStream {
+  readonly tracks = [new FakeMediaStreamTrack('audio')];
+
+  getTracks() {
+    return this.tracks;
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter(track => track.kind === 'audio');
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter(track => track.kind === 'video');
+  }
+}
+
+/**
+ * Stands in for `navigator.mediaDevices`, handing out a fresh fake stream per request.
+ */
+export function createFakeMediaDevices() {
+  const streams: FakeMediaStream[] = [];
+  return {
+    streams,
+    getUserMedia: async () => {
+      const stream = new FakeMediaStream();
+      streams.push(stream);
+      return stream;
+    },
+    enumerateDevices: async () => [],
+    addEventListener: () => {},
+    removeEventListener: () => {},
+  };
+}
+
+export function resetFakeAudio() {
+  FakeAudioContext.instances = [];
+  FakeAudioWorkletNode.instances = [];
+}
@@ -0,0 +1,91 @@
+import { LiveTool } from './registry';
+import { evaluateExpression } from './calculator';
+
+const NOTES_STORAGE_KEY = 'fahad-ai:notes';
+
+interface Note {
+  id: string;
+  text: string;
+  createdAt: string;
+}
+
+function loadNotes(): Note[] {
+  try {
+    return JSON.parse(localStorage.getItem(NOTES_STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+function saveNotes(notes: Note[]) {
+  localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
+}
+
+export const currentTimeTool: LiveTool<{ timeZone?: string }> = {
+  name: 'get_current_time',
+  description: 'Returns the current local date and time, optionally in a specific IANA time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone such as "Asia/Karachi". Defaults to the user\'s time zone.' },
+    },
+  },
+  handler: ({ timeZone }) => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      formatted: now.toLocaleString(undefined, { timeZone, dateStyle: 'full', timeStyle: 'long' }),
+      timeZone: timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+};
+
+export const calculatorTool: LiveTool<{ expression: string }> = {
+  name: 'calculate',
+  description: 'Evaluates an arithmetic expression exactly. Use for any non-trivial math instead of estimating.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Expression using + - * / % ^, parentheses, sqrt, sin, cos, tan, log, ln, abs, pi and e.' },
+    },
+    required: ['expression'],
+  },
+  handler: ({ expression }) => ({ expression, result: evaluateExpression(expression) }),
+};
+
+export const notesTool: LiveTool<{ action: 'add' | 'list' | 'delete'; text?: string; id?: string }> = {
+  name: 'notes',
+  description: 'Stores short notes for the user in this browser. Add a note, list all notes, or delete one by id.',
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['add', 'list', 'delete'] },
+      text: { type: 'string', description: 'Note text, required for "add".' },
+      id: { type: 'string', description: 'Note id, required for "delete".' },
+    },
+    required: ['action'],
+  },
+  handler: ({ action, text, id }) => {
+    const notes = loadNotes();
+    switch (action) {
+      case 'add': {
+        if (!text) throw new Error('"text" is required to add a note');
+        const note: Note = { id: Date.now().toString(36), text, createdAt: new Date().toISOString() };
+        saveNotes([...notes, note]);
+        return { added: note };
+      }
+      case 'list':
+        return { notes };
+      case 'delete': {
+        const remaining = notes.filter(note => note.id !== id);
+        if (remaining.length === notes.length) throw new Error(`No note with id "${id}"`);
+        saveNotes(remaining);
+        return { deleted: id };
+      }
+      default:
+        throw new Error(`Unknown action "${action}"`);
+    }
+  },
+};
+
+export const builtinTools: LiveTool[] = [currentTimeTool, calculatorTool, notesTool];
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './calculator';
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence and parentheses', () => {
+    expect(evaluateExpression('1 + 2 * 3')).toBe(7);
+    expect(evaluateExpression('(1 + 2) * 3')).toBe(9);
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+    expect(evaluateExpression('7 % 4')).toBe(3);
+    expect(evaluateExpression('.5 + 1.25')).toBe(1.75);
+    expect(evaluateExpression('1e3 / 4')).toBe(250);
+  });
+
+  it('binds powers to the right and tighter than unary minus', () => {
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+    expect(evaluateExpression('2 ^ -1')).toBe(0.5);
+    expect(evaluateExpression('--3')).toBe(3);
+  });
+
+  it('knows its functions and constants, in any case', () => {
+    expect(evaluateExpression('sqrt(16) + abs(-2)')).toBe(6);
+    expect(evaluateExpression('log(1000)')).toBeCloseTo(3, 12);
+    expect(evaluateExpression('ln(e)')).toBeCloseTo(1, 12);
+    expect(evaluateExpression('2 * PI')).toBeCloseTo(2 * Math.PI, 12);
+  });
+
+  it('rejects names inherited from Object.prototype', () => {
+    expect(() => evaluateExpression('constructor')).toThrow('Unexpected token "constructor"');
+    expect(() => evaluateExpression('constructor(1)')).toThrow('Unexpected token "constructor"');
+  });
+
+  it('rejects malformed input and non-finite results', () => {
+    expect(() => evaluateExpression('')).toThrow('Unexpected end of expression');
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+    expect(() => evaluateExpression('1 2')).toThrow('Unexpected token "2"');
+    expect(() => evaluateExpression('sqrt 4')).toThrow('Expected "("');
+    expect(() => evaluateExpression('1 / 0')).toThrow('Result is not a finite number');
+    expect(() => evaluateExpression('alert(1)')).toThrow('Unexpected token "alert"');
+  });
+});
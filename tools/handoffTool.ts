@@ -0,0 +1,43 @@
+import { LiveTool } from './registry';
+
+interface HandoffToolOptions {
+  // Names of the agents the call can currently be transferred to
+  getAgents: () => string[];
+  // Starts the transfer; false when it cannot happen right now
+  onHandoff: (agent: string, reason?: string) => boolean;
+}
+
+/**
+ * Lets the model transfer the caller to another persona. The transfer starts
+ * once the result has gone back to the current session, which is closed when
+ * the new agent is ready.
+ */
+export function createHandoffTool({ getAgents, onHandoff }: HandoffToolOptions): LiveTool<{ agent: string; reason?: string }> {
+  return {
+    name: 'transfer_call',
+    description:
+      'Transfers the caller to another assistant persona that is better suited to their request. ' +
+      'Tell the caller you are transferring them before calling this. Call with agent "list" to see who is available.',
+    parameters: {
+      type: 'object',
+      properties: {
+        agent: { type: 'string', description: 'Name of the persona to transfer to, or "list".' },
+        reason: { type: 'string', description: 'Short summary of what the caller needs, passed to the new agent.' },
+      },
+      required: ['agent'],
+    },
+    handler: ({ agent, reason }) => {
+      const agents = getAgents();
+      if (agent === 'list') return { agents };
+
+      const match = agents.find(name => name.toLowerCase() === agent.trim().toLowerCase());
+      if (!match) throw new Error(`No agent named "${agent}". Available: ${agents.join(', ') || 'none'}`);
+
+      // Deferred so this result reaches the current session before it is replaced
+      setTimeout(() => {
+        if (!onHandoff(match, reason)) console.warn(`Transfer to ${match} could not start`);
+      }, 0);
+      return { transferring: match };
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_TOOL_TIMEOUT_MS, LiveTool, ToolCancelledError, ToolRegistry } from './registry';
+
+const tool = (name: string, handler: LiveTool['handler'], timeoutMs?: number): LiveTool => ({
+  name,
+  description: `The ${name} tool`,
+  parameters: { type: 'object', properties: {} },
+  handler,
+  ...(timeoutMs === undefined ? {} : { timeoutMs }),
+});
+
+// Never settles on its own, only through the abort signal the registry hands it
+const hang = (): Promise<never> => new Promise(() => {});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ToolRegistry', () => {
+  it('declares its tools for the Live API and refuses duplicate names', () => {
+    const registry = new ToolRegistry([tool('echo', args => args)]);
+    expect(registry.size).toBe(1);
+    expect(registry.toFunctionDeclarations()).toEqual([{
+      name: 'echo',
+      description: 'The echo tool',
+      parametersJsonSchema: { type: 'object', properties: {} },
+    }]);
+    expect(() => registry.register(tool('echo', () => null))).toThrow('Tool "echo" is already registered');
+  });
+
+  it('runs a call and returns its output', async () => {
+    const registry = new ToolRegistry([tool('echo', args => ({ got: args.value }))]);
+    await expect(registry.execute({ id: '1', name: 'echo', args: { value: 42 } }))
+      .resolves.toEqual({ id: '1', name: 'echo', response: { output: { got: 42 } } });
+  });
+
+  it('reports unknown tools and handler failures to the model', async () => {
+    const registry = new ToolRegistry([tool('broken', () => { throw new Error('no luck'); })]);
+    await expect(registry.execute({ id: '1', name: 'missing' }))
+      .resolves.toEqual({ id: '1', name: 'missing', response: { error: 'Unknown tool "missing"' } });
+    await expect(registry.execute({ id: '2', name: 'broken' }))
+      .resolves.toEqual({ id: '2', name: 'broken', response: { error: 'no luck' } });
+  });
+
+  it('times calls out, using the default unless the tool sets its own', async () => {
+    const signals: AbortSignal[] = [];
+    const registry = new ToolRegistry([
+      tool('slow', (_, { signal }) => { signals.push(signal); return hang(); }),
+      tool('quick', hang, 50),
+    ]);
+
+    const slow = registry.execute({ id: '1', name: 'slow' });
+    const quick = registry.execute({ id: '2', name: 'quick' });
+    await vi.advanceTimersByTimeAsync(50);
+    await expect(quick).resolves.toEqual({
+      id: '2', name: 'quick', response: { error: 'Tool call "quick" timed out after 50ms' },
+    });
+
+    await vi.advanceTimersByTimeAsync(DEFAULT_TOOL_TIMEOUT_MS - 50);
+    await expect(slow).resolves.toEqual({
+      id: '1', name: 'slow', response: { error: `Tool call "slow" timed out after ${DEFAULT_TOOL_TIMEOUT_MS}ms` },
+    });
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('rejects cancelled calls so their result is never sent', async () => {
+    const signals: AbortSignal[] = [];
+    const registry = new ToolRegistry([tool('slow', (_, { signal }) => { signals.push(signal); return hang(); })]);
+
+    const first = registry.execute({ id: '1', name: 'slow' });
+    const second = registry.execute({ id: '2', name: 'slow' });
+    const third = registry.execute({ id: '3', name: 'slow' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    registry.cancel(['1']);
+    await expect(first).rejects.toBeInstanceOf(ToolCancelledError);
+    expect(signals.map(signal => signal.aborted)).toEqual([true, false, false]);
+
+    registry.cancelAll();
+    await expect(second).rejects.toThrow('Tool call "slow" was cancelled');
+    await expect(third).rejects.toBeInstanceOf(ToolCancelledError);
+  });
+});
@@ -0,0 +1,119 @@
+import type { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+export interface ToolContext {
+  // Aborted when the call times out or the server cancels it
+  signal: AbortSignal;
+}
+
+/**
+ * A locally executed function the model can call during a live session.
+ */
+export interface LiveTool<Args extends Record<string, unknown> = Record<string, unknown>> {
+  name: string;
+  description: string;
+  // JSON schema describing the arguments object
+  parameters: Record<string, unknown>;
+  handler: (args: Args, context: ToolContext) => Promise<unknown> | unknown;
+  timeoutMs?: number;
+}
+
+export class ToolCancelledError extends Error {
+  constructor(name: string) {
+    super(`Tool call "${name}" was cancelled`);
+    this.name = 'ToolCancelledError';
+  }
+}
+
+export class ToolTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`Tool call "${name}" timed out after ${timeoutMs}ms`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+/**
+ * Holds the tools available to a session, turns them into function
+ * declarations for the Live API, and runs incoming calls with a timeout.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, LiveTool>();
+  private inFlight = new Map<string, { name: string; controller: AbortController }>();
+
+  constructor(tools: LiveTool[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  register(tool: LiveTool) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): LiveTool | undefined {
+    return this.tools.get(name);
+  }
+
+  toFunctionDeclarations(): FunctionDeclaration[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parametersJsonSchema: tool.parameters,
+    }));
+  }
+
+  /**
+   * Runs a function call and always resolves to a response to send back;
+   * failures are reported to the model as an `error` field.
+   * Rejects only with ToolCancelledError, whose result must not be sent.
+   */
+  async execute(call: FunctionCall): Promise<FunctionResponse> {
+    const id = call.id ?? '';
+    const name = call.name ?? '';
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { id, name, response: { error: `Unknown tool "${name}"` } };
+    }
+
+    const controller = new AbortController();
+    this.inFlight.set(id, { name, controller });
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const timer = setTimeout(() => controller.abort(new ToolTimeoutError(name, timeoutMs)), timeoutMs);
+
+    try {
+      const output = await Promise.race([
+        Promise.resolve().then(() => tool.handler(call.args ?? {}, { signal: controller.signal })),
+        new Promise<never>((_, reject) => {
+          controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
+        }),
+      ]);
+      return { id, name, response: { output } };
+    } catch (err) {
+      if (err instanceof ToolCancelledError) throw err;
+      return { id, name, response: { error: err instanceof Error ? err.message : String(err) } };
+    } finally {
+      clearTimeout(timer);
+      this.inFlight.delete(id);
+    }
+  }
+
+  cancel(ids: string[]) {
+    ids.forEach(id => {
+      const call = this.inFlight.get(id);
+      if (call) {
+        call.controller.abort(new ToolCancelledError(call.name));
+        this.inFlight.delete(id);
+      }
+    });
+  }
+
+  cancelAll() {
+    this.cancel(Array.from(this.inFlight.keys()));
+  }
+}
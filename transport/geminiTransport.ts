@@ -0,0 +1,60 @@
+import { GoogleGenAI } from '@google/genai';
+import { fetchLiveToken } from '../utils/auth';
+import { LiveTransport } from './types';
+
+export interface GeminiTransportOptions {
+  // Token broker URL; each session is opened with a fresh ephemeral token from it
+  tokenEndpoint?: string;
+  // Direct API key, only for trusted environments since it is exposed to the page
+  apiKey?: string;
+}
+
+/**
+ * Talks to the Gemini Live API through `@google/genai`.
+ */
+export function createGeminiTransport(options: GeminiTransportOptions): LiveTransport {
+  const { tokenEndpoint, apiKey } = options;
+
+  // Create a new client for each connection to ensure fresh state (and a fresh token)
+  const createClient = async (model: string) => {
+    if (tokenEndpoint) {
+      const { token } = await fetchLiveToken(tokenEndpoint, model);
+      // Ephemeral tokens are only accepted by the v1alpha API
+      return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+    }
+    if (apiKey) {
+      return new GoogleGenAI({ apiKey });
+    }
+    throw new Error("No token endpoint or API key configured.");
+  };
+
+  return {
+    async connect({ model, config, callbacks }) {
+      const ai = await createClient(model);
+      const session = await ai.live.connect({
+        model,
+        config,
+        callbacks: {
+          onopen: callbacks.onopen,
+          onmessage: callbacks.onmessage,
+          onclose: (e: CloseEvent) => callbacks.onclose({ code: e.code, reason: e.reason }),
+          onerror: (e: ErrorEvent) => callbacks.onerror(e.error ?? e),
+        },
+      });
+
+      return {
+        sendAudio: audio => session.sendRealtimeInput({ media: audio }),
+        sendVideo: frame => session.sendRealtimeInput({ video: frame }),
+        sendActivity: signal => session.sendRealtimeInput(
+          signal === 'audioStreamEnd' ? { audioStreamEnd: true } : { [signal]: {} }
+        ),
+        sendText: text => session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text }] }],
+          turnComplete: true,
+        }),
+        sendToolResponse: responses => session.sendToolResponse({ functionResponses: responses }),
+        close: () => session.close(),
+      };
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import type { Blob, FunctionResponse, LiveConnectConfig, LiveServerMessage } from '@google/genai';
+
+export interface LiveCloseInfo {
+  code: number;
+  reason: string;
+}
+
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onclose: (info: LiveCloseInfo) => void;
+  onerror: (error: unknown) => void;
+}
+
+export interface LiveTransportConnectParams {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveTransportCallbacks;
+}
+
+// Realtime signals that carry no payload
+export type LiveActivitySignal = 'activityStart' | 'activityEnd' | 'audioStreamEnd';
+
+/**
+ * One open conversation. Sends are fire-and-forget; failures surface through
+ * the connect callbacks rather than as exceptions.
+ */
+export interface LiveTransportSession {
+  sendAudio: (audio: Blob) => void;
+  // One encoded image frame from the camera or a shared screen
+  sendVideo: (frame: Blob) => void;
+  sendActivity: (signal: LiveActivitySignal) => void;
+  // Sends a complete user turn as text, bypassing audio
+  sendText: (text: string) => void;
+  sendToolResponse: (responses: FunctionResponse[]) => void;
+  close: () => void;
+}
+
+/**
+ * Opens Live sessions. The hook only talks to the model through this, so a
+ * mock server can stand in for Gemini.
+ */
+export interface LiveTransport {
+  connect: (params: LiveTransportConnectParams) => Promise<LiveTransportSession>;
+}
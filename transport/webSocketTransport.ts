@@ -0,0 +1,74 @@
+import { LiveServerMessage } from '@google/genai';
+import { LiveTransport } from './types';
+
+/**
+ * Messages a client sends to the mock server, shaped like the Live API's
+ * own client messages but without the SDK's wire-format conversion.
+ */
+export type MockClientMessage =
+  | { setup: { model: string; config: unknown } }
+  | { realtimeInput: Record<string, unknown> }
+  | { clientContent: { turns: unknown[]; turnComplete: boolean } }
+  | { toolResponse: { functionResponses: unknown[] } };
+
+/**
+ * Talks to a WebSocket server speaking plain JSON `LiveServerMessage`s,
+ * such as the mock server in `server/mockLiveServer.ts`.
+ */
+export function createWebSocketTransport(url: string): LiveTransport {
+  return {
+    connect({ model, config, callbacks }) {
+      return new Promise((resolve, reject) => {
+        const socket = new WebSocket(url);
+        let opened = false;
+
+        const send = (message: MockClientMessage) => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(message));
+          }
+        };
+
+        socket.onopen = () => {
+          opened = true;
+          send({ setup: { model, config } });
+          callbacks.onopen();
+          resolve({
+            sendAudio: audio => send({ realtimeInput: { audio } }),
+            sendVideo: frame => send({ realtimeInput: { video: frame } }),
+            sendActivity: signal => send({ realtimeInput: { [signal]: signal === 'audioStreamEnd' ? true : {} } }),
+            sendText: text => send({
+              clientContent: { turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true },
+            }),
+            sendToolResponse: responses => send({ toolResponse: { functionResponses: responses } }),
+            close: () => socket.close(1000),
+          });
+        };
+
+        socket.onmessage = event => {
+          try {
+            // Rebuild the SDK class so getters like `data` and `text` keep working
+            callbacks.onmessage(Object.assign(new LiveServerMessage(), JSON.parse(event.data)));
+          } catch (err) {
+            console.error("Unreadable message from mock server", err);
+          }
+        };
+
+        socket.onerror = () => {
+          if (!opened) {
+            reject(new Error(`Could not connect to ${url}`));
+            return;
+          }
+          callbacks.onerror(new Error("WebSocket error"));
+        };
+
+        socket.onclose = event => {
+          if (!opened) {
+            reject(new Error(event.reason || `Could not connect to ${url}`));
+            return;
+          }
+          callbacks.onclose({ code: event.code, reason: event.reason });
+        };
+      });
+    },
+  };
+}
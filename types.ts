@@ -0,0 +1,234 @@
+export type Speaker = 'user' | 'model';
+
+// Whether a turn was spoken (and transcribed) or typed/streamed as text
+export type TranscriptSource = 'voice' | 'text';
+
+/**
+ * A single turn in the live conversation, built up from the streaming
+ * input/output audio transcriptions.
+ */
+export interface TranscriptEntry {
+  id: string;
+  speaker: Speaker;
+  text: string;
+  startedAt: number;
+  // null while the turn is still being spoken
+  endedAt: number | null;
+  interrupted: boolean;
+  source: TranscriptSource;
+}
+
+export type ToolCallStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A function call the model made during the session, tracked for display.
+ */
+export interface ToolActivity {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  result?: unknown;
+  error?: string;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+/**
+ * Everything that shapes a live session's assistant, chosen before connecting.
+ */
+export interface LiveSettings {
+  model: string;
+  voice: string;
+  // BCP-47 code, or empty to let the model detect the language
+  language: string;
+  systemPrompt: string;
+  temperature: number;
+}
+
+/**
+ * A named, reusable set of settings.
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  settings: LiveSettings;
+  // Built-in personas can be edited but not deleted
+  builtIn?: boolean;
+}
+
+// How microphone audio reaches the session: continuously, or only while a key/button is held
+export type InputMode = 'open' | 'push-to-talk';
+
+// What the model answers with; 'audio' replies also come with a transcription
+export type ResponseMode = 'audio' | 'text';
+
+/**
+ * Client-side voice activity gate applied before audio is uploaded.
+ */
+export interface NoiseGateSettings {
+  enabled: boolean;
+  // 0 (strict) to 1 (lets quieter speech through)
+  sensitivity: number;
+}
+
+// How the model's own voice is kept out of the microphone while it plays through speakers:
+// 'duck' attenuates captured audio, 'suppress' drops audio that matches what is playing
+export type EchoHandling = 'off' | 'duck' | 'suppress';
+
+/**
+ * When the user may talk over the model, applied on the client before audio is uploaded.
+ */
+export interface BargeInSettings {
+  interruptionsAllowed: boolean;
+  echoHandling: EchoHandling;
+  // Speech needed while the model is talking before it is passed on as an interruption
+  minSpeechMs: number;
+}
+
+export type SessionEventType =
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnected'
+  | 'interrupted'
+  | 'turn_complete'
+  | 'tool_call'
+  | 'text_input'
+  | 'handoff'
+  | 'barge_in'
+  | 'error';
+
+/**
+ * Timestamped entry in a recorded session's log.
+ */
+export interface SessionEvent {
+  type: SessionEventType;
+  // Milliseconds since the recording started
+  t: number;
+  detail?: string;
+}
+
+/**
+ * Microphone/speaker choice and capture processing, applied live during a call.
+ */
+export interface AudioDeviceSettings {
+  // Empty string means the system default
+  inputDeviceId: string;
+  outputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export type VideoSource = 'camera' | 'screen';
+
+/**
+ * How camera/screen frames are sampled and encoded before being sent, applied live during a call.
+ */
+export interface VideoSettings {
+  // Frames per second sent to the session
+  frameRate: number;
+  // Frames are scaled down to this width, keeping their aspect ratio
+  maxWidth: number;
+  // JPEG quality between 0 and 1
+  jpegQuality: number;
+}
+
+export interface LatencyStats {
+  lastMs: number | null;
+  averageMs: number | null;
+  minMs: number | null;
+  maxMs: number | null;
+  // Most recent samples, oldest first
+  samples: number[];
+}
+
+export interface TokenUsage {
+  prompt: number;
+  response: number;
+  total: number;
+}
+
+/**
+ * Performance and usage counters for one call, cumulative across reconnects.
+ */
+export interface SessionMetrics {
+  model: string | null;
+  startedAt: string | null;
+  // End of the user's speech (or a sent message) to the first model audio of the reply
+  responseLatency: LatencyStats;
+  // Smoothed lateness of model audio chunks, from the playback jitter buffer
+  jitterMs: number;
+  playbackUnderruns: number;
+  // Decoded media and text payloads; protocol framing is not counted
+  bytesSent: number;
+  bytesReceived: number;
+  modelTurns: number;
+  interruptions: number;
+  reconnects: number;
+  tokens: TokenUsage;
+}
+
+/**
+ * A finished (or in-progress) call as kept in the conversation history.
+ */
+export interface ConversationRecord {
+  id: string;
+  title: string;
+  personaId: string;
+  personaName: string;
+  model: string;
+  // Epoch milliseconds
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  transcript: TranscriptEntry[];
+  toolActivity: ToolActivity[];
+}
+
+export type VisualizerMode = 'circle' | 'bars' | 'waveform' | 'spectrogram' | 'dual-ring';
+
+/**
+ * Colours the visualizer draws with, as #rrggbb hex.
+ */
+export interface VisualizerTheme {
+  // The model's audio, and the only colour single-source modes use
+  output: string;
+  // The user's microphone, where a mode shows both sides
+  input: string;
+  // Resting outlines and the idle state
+  track: string;
+  // A soft glow around the bars; costs a little more to draw
+  glow: boolean;
+}
+
+export interface VisualizerSettings {
+  mode: VisualizerMode;
+  // Key into VISUALIZER_THEMES
+  theme: string;
+}
+
+/**
+ * Hands-free standby: listen locally for a wake phrase between calls.
+ */
+export interface WakeWordSettings {
+  enabled: boolean;
+  // What the user says, for display; matching uses the recorded samples
+  phrase: string;
+  // 0 (strict) to 1 (wakes on looser matches)
+  sensitivity: number;
+  // Hang up a call the wake phrase started after this long with nothing said or typed; 0 keeps it open
+  idleTimeoutSec: number;
+}
+
+/**
+ * Live interpreter: instead of answering, the assistant translates each turn
+ * into the other of two languages.
+ */
+export interface InterpreterSettings {
+  enabled: boolean;
+  // BCP-47 codes from AVAILABLE_LANGUAGES; the two must differ
+  firstLanguage: string;
+  secondLanguage: string;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { SincResampler, encodeWav, resample } from './audio';
+
+function tone(frequency: number, sampleRate: number, seconds: number): Float32Array {
+  const out = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < out.length; i++) out[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  return out;
+}
+
+// Frequency from the spacing of rising zero crossings, interpolated between samples
+function measureFrequency(signal: Float32Array, sampleRate: number): number {
+  const crossings: number[] = [];
+  for (let i = 1; i < signal.length; i++) {
+    if (signal[i - 1] < 0 && signal[i] >= 0) {
+      crossings.push(i - 1 + signal[i - 1] / (signal[i - 1] - signal[i]));
+    }
+  }
+  const periods = crossings.length - 1;
+  return (periods * sampleRate) / (crossings[crossings.length - 1] - crossings[0]);
+}
+
+function rms(signal: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < signal.length; i++) sum += signal[i] * signal[i];
+  return Math.sqrt(sum / signal.length);
+}
+
+// Skip the kernel's ramp in and out at the edges
+const steady = (signal: Float32Array) => signal.subarray(200, signal.length - 200);
+
+describe('resample', () => {
+  it.each([44100, 48000, 22050, 8000])('keeps a 1 kHz tone at 1 kHz from %i Hz to 16 kHz', inputRate => {
+    const out = resample(tone(1000, inputRate, 0.5), inputRate, 16000);
+    expect(out.length).toBe(8000);
+    expect(measureFrequency(steady(out), 16000)).toBeCloseTo(1000, 0);
+    expect(rms(steady(out))).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+
+  it('suppresses tones above the output Nyquist instead of aliasing them', () => {
+    const out = resample(tone(10000, 48000, 0.5), 48000, 16000);
+    // A 10 kHz tone would fold back to 6 kHz at full level without the low-pass
+    expect(rms(steady(out))).toBeLessThan(0.001);
+  });
+
+  it('returns a copy when the rates match', () => {
+    const input = tone(1000, 16000, 0.1);
+    const out = resample(input, 16000, 16000);
+    expect(out).toEqual(input);
+    expect(out).not.toBe(input);
+  });
+});
+
+describe('SincResampler', () => {
+  it.each([44100, 48000])('streams %i Hz in 128-sample blocks like a one-shot conversion', inputRate => {
+    const input = tone(440, inputRate, 0.5);
+    const resampler = new SincResampler(inputRate, 16000);
+    const blocks: Float32Array[] = [];
+    for (let offset = 0; offset < input.length; offset += 128) {
+      blocks.push(resampler.process(input.subarray(offset, offset + 128)));
+    }
+    const streamed = new Float32Array(blocks.reduce((total, block) => total + block.length, 0));
+    blocks.reduce((offset, block) => (streamed.set(block, offset), offset + block.length), 0);
+
+    const oneShot = resample(input, inputRate, 16000);
+    // Streaming holds back the kernel's look-ahead, so it ends slightly early
+    expect(oneShot.length - streamed.length).toBeLessThanOrEqual(resampler.halfWidth);
+    let maxError = 0;
+    for (let i = 0; i < streamed.length; i++) maxError = Math.max(maxError, Math.abs(streamed[i] - oneShot[i]));
+    expect(maxError).toBeLessThan(1e-4);
+  });
+
+  it('starts over from silence after reset', () => {
+    const resampler = new SincResampler(48000, 16000);
+    const input = tone(1000, 48000, 0.05);
+    const first = resampler.process(input);
+    resampler.reset();
+    expect(resampler.process(input)).toEqual(first);
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a 16-bit PCM header for the channels and rate', () => {
+    const view = new DataView(encodeWav([new Float32Array(10), new Float32Array(10)], 24000));
+    const text = (offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+    expect(view.byteLength).toBe(44 + 10 * 2 * 2);
+    expect(text(0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 40);
+    expect(text(8)).toBe('WAVE');
+    expect(text(12)).toBe('fmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(24000 * 2 * 2);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(40);
+  });
+
+  it('interleaves channels, pads the shorter one and clips out of range samples', () => {
+    const view = new DataView(encodeWav([Float32Array.of(0.5, -0.5, 2), Float32Array.of(-2)], 8000));
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([16383, -32768, -16384, 0, 32767, 0]);
+  });
+});
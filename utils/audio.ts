@@ -1,8 +1,24 @@
-import { Blob } from '@google/genai';
+import type { Blob } from '@google/genai';
 
 export const PCM_SAMPLE_RATE_INPUT = 16000;
 export const PCM_SAMPLE_RATE_OUTPUT = 24000;
 
+// Name the capture worklet registers under, shared by both sides of the port
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture';
+export const DEFAULT_CAPTURE_CHUNK_MS = 100;
+
+export interface PcmCaptureOptions {
+  // Length of each posted chunk in milliseconds
+  chunkDurationMs: number;
+  // Rate the captured audio is resampled to before conversion
+  targetSampleRate: number;
+}
+
+export type PcmCaptureMessage =
+  | { type: 'chunk'; pcm: ArrayBuffer; sampleRate: number }
+  // Acknowledges a flush request once any partial chunk has been posted
+  | { type: 'flushed' };
+
 /**
  * Converts a base64 string to a Uint8Array.
  */
@@ -20,51 +36,203 @@ export function decodeBase64(base64: string): Uint8Array {
  * Encodes a Uint8Array to a base64 string.
  */
 export function encodeBase64(bytes: Uint8Array): string {
+  // Convert in slices rather than per byte to keep string building cheap
+  const CHUNK = 0x8000;
   let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  for (let i = 0; i < bytes.byteLength; i += CHUNK) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + CHUNK) as unknown as number[]);
   }
   return btoa(binary);
 }
 
 /**
- * Decodes raw PCM audio data into an AudioBuffer.
+ * Converts little-endian 16-bit PCM bytes to Float32 samples in [-1.0, 1.0].
  */
-export async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      // Convert Int16 to Float32 [-1.0, 1.0]
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
+export function pcm16ToFloat32(data: Uint8Array): Float32Array {
+  const int16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const out = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    out[i] = int16[i] / 32768.0;
   }
-  return buffer;
+  return out;
 }
 
 /**
- * Creates a formatted Blob compatible with the Gemini Live API from raw Float32 input.
- * Converts Float32 (Web Audio API standard) to Int16 (Gemini API standard).
+ * Converts Float32 samples (Web Audio API standard) to Int16 (Gemini API standard).
+ * Safe to call from an AudioWorklet, it only touches typed arrays.
  */
-export function createPcmBlob(data: Float32Array): Blob {
+export function float32ToInt16(data: Float32Array, out: Int16Array = new Int16Array(data.length)): Int16Array {
   const l = data.length;
-  const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
     // Clamp values to [-1, 1] to prevent wrapping and distortion
     const clamped = Math.max(-1, Math.min(1, data[i]));
-    int16[i] = clamped * 32768;
+    out[i] = clamped < 0 ? clamped * 32768 : clamped * 32767;
   }
+  return out;
+}
+
+/**
+ * Wraps already converted Int16 PCM in a Blob compatible with the Gemini Live API.
+ */
+export function createPcmBlobFromInt16(int16: Int16Array, sampleRate: number = PCM_SAMPLE_RATE_INPUT): Blob {
   return {
-    data: encodeBase64(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encodeBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+/**
+ * Creates a formatted Blob compatible with the Gemini Live API from raw Float32 input.
+ */
+export function createPcmBlob(data: Float32Array, sampleRate: number = PCM_SAMPLE_RATE_INPUT): Blob {
+  return createPcmBlobFromInt16(float32ToInt16(data), sampleRate);
+}
+
+// Kernel lookup resolution, in table entries per input sample
+const SINC_TABLE_RESOLUTION = 512;
+
+/**
+ * Streaming windowed-sinc (Blackman) resampler. Keeps enough history between
+ * calls that consecutive chunks resample as one continuous signal.
+ * Safe to use from an AudioWorklet.
+ */
+export class SincResampler {
+  readonly ratio: number;
+  private readonly cutoff: number;
+  // Kernel half-width in input samples, which is also the look-ahead latency
+  readonly halfWidth: number;
+  private readonly kernel: Float32Array;
+  private history: Float32Array;
+  private time: number;
+
+  constructor(
+    readonly inputRate: number,
+    readonly outputRate: number,
+    zeroCrossings = 16,
+  ) {
+    this.ratio = inputRate / outputRate;
+    // Pull the cutoff slightly under Nyquist of the lower rate to leave room for the transition band
+    this.cutoff = Math.min(1, outputRate / inputRate) * 0.95;
+    this.halfWidth = Math.ceil(zeroCrossings / this.cutoff);
+
+    const size = this.halfWidth * SINC_TABLE_RESOLUTION + 2;
+    this.kernel = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const x = i / SINC_TABLE_RESOLUTION;
+      const w = Math.min(1, x / this.halfWidth);
+      const window = 0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w);
+      const u = Math.PI * this.cutoff * x;
+      this.kernel[i] = this.cutoff * (u === 0 ? 1 : Math.sin(u) / u) * window;
+    }
+
+    // Leading zeros so the first output sample lines up with the first input sample
+    this.history = new Float32Array(this.halfWidth);
+    this.time = this.halfWidth;
+  }
+
+  private tap(distance: number): number {
+    const pos = Math.abs(distance) * SINC_TABLE_RESOLUTION;
+    const index = Math.floor(pos);
+    const frac = pos - index;
+    return this.kernel[index] + (this.kernel[index + 1] - this.kernel[index]) * frac;
+  }
+
+  /**
+   * Resamples the next block of input. Output length varies slightly between
+   * calls depending on the fractional read position.
+   */
+  process(input: Float32Array): Float32Array {
+    if (this.inputRate === this.outputRate) {
+      return input.slice();
+    }
+
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    const out = new Float32Array(Math.ceil(buffer.length / this.ratio) + 1);
+    const h = this.halfWidth;
+    let count = 0;
+    let t = this.time;
+
+    while (t + h < buffer.length) {
+      const center = Math.floor(t);
+      let sum = 0;
+      for (let k = center - h + 1; k <= center + h; k++) {
+        sum += buffer[k] * this.tap(t - k);
+      }
+      out[count++] = sum;
+      t += this.ratio;
+    }
+
+    // Keep only the history the next call's kernel can still reach
+    const keep = Math.floor(t) - h;
+    this.history = buffer.slice(keep);
+    this.time = t - keep;
+
+    return out.subarray(0, count);
+  }
+
+  reset() {
+    this.history = new Float32Array(this.halfWidth);
+    this.time = this.halfWidth;
+  }
+}
+
+/**
+ * One-shot resample of a complete signal.
+ */
+export function resample(input: Float32Array, inputRate: number, outputRate: number): Float32Array {
+  if (inputRate === outputRate) return input.slice();
+  const resampler = new SincResampler(inputRate, outputRate);
+  // Flush the kernel's look-ahead with trailing silence, then trim to the expected length
+  const expected = Math.round((input.length * outputRate) / inputRate);
+  const head = resampler.process(input);
+  const tail = resampler.process(new Float32Array(resampler.halfWidth + Math.ceil(resampler.ratio)));
+  const out = new Float32Array(expected);
+  out.set(head.subarray(0, expected));
+  if (head.length < expected) {
+    out.set(tail.subarray(0, expected - head.length), head.length);
+  }
+  return out;
+}
+/**
+ * Encodes planar Float32 channels as a 16-bit PCM WAV file.
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const numChannels = channels.length;
+  const frameCount = channels.reduce((max, channel) => Math.max(max, channel.length), 0);
+  const bytesPerSample = 2;
+  const dataSize = frameCount * numChannels * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
   };
-}
\ No newline at end of file
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // Interleave channels, padding shorter ones with silence
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][i] ?? 0));
+      view.setInt16(offset, sample < 0 ? sample * 32768 : sample * 32767, true);
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+}
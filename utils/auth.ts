@@ -0,0 +1,41 @@
+import type { TokenResponse } from '../server/tokenBroker';
+
+export class TokenRequestError extends Error {
+  // status is 0 when the request never got a response; code is set by the broker for upstream failures
+  constructor(message: string, readonly status: number, readonly code?: string) {
+    super(message);
+    this.name = 'TokenRequestError';
+  }
+}
+
+/**
+ * Asks the token broker for a short-lived token that can open one Live session.
+ */
+export async function fetchLiveToken(endpoint: string, model: string, signal?: AbortSignal): Promise<TokenResponse> {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model }),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new TokenRequestError('Could not reach the token server', 0);
+  }
+
+  if (!response.ok) {
+    let message = `Token request failed (${response.status})`;
+    let code: string | undefined;
+    try {
+      const body = await response.json();
+      if (body?.error) message = body.error;
+      code = body?.code;
+    } catch {
+      // Keep the status based message
+    }
+    throw new TokenRequestError(message, response.status, code);
+  }
+  return response.json();
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { BargeInController } from './bargeIn';
+import { BargeInSettings } from '../types';
+
+const RATE = 16000;
+const CHUNK_MS = 100;
+const ECHO_TAIL_MS = 300;
+const MIN_SPEECH_MS = 300;
+
+const SETTINGS: BargeInSettings = { interruptionsAllowed: true, echoHandling: 'suppress', minSpeechMs: MIN_SPEECH_MS };
+
+// A 100ms microphone chunk at a steady level
+const chunk = (level: number) => new Int16Array((RATE * CHUNK_MS) / 1000).fill(Math.round(level * 32767));
+
+// The model talks at a steady level from 0 until `untilMs`
+function createController(settings: Partial<BargeInSettings> = {}, untilMs = 2000) {
+  const controller = new BargeInController({ ...SETTINGS, ...settings }, { sampleRate: RATE, echoTailMs: ECHO_TAIL_MS });
+  controller.addReference(new Float32Array((24000 * untilMs) / 1000).fill(0.3), 24000, 0);
+  return controller;
+}
+
+// Feeds chunks captured back to back, the first one ending at `endMs`
+function feed(controller: BargeInController, chunks: { pcm: Int16Array; speech: boolean }[], endMs: number) {
+  return chunks.map(({ pcm, speech }, i) => controller.process(pcm, speech, endMs + i * CHUNK_MS));
+}
+
+const echo = () => ({ pcm: chunk(0.1), speech: true });
+const voice = () => ({ pcm: chunk(0.9), speech: true });
+const quiet = () => ({ pcm: chunk(0.9), speech: false });
+
+describe('BargeInController', () => {
+  it('suppresses the model echo even when it sounds like speech', () => {
+    const controller = createController();
+    const results = feed(controller, Array.from({ length: 15 }, echo), 100);
+    expect(results.every(result => result.send.length === 0 && !result.bargedIn)).toBe(true);
+
+    // Once the echo tail has passed nothing held back from it is sent
+    const after = chunk(0.05);
+    expect(controller.process(after, false, 2400)).toEqual({ send: [after], bargedIn: false });
+  });
+
+  it('lets speech through as an interruption once it has lasted minSpeechMs', () => {
+    const controller = createController();
+    feed(controller, [echo(), echo()], 100);
+    const speech = [voice(), voice(), voice()];
+    const results = feed(controller, speech, 300);
+
+    expect(results.slice(0, 2).map(result => result.send)).toEqual([[], []]);
+    expect(results[2].bargedIn).toBe(true);
+    // The whole run goes out at once, oldest first
+    expect(results[2].send.slice(-3)).toEqual(speech.map(({ pcm }) => pcm));
+
+    // The user keeps the floor for as long as the model is audible
+    const next = chunk(0.9);
+    expect(controller.process(next, true, 600)).toEqual({ send: [next], bargedIn: false });
+  });
+
+  it('keeps the start of the speech across a pause and sends it with the interruption', () => {
+    const controller = createController();
+    // The gate's pre-roll arrives marked as not speech, and the user pauses after their first word
+    const speech = [quiet(), voice(), quiet(), voice(), voice(), voice()];
+    const results = feed(controller, speech, 100);
+
+    expect(results.slice(0, 5).every(result => result.send.length === 0 && !result.bargedIn)).toBe(true);
+    expect(results[5]).toEqual({ send: speech.map(({ pcm }) => pcm), bargedIn: true });
+  });
+
+  it('never lets the user interrupt when interruptions are switched off', () => {
+    const controller = createController({ interruptionsAllowed: false });
+    const results = feed(controller, Array.from({ length: 15 }, voice), 100);
+    expect(results.every(result => result.send.length === 0 && !result.bargedIn)).toBe(true);
+  });
+
+  it('ducks audio that is not an interruption once it is too old to start one', () => {
+    const controller = createController({ echoHandling: 'duck' });
+    const results = feed(controller, Array.from({ length: 8 }, quiet), 100);
+
+    // minSpeechMs plus the pre-roll stays held, anything older goes out quieter
+    expect(results.slice(0, 6).every(result => result.send.length === 0)).toBe(true);
+    expect(results[6].send).toHaveLength(1);
+    expect(results[6].send[0][0]).toBe(Math.round(chunk(0.9)[0] * controller.options.duckGain));
+  });
+
+  it('keeps loud echo from interrupting in duck mode and sends it ducked', () => {
+    const controller = createController({ echoHandling: 'duck' });
+    // As loud as the playback itself, and taken for speech by the VAD
+    const loudEcho = () => ({ pcm: chunk(0.3), speech: true });
+    const results = feed(controller, Array.from({ length: 15 }, loudEcho), 100);
+
+    expect(results.some(result => result.bargedIn)).toBe(false);
+    const sent = results.flatMap(result => result.send);
+    expect(sent).toHaveLength(9);
+    expect(sent.every(pcm => pcm[0] === Math.round(chunk(0.3)[0] * controller.options.duckGain))).toBe(true);
+  });
+
+  it('ducks the audio it held back when the user interrupts in duck mode', () => {
+    const controller = createController({ echoHandling: 'duck' });
+    feed(controller, [echo(), echo()], 100);
+    const results = feed(controller, [voice(), voice(), voice()], 300);
+
+    expect(results[2].bargedIn).toBe(true);
+    const ducked = (pcm: Int16Array) => pcm.map(sample => Math.round(sample * controller.options.duckGain));
+    expect(results[2].send).toEqual([echo(), echo(), voice(), voice(), voice()].map(({ pcm }) => ducked(pcm)));
+  });
+
+  it('starts each model turn over once the echo tail has passed', () => {
+    const controller = createController();
+    const results = feed(controller, [voice(), voice(), voice()], 100);
+    expect(results[2].bargedIn).toBe(true);
+
+    // Speech after the tail is the user's own turn and goes straight out
+    const turn = chunk(0.9);
+    expect(controller.process(turn, true, 2400)).toEqual({ send: [turn], bargedIn: false });
+
+    // The model talks again, and the user has to hold the floor for minSpeechMs once more
+    controller.addReference(new Float32Array(24000).fill(0.3), 24000, 3000);
+    const again = feed(controller, [voice(), voice(), voice()], 3100);
+    expect(again.map(result => result.bargedIn)).toEqual([false, false, true]);
+    expect(again[0].send).toEqual([]);
+  });
+
+  it('sends speech still held back when the model finishes, with only its pre-roll before it', () => {
+    const controller = createController({}, 1000);
+    feed(controller, Array.from({ length: 11 }, echo), 100);
+    const speech = voice();
+    expect(feed(controller, [speech], 1200)[0].send).toEqual([]);
+
+    const next = chunk(0.9);
+    const { send, bargedIn } = controller.process(next, true, 1400);
+    expect(bargedIn).toBe(false);
+    // preRollMs of the echo, then the speech
+    expect(send).toHaveLength(controller.options.preRollMs / CHUNK_MS + 2);
+    expect(send.slice(-2)).toEqual([speech.pcm, next]);
+  });
+});
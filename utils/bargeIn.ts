@@ -0,0 +1,233 @@
+import { BargeInSettings } from '../types';
+import { PCM_SAMPLE_RATE_INPUT } from './audio';
+
+export interface BargeInOptions {
+  // Sample rate of the captured audio
+  sampleRate: number;
+  // Resolution of the playback level timeline
+  referenceFrameMs: number;
+  // How long played audio can still be heard in the microphone: output latency plus room reverb
+  echoTailMs: number;
+  // Gain applied to captured audio in 'duck' mode while the model is audible
+  duckGain: number;
+  // How much louder than the predicted echo the microphone must be to count as the user, unless echo handling is off
+  suppressMarginDb: number;
+  // Audio from just before the user's speech that is sent along with it, like the VAD gate's pre-roll
+  preRollMs: number;
+}
+
+export const DEFAULT_BARGE_IN_OPTIONS: BargeInOptions = {
+  sampleRate: PCM_SAMPLE_RATE_INPUT,
+  referenceFrameMs: 20,
+  echoTailMs: 300,
+  duckGain: 0.125,
+  suppressMarginDb: 6,
+  preRollMs: 300,
+};
+
+export interface BargeInResult {
+  // Chunks to upload now, oldest first
+  send: Int16Array[];
+  // True on the chunk where the user's speech is let through to interrupt the model
+  bargedIn: boolean;
+}
+
+interface ReferenceFrame {
+  start: number;
+  end: number;
+  rms: number;
+}
+
+// Playback quieter than this leaks nothing worth suppressing
+const SILENT_RMS = 1e-3;
+// Start out assuming the speakers come back as loud as they play, then learn the real level
+const INITIAL_ECHO_COUPLING = 1;
+const MIN_ECHO_COUPLING = 0.01;
+const MAX_ECHO_COUPLING = 4;
+
+function rms(samples: Float32Array | Int16Array): number {
+  if (samples.length === 0) return 0;
+  const scale = samples instanceof Int16Array ? 1 / 32768 : 1;
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = samples[i] * scale;
+    sumSquares += value * value;
+  }
+  return Math.sqrt(sumSquares / samples.length);
+}
+
+/**
+ * Decides which captured chunks may reach the server while the model is
+ * talking. It is fed the audio scheduled on the output chain, so it knows
+ * what is audible at any moment, and keeps the model's own voice leaking
+ * from the speakers from interrupting it: echo is ducked or suppressed, and
+ * the user's speech is held back until it has lasted long enough to count as
+ * an interruption, then sent with the pauses and pre-roll before it so its
+ * start is not lost. Times are milliseconds on whatever clock the caller uses
+ * for both the reference and the captured audio. Pure computation, like the
+ * VAD gate it sits behind.
+ */
+export class BargeInController {
+  readonly options: BargeInOptions;
+  private settings: BargeInSettings;
+  private reference: ReferenceFrame[] = [];
+  private referenceEnd = -Infinity;
+  // Microphone level over playback level while only the model talks, learnt during the call
+  private echoCoupling = INITIAL_ECHO_COUPLING;
+  // Audio withheld while the model is audible, oldest first, so an interruption arrives with its start
+  private held: Int16Array[] = [];
+  private heldMs = 0;
+  // Length of the user's current unbroken run of speech
+  private speechMs = 0;
+  private bargedIn = false;
+
+  constructor(settings: BargeInSettings, options: Partial<BargeInOptions> = {}) {
+    this.settings = settings;
+    this.options = { ...DEFAULT_BARGE_IN_OPTIONS, ...options };
+  }
+
+  setSettings(settings: BargeInSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether played audio may still be reaching the microphone at the given time.
+   */
+  isModelAudible(at: number): boolean {
+    return at < this.referenceEnd + this.options.echoTailMs;
+  }
+
+  /**
+   * Records audio scheduled for playback starting at `startMs`.
+   */
+  addReference(samples: Float32Array, sampleRate: number, startMs: number) {
+    const frameSize = Math.max(1, Math.round((sampleRate * this.options.referenceFrameMs) / 1000));
+    for (let offset = 0; offset < samples.length; offset += frameSize) {
+      const frame = samples.subarray(offset, offset + frameSize);
+      this.reference.push({
+        start: startMs + (offset * 1000) / sampleRate,
+        end: startMs + ((offset + frame.length) * 1000) / sampleRate,
+        rms: rms(frame),
+      });
+    }
+    this.referenceEnd = Math.max(this.referenceEnd, startMs + (samples.length * 1000) / sampleRate);
+  }
+
+  /**
+   * Forgets queued playback that was cut off at `at`; only its echo tail remains.
+   */
+  stopReference(at: number) {
+    this.reference = this.reference.filter(frame => frame.start < at);
+    this.referenceEnd = Math.min(this.referenceEnd, at);
+  }
+
+  process(chunk: Int16Array, isSpeech: boolean, capturedAt: number): BargeInResult {
+    const durationMs = (chunk.length * 1000) / this.options.sampleRate;
+    const from = capturedAt - durationMs;
+    this.prune(from);
+
+    if (!this.isModelAudible(from)) {
+      // The model has finished, so speech still held back, with its pre-roll, is the start of the user's turn
+      const keepMs = this.speechMs > 0 ? this.speechMs + this.options.preRollMs : 0;
+      const send = [...this.release(keepMs), ...this.held, chunk];
+      this.resetTurn();
+      return { send, bargedIn: false };
+    }
+
+    // Once the user has the floor they keep it until the model goes quiet
+    if (this.bargedIn) return { send: [chunk], bargedIn: false };
+
+    const { interruptionsAllowed, echoHandling, minSpeechMs } = this.settings;
+    if (!interruptionsAllowed) {
+      // Nothing reaches the server while the model is audible, so it always finishes
+      return { send: [], bargedIn: false };
+    }
+
+    let isUserSpeech = isSpeech;
+    if (echoHandling !== 'off') {
+      const level = rms(chunk);
+      const playing = this.referenceLevel(from, capturedAt);
+      if (playing > SILENT_RMS) {
+        const margin = 10 ** (this.options.suppressMarginDb / 20);
+        isUserSpeech = isSpeech && level > this.echoCoupling * playing * margin;
+        this.learnEchoCoupling(level / playing);
+      }
+    }
+
+    // Pauses and leaked playback break the run, so a cough or a word of agreement is too short
+    // to interrupt, but their audio stays held in case it was the start of an interruption
+    this.speechMs = isUserSpeech ? this.speechMs + durationMs : 0;
+    this.held.push(chunk);
+    this.heldMs += durationMs;
+
+    if (isUserSpeech && this.speechMs >= minSpeechMs) {
+      const send = echoHandling === 'duck' ? this.held.map(held => this.duck(held)) : this.held;
+      this.held = [];
+      this.heldMs = 0;
+      this.speechMs = 0;
+      this.bargedIn = true;
+      return { send, bargedIn: true };
+    }
+
+    return { send: this.release(minSpeechMs + this.options.preRollMs), bargedIn: false };
+  }
+
+  reset() {
+    this.reference = [];
+    this.referenceEnd = -Infinity;
+    this.echoCoupling = INITIAL_ECHO_COUPLING;
+    this.resetTurn();
+  }
+
+  private resetTurn() {
+    this.held = [];
+    this.heldMs = 0;
+    this.speechMs = 0;
+    this.bargedIn = false;
+  }
+
+  // Lets go of held audio beyond the newest `keepMs`: too old to be the start of an interruption,
+  // it gets what the echo handling gives audio that is not the user's
+  private release(keepMs: number): Int16Array[] {
+    const released: Int16Array[] = [];
+    while (this.held.length > 0 && this.heldMs > keepMs) {
+      const chunk = this.held.shift()!;
+      this.heldMs -= (chunk.length * 1000) / this.options.sampleRate;
+      if (this.settings.echoHandling === 'off') released.push(chunk);
+      if (this.settings.echoHandling === 'duck') released.push(this.duck(chunk));
+    }
+    return released;
+  }
+
+  // Loudest playback that can be echoing into a chunk captured between `from` and `to`
+  private referenceLevel(from: number, to: number): number {
+    const earliest = from - this.options.echoTailMs;
+    let level = 0;
+    for (const frame of this.reference) {
+      if (frame.start >= to) break;
+      if (frame.end > earliest) level = Math.max(level, frame.rms);
+    }
+    return level;
+  }
+
+  // The echo is the quietest the microphone gets relative to playback; the user talking only
+  // adds to it. So follow drops quickly and rises slowly.
+  private learnEchoCoupling(ratio: number) {
+    const target = Math.max(MIN_ECHO_COUPLING, Math.min(MAX_ECHO_COUPLING, ratio));
+    const rate = target < this.echoCoupling ? 0.2 : 0.02;
+    this.echoCoupling += (target - this.echoCoupling) * rate;
+  }
+
+  private duck(chunk: Int16Array): Int16Array {
+    const ducked = new Int16Array(chunk.length);
+    for (let i = 0; i < chunk.length; i++) ducked[i] = Math.round(chunk[i] * this.options.duckGain);
+    return ducked;
+  }
+
+  private prune(before: number) {
+    const earliest = before - this.options.echoTailMs;
+    let drop = 0;
+    while (drop < this.reference.length && this.reference[drop].end <= earliest) drop++;
+    if (drop > 0) this.reference.splice(0, drop);
+  }
+}
@@ -0,0 +1,50 @@
+import { AudioDeviceSettings } from '../types';
+
+export const DEFAULT_AUDIO_DEVICES: AudioDeviceSettings = {
+  inputDeviceId: '',
+  outputDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+const AUDIO_DEVICES_STORAGE_KEY = 'fahad-ai:audio-devices';
+
+// AudioContext.setSinkId is not in the DOM typings yet
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export function getAudioConstraints(settings: AudioDeviceSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.inputDeviceId ? { exact: settings.inputDeviceId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+export function supportsOutputSelection(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+/**
+ * Routes an AudioContext to the given output device. Resolves false when the
+ * browser can't select outputs, so callers can fall back to the default.
+ */
+export async function setOutputDevice(ctx: AudioContext, deviceId: string): Promise<boolean> {
+  const sinkable = ctx as SinkableAudioContext;
+  if (!sinkable.setSinkId) return false;
+  await sinkable.setSinkId(deviceId);
+  return true;
+}
+
+export function loadAudioDevices(): AudioDeviceSettings {
+  try {
+    return { ...DEFAULT_AUDIO_DEVICES, ...JSON.parse(localStorage.getItem(AUDIO_DEVICES_STORAGE_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_AUDIO_DEVICES;
+  }
+}
+
+export function saveAudioDevices(settings: AudioDeviceSettings) {
+  localStorage.setItem(AUDIO_DEVICES_STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,158 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TokenRequestError } from './auth';
+import { fromCloseInfo, fromConnectError, fromMediaError } from './errors';
+
+const mediaError = (name: string) => new DOMException('Media failed', name);
+
+describe('fromCloseInfo', () => {
+  it('treats an abnormal close as a dropped connection worth retrying', () => {
+    expect(fromCloseInfo({ code: 1006, reason: '' })).toMatchObject({
+      category: 'network',
+      code: 'connection-lost',
+      retryable: true,
+      closeCode: 1006,
+      closeReason: undefined,
+    });
+  });
+
+  it('reports a policy violation as a rejected setup, with the server reason', () => {
+    expect(fromCloseInfo({ code: 1008, reason: 'Unsupported voice' })).toMatchObject({
+      category: 'server',
+      code: 'invalid-request',
+      message: 'Unsupported voice',
+      retryable: false,
+      closeReason: 'Unsupported voice',
+    });
+  });
+
+  it('treats an internal server error as retryable', () => {
+    expect(fromCloseInfo({ code: 1011, reason: 'Internal error' })).toMatchObject({
+      category: 'server',
+      code: 'server-error',
+      retryable: true,
+    });
+  });
+
+  it('reads quota and key problems from the close reason before the code', () => {
+    expect(fromCloseInfo({ code: 1011, reason: 'RESOURCE_EXHAUSTED: You exceeded your current quota' })).toMatchObject({
+      category: 'quota',
+      code: 'quota-exceeded',
+      retryable: false,
+      closeCode: 1011,
+    });
+    expect(fromCloseInfo({ code: 1008, reason: 'API key not valid. Please pass a valid API key.' })).toMatchObject({
+      category: 'auth',
+      code: 'invalid-api-key',
+      retryable: false,
+    });
+  });
+
+  it('falls back to a retryable server close for other codes', () => {
+    expect(fromCloseInfo({ code: 1000, reason: '' })).toMatchObject({
+      category: 'server',
+      code: 'server-closed',
+      message: 'The server closed the session.',
+      retryable: true,
+    });
+  });
+});
+
+describe('fromConnectError', () => {
+  it('maps token broker failures by status and upstream code', () => {
+    expect(fromConnectError(new TokenRequestError('Failed to fetch', 0))).toMatchObject({
+      category: 'network',
+      code: 'connection-failed',
+      retryable: true,
+    });
+    expect(fromConnectError(new TokenRequestError('Too many requests', 429))).toMatchObject({
+      category: 'quota',
+      code: 'quota-exceeded',
+      retryable: false,
+    });
+    expect(fromConnectError(new TokenRequestError('Upstream quota', 502, 'quota-exceeded'))).toMatchObject({
+      code: 'quota-exceeded',
+    });
+    expect(fromConnectError(new TokenRequestError('Key rejected', 502, 'invalid-api-key'))).toMatchObject({
+      category: 'auth',
+      code: 'invalid-api-key',
+      message: 'Key rejected',
+    });
+    expect(fromConnectError(new TokenRequestError('Model "x" is not allowed', 403))).toMatchObject({
+      category: 'auth',
+      code: 'not-allowed',
+      retryable: false,
+    });
+  });
+
+  it('retries token failures only when the broker itself failed', () => {
+    expect(fromConnectError(new TokenRequestError('Bad gateway', 502))).toMatchObject({
+      code: 'token-unavailable',
+      retryable: true,
+    });
+    expect(fromConnectError(new TokenRequestError('Bad request', 400))).toMatchObject({
+      code: 'token-unavailable',
+      retryable: false,
+    });
+  });
+
+  it('recognizes quota and invalid key messages from the SDK', () => {
+    expect(fromConnectError(new Error('got status: 429 Too Many Requests'))).toMatchObject({ code: 'quota-exceeded' });
+    expect(fromConnectError(new Error('API_KEY_INVALID'))).toMatchObject({ category: 'auth', code: 'invalid-api-key' });
+    expect(fromConnectError(new Error('No token endpoint or API key configured'))).toMatchObject({
+      code: 'missing-credentials',
+      retryable: false,
+    });
+  });
+
+  it('treats network failures as retryable and anything else as unknown', () => {
+    expect(fromConnectError(new Error('WebSocket connection failed'))).toMatchObject({
+      category: 'network',
+      code: 'connection-failed',
+      retryable: true,
+    });
+    expect(fromConnectError('Something odd')).toMatchObject({ category: 'unknown', code: 'unknown', message: 'Something odd' });
+  });
+});
+
+describe('fromMediaError', () => {
+  beforeEach(() => {
+    Object.defineProperty(navigator, 'mediaDevices', { value: {}, configurable: true });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(navigator, 'mediaDevices', { value: undefined, configurable: true });
+  });
+
+  it('maps a blocked permission to the device that asked for it', () => {
+    expect(fromMediaError(mediaError('NotAllowedError'), 'microphone')).toMatchObject({
+      category: 'permission',
+      code: 'microphone-denied',
+      message: 'Microphone access was blocked.',
+      retryable: false,
+    });
+    expect(fromMediaError(mediaError('NotAllowedError'), 'camera')).toMatchObject({ code: 'camera-denied' });
+    expect(fromMediaError(mediaError('NotAllowedError'), 'screen')).toMatchObject({ code: 'screen-denied' });
+  });
+
+  it('reports a missing microphone, and any other failure as one in use', () => {
+    expect(fromMediaError(mediaError('NotFoundError'), 'microphone')).toMatchObject({
+      category: 'device',
+      code: 'microphone-not-found',
+      retryable: false,
+    });
+    expect(fromMediaError(mediaError('NotReadableError'), 'microphone')).toMatchObject({
+      code: 'microphone-in-use',
+      retryable: true,
+    });
+    expect(fromMediaError(mediaError('NotFoundError'), 'camera')).toMatchObject({ code: 'camera-unavailable' });
+  });
+
+  it('reports media capture as unsupported without mediaDevices', () => {
+    Object.defineProperty(navigator, 'mediaDevices', { value: undefined, configurable: true });
+    expect(fromMediaError(mediaError('NotFoundError'), 'microphone')).toMatchObject({
+      category: 'device',
+      code: 'media-unsupported',
+    });
+  });
+});
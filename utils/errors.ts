@@ -0,0 +1,197 @@
+import { TokenRequestError } from './auth';
+import { LiveCloseInfo } from '../transport/types';
+import { Translate } from '../i18n';
+
+export type MediaDeviceKind = 'microphone' | 'camera' | 'screen';
+
+interface LiveErrorFields {
+  // English, for logs and recordings; describeError gives the text to show
+  message: string;
+  // Whether trying the same thing again has a chance of working without the user changing anything
+  retryable: boolean;
+  closeCode?: number;
+  closeReason?: string;
+  cause?: unknown;
+  // Set when a handoff to this persona failed
+  handoffTarget?: string;
+  // Set once reconnecting has given up
+  reconnectAttempts?: number;
+}
+
+/**
+ * Everything that can end or degrade a call, grouped by what the user can do about it.
+ */
+export type LiveError = LiveErrorFields & (
+  | { category: 'permission'; code: 'microphone-denied' | 'camera-denied' | 'screen-denied' }
+  | {
+      category: 'device';
+      code:
+        | 'microphone-not-found'
+        | 'microphone-in-use'
+        | 'microphone-disconnected'
+        | 'camera-unavailable'
+        | 'screen-unavailable'
+        | 'media-unsupported';
+    }
+  | { category: 'auth'; code: 'invalid-api-key' | 'missing-credentials' | 'not-allowed' | 'token-unavailable' }
+  | { category: 'quota'; code: 'quota-exceeded' }
+  | { category: 'network'; code: 'connection-failed' | 'connection-lost' }
+  | { category: 'server'; code: 'server-error' | 'server-closed' | 'model-unavailable' | 'invalid-request' }
+  | { category: 'configuration'; code: 'invalid-settings' | 'unsupported-response-mode' }
+  | { category: 'unknown'; code: 'unknown' }
+);
+
+export type LiveErrorCategory = LiveError['category'];
+export type LiveErrorCode = LiveError['code'];
+
+function errorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'string') return err;
+  return '';
+}
+
+const QUOTA_PATTERN = /quota|RESOURCE_EXHAUSTED|rate limit|\b429\b/i;
+const INVALID_KEY_PATTERN = /API key not valid|API_KEY_INVALID|invalid api key|UNAUTHENTICATED|\b401\b/i;
+const NOT_ALLOWED_PATTERN = /PERMISSION_DENIED|\b403\b/i;
+const MODEL_PATTERN = /model.*(not found|not supported)|NOT_FOUND|\b404\b/i;
+
+/**
+ * Classifies the error text the API puts in close reasons and rejections.
+ */
+function classifyApiMessage(message: string, fields: Omit<LiveErrorFields, 'message' | 'retryable'>): LiveError | null {
+  if (QUOTA_PATTERN.test(message)) {
+    return { category: 'quota', code: 'quota-exceeded', message: 'The Gemini API quota has run out.', retryable: false, ...fields };
+  }
+  if (INVALID_KEY_PATTERN.test(message)) {
+    return { category: 'auth', code: 'invalid-api-key', message: 'The API key was rejected.', retryable: false, ...fields };
+  }
+  if (NOT_ALLOWED_PATTERN.test(message)) {
+    return { category: 'auth', code: 'not-allowed', message: 'This key is not allowed to use the Live API.', retryable: false, ...fields };
+  }
+  if (MODEL_PATTERN.test(message)) {
+    return { category: 'server', code: 'model-unavailable', message: 'The selected model is not available.', retryable: false, ...fields };
+  }
+  return null;
+}
+
+/**
+ * Maps a getUserMedia/getDisplayMedia rejection onto what went wrong with the device.
+ */
+export function fromMediaError(err: unknown, kind: MediaDeviceKind): LiveError {
+  const name = err instanceof DOMException || err instanceof Error ? err.name : '';
+
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    const code = kind === 'microphone' ? 'microphone-denied' : kind === 'camera' ? 'camera-denied' : 'screen-denied';
+    const what = kind === 'screen' ? 'Screen sharing' : kind === 'camera' ? 'Camera access' : 'Microphone access';
+    return { category: 'permission', code, message: `${what} was blocked.`, retryable: false, cause: err };
+  }
+
+  if (!navigator.mediaDevices || name === 'TypeError') {
+    return {
+      category: 'device',
+      code: 'media-unsupported',
+      message: 'This browser cannot capture media here. Use a secure (https) page in a recent browser.',
+      retryable: false,
+      cause: err,
+    };
+  }
+
+  if (kind === 'microphone') {
+    if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+      return { category: 'device', code: 'microphone-not-found', message: 'No microphone was found.', retryable: false, cause: err };
+    }
+    return {
+      category: 'device',
+      code: 'microphone-in-use',
+      message: 'The microphone could not be started. Another app may be using it.',
+      retryable: true,
+      cause: err,
+    };
+  }
+
+  return {
+    category: 'device',
+    code: kind === 'camera' ? 'camera-unavailable' : 'screen-unavailable',
+    message: kind === 'camera' ? 'The camera could not be started.' : 'The screen could not be shared.',
+    retryable: true,
+    cause: err,
+  };
+}
+
+/**
+ * Maps a WebSocket close onto an error. Clean closes still count, since the
+ * session only ends on purpose through disconnect.
+ */
+export function fromCloseInfo({ code, reason }: LiveCloseInfo): LiveError {
+  const fields = { closeCode: code, closeReason: reason || undefined };
+  const classified = classifyApiMessage(reason, fields);
+  if (classified) return classified;
+
+  switch (code) {
+    case 1006:
+      return { category: 'network', code: 'connection-lost', message: 'The connection dropped.', retryable: true, ...fields };
+    case 1007:
+    case 1008:
+      return {
+        category: 'server',
+        code: 'invalid-request',
+        message: reason || 'The server rejected the session setup.',
+        retryable: false,
+        ...fields,
+      };
+    case 1011:
+    case 1013:
+      return { category: 'server', code: 'server-error', message: 'The server hit an error.', retryable: true, ...fields };
+    default:
+      return { category: 'server', code: 'server-closed', message: reason || 'The server closed the session.', retryable: true, ...fields };
+  }
+}
+
+/**
+ * Maps a failed connect (token fetch or the session promise rejecting) onto an error.
+ */
+export function fromConnectError(err: unknown): LiveError {
+  if (err instanceof TokenRequestError) {
+    if (err.status === 0) {
+      return { category: 'network', code: 'connection-failed', message: 'Could not reach the token server.', retryable: true, cause: err };
+    }
+    if (err.status === 429 || err.code === 'quota-exceeded') {
+      return { category: 'quota', code: 'quota-exceeded', message: err.message, retryable: false, cause: err };
+    }
+    if (err.code === 'invalid-api-key') {
+      return { category: 'auth', code: 'invalid-api-key', message: err.message, retryable: false, cause: err };
+    }
+    if (err.status === 403) {
+      return { category: 'auth', code: 'not-allowed', message: err.message, retryable: false, cause: err };
+    }
+    return { category: 'auth', code: 'token-unavailable', message: err.message, retryable: err.status >= 500, cause: err };
+  }
+
+  const message = errorMessage(err);
+  if (/No token endpoint or API key/.test(message)) {
+    return { category: 'auth', code: 'missing-credentials', message, retryable: false, cause: err };
+  }
+
+  const classified = classifyApiMessage(message, { cause: err });
+  if (classified) return classified;
+
+  if (!navigator.onLine || /network|fetch|Could not connect|WebSocket/i.test(message)) {
+    return { category: 'network', code: 'connection-failed', message: 'Could not connect to the server.', retryable: true, cause: err };
+  }
+  return { category: 'unknown', code: 'unknown', message: message || 'Something went wrong.', retryable: true, cause: err };
+}
+
+export function createConfigurationError(code: 'invalid-settings' | 'unsupported-response-mode', message: string): LiveError {
+  return { category: 'configuration', code, message, retryable: false };
+}
+
+/**
+ * The error in the interface language, with the handoff and reconnect context the hook attached.
+ */
+export function describeError(error: LiveError, t: Translate): string {
+  return [
+    error.handoffTarget ? t('error.handoffFailed', { agent: error.handoffTarget }) : '',
+    t(`error.message.${error.code}`),
+    error.reconnectAttempts ? t('error.reconnectGaveUp', { count: error.reconnectAttempts }) : '',
+  ].filter(Boolean).join(' ');
+}
@@ -0,0 +1,58 @@
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must share a power-of-two length.
+ */
+export function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  if (n !== im.length || (n & (n - 1)) !== 0) {
+    throw new Error('FFT size must be a power of two');
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+/**
+ * Power spectrum (bins 0..N/2) of a real frame, Hann windowed and zero padded to `size`.
+ */
+export function powerSpectrum(frame: Float32Array, size: number): Float32Array {
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  const len = Math.min(frame.length, size);
+  for (let i = 0; i < len; i++) {
+    re[i] = frame[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (len - 1)));
+  }
+  fft(re, im);
+
+  const power = new Float32Array(size / 2 + 1);
+  for (let i = 0; i < power.length; i++) {
+    power[i] = re[i] * re[i] + im[i] * im[i];
+  }
+  return power;
+}
@@ -0,0 +1,40 @@
+import { LiveSettings, TranscriptEntry } from '../types';
+import { condenseTranscript } from './history';
+
+/**
+ * The agent a live call is handed over to.
+ */
+export interface HandoffTarget {
+  name: string;
+  settings: LiveSettings;
+  // Why the caller is being transferred, passed on to the new agent
+  reason?: string;
+}
+
+// The handoff context competes with the persona's own prompt, so it is kept shorter than a resume summary
+const HANDOFF_TRANSCRIPT_MAX_CHARS = 3000;
+
+// Sent as the first turn of the new session so the caller hears who picked up
+export const HANDOFF_ANNOUNCEMENT = 'The caller has just been transferred to you. Greet them briefly, say who you are, and carry on.';
+
+/**
+ * System instruction context for the agent taking over: who handed over, why,
+ * and the most recent part of the conversation.
+ */
+export function buildHandoffContext(fromAgent: string, target: HandoffTarget, transcript: TranscriptEntry[]): string {
+  const { lines, omitted } = condenseTranscript(transcript, HANDOFF_TRANSCRIPT_MAX_CHARS);
+  const header = [`You are ${target.name}, taking over a live voice call from ${fromAgent}.`];
+  if (target.reason) header.push(`Reason for the transfer: ${target.reason}`);
+
+  if (lines.length === 0) {
+    return [...header, 'Nothing has been said yet.'].join('\n');
+  }
+  return [
+    ...header,
+    omitted ? 'The most recent part of the call so far:' : 'The call so far:',
+    '',
+    ...lines,
+    '',
+    'Do not ask the caller to repeat what they already said.',
+  ].join('\n');
+}
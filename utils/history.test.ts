@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { ConversationRecord, TranscriptEntry } from '../types';
+import { MemoryConversationStore, condenseTranscript, getDefaultTitle, matchesQuery } from './history';
+
+const entry = (speaker: TranscriptEntry['speaker'], text: string): TranscriptEntry => ({
+  id: `${speaker}-${text}`,
+  speaker,
+  text,
+  startedAt: 0,
+  endedAt: 0,
+  interrupted: false,
+  source: 'voice',
+});
+
+function record(id: string, startedAt: number, patch: Partial<ConversationRecord> = {}): ConversationRecord {
+  return {
+    id,
+    title: `Conversation ${id}`,
+    personaId: 'default',
+    personaName: 'Fahad.AI',
+    model: 'model-a',
+    startedAt,
+    endedAt: startedAt + 60_000,
+    durationMs: 60_000,
+    transcript: [entry('user', 'What is the weather like?'), entry('model', 'Sunny with a light breeze.')],
+    toolActivity: [],
+    ...patch,
+  };
+}
+
+describe('MemoryConversationStore', () => {
+  it('lists saved conversations newest first', async () => {
+    const store = new MemoryConversationStore();
+    await store.put(record('a', 1000));
+    await store.put(record('b', 3000));
+    await store.put(record('c', 2000));
+    expect((await store.list()).map(saved => saved.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('gets a conversation by id, or null', async () => {
+    const store = new MemoryConversationStore();
+    await store.put(record('a', 1000));
+    expect(await store.get('a')).toEqual(record('a', 1000));
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('renames by putting the record back under the same id', async () => {
+    const store = new MemoryConversationStore();
+    await store.put(record('a', 1000));
+    const saved = (await store.get('a'))!;
+    await store.put({ ...saved, title: 'Weather chat' });
+
+    const list = await store.list();
+    expect(list).toHaveLength(1);
+    expect(list[0].title).toBe('Weather chat');
+  });
+
+  it('deletes a conversation and ignores unknown ids', async () => {
+    const store = new MemoryConversationStore();
+    await store.put(record('a', 1000));
+    await store.put(record('b', 2000));
+    await store.delete('a');
+    await store.delete('missing');
+    expect((await store.list()).map(saved => saved.id)).toEqual(['b']);
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('keeps its own copies, like a real database', async () => {
+    const store = new MemoryConversationStore();
+    const original = record('a', 1000);
+    await store.put(original);
+    original.title = 'Changed after saving';
+
+    const listed = (await store.list())[0];
+    listed.transcript.push(entry('user', 'Changed after listing'));
+    expect(await store.get('a')).toEqual(record('a', 1000));
+  });
+});
+
+describe('matchesQuery', () => {
+  const saved = record('a', 1000, { title: 'Trip planning', personaName: 'Travel Guide' });
+
+  it('matches the title, persona and transcript, ignoring case and padding', () => {
+    expect(matchesQuery(saved, 'TRIP')).toBe(true);
+    expect(matchesQuery(saved, 'travel guide')).toBe(true);
+    expect(matchesQuery(saved, '  light breeze ')).toBe(true);
+    expect(matchesQuery(saved, 'snow')).toBe(false);
+  });
+
+  it('matches everything for an empty query', () => {
+    expect(matchesQuery(saved, '   ')).toBe(true);
+  });
+
+  it('filters a stored list the way the history sidebar does', async () => {
+    const store = new MemoryConversationStore();
+    await store.put(record('a', 1000, { transcript: [entry('user', 'Book a table for two')] }));
+    await store.put(record('b', 2000));
+    const found = (await store.list()).filter(conversation => matchesQuery(conversation, 'table'));
+    expect(found.map(conversation => conversation.id)).toEqual(['a']);
+  });
+});
+
+describe('getDefaultTitle', () => {
+  it('uses the opening line, shortened to fit', () => {
+    expect(getDefaultTitle([entry('model', 'Hi!'), entry('user', '  Hello there ')], 'Fahad.AI', 0)).toBe('Hello there');
+    const title = getDefaultTitle([entry('user', 'word '.repeat(30))], 'Fahad.AI', 0);
+    expect(title).toHaveLength(60);
+    expect(title.endsWith('…')).toBe(true);
+  });
+
+  it('falls back to the persona and date when nothing was said', () => {
+    expect(getDefaultTitle([entry('user', ' ')], 'Fahad.AI', 0)).toMatch(/^Fahad\.AI · /);
+  });
+});
+
+describe('condenseTranscript', () => {
+  it('keeps the most recent turns that fit', () => {
+    const transcript = [entry('user', 'one'), entry('model', 'two'), entry('user', 'three')];
+    expect(condenseTranscript(transcript, 26)).toEqual({ lines: ['Assistant: two', 'User: three'], omitted: true });
+    expect(condenseTranscript(transcript).omitted).toBe(false);
+  });
+});
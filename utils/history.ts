@@ -0,0 +1,175 @@
+import { ConversationRecord, TranscriptEntry } from '../types';
+
+/**
+ * Where past conversations are kept. Records are small enough to load whole,
+ * so listing returns them complete, newest first.
+ */
+export interface ConversationStore {
+  list(): Promise<ConversationRecord[]>;
+  get(id: string): Promise<ConversationRecord | null>;
+  // Inserts, or replaces the record with the same id
+  put(record: ConversationRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export const byNewest = (a: ConversationRecord, b: ConversationRecord) => b.startedAt - a.startedAt;
+
+/**
+ * Keeps conversations for the lifetime of the page; used where IndexedDB is unavailable.
+ */
+export class MemoryConversationStore implements ConversationStore {
+  private readonly records = new Map<string, ConversationRecord>();
+
+  async list() {
+    return [...this.records.values()].sort(byNewest).map(record => structuredClone(record));
+  }
+
+  async get(id: string) {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : null;
+  }
+
+  async put(record: ConversationRecord) {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async delete(id: string) {
+    this.records.delete(id);
+  }
+}
+
+const DB_NAME = 'fahad-ai';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persists conversations in IndexedDB so they survive reloads.
+ */
+export class IndexedDbConversationStore implements ConversationStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      };
+      this.dbPromise = promisifyRequest(request);
+      // Let a later call try again rather than caching the failure
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return promisifyRequest(run(db.transaction(CONVERSATIONS_STORE, mode).objectStore(CONVERSATIONS_STORE)));
+  }
+
+  async list() {
+    const records = await this.request('readonly', store => store.getAll() as IDBRequest<ConversationRecord[]>);
+    return records.sort(byNewest);
+  }
+
+  async get(id: string) {
+    const record = await this.request('readonly', store => store.get(id) as IDBRequest<ConversationRecord | undefined>);
+    return record ?? null;
+  }
+
+  async put(record: ConversationRecord) {
+    await this.request('readwrite', store => store.put(record));
+  }
+
+  async delete(id: string) {
+    await this.request('readwrite', store => store.delete(id));
+  }
+}
+
+export function createConversationStore(): ConversationStore {
+  return typeof indexedDB === 'undefined' ? new MemoryConversationStore() : new IndexedDbConversationStore();
+}
+
+const TITLE_LENGTH = 60;
+
+/**
+ * Default title: the user's opening line, falling back to the persona and date.
+ */
+export function getDefaultTitle(transcript: TranscriptEntry[], personaName: string, startedAt: number): string {
+  const opening = transcript.find(entry => entry.speaker === 'user' && entry.text.trim())?.text.trim();
+  if (opening) {
+    return opening.length > TITLE_LENGTH ? `${opening.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : opening;
+  }
+  return `${personaName} · ${new Date(startedAt).toLocaleString()}`;
+}
+
+/**
+ * Case-insensitive match against the title, persona and everything said.
+ */
+export function matchesQuery(record: ConversationRecord, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return (
+    record.title.toLowerCase().includes(needle) ||
+    record.personaName.toLowerCase().includes(needle) ||
+    record.transcript.some(entry => entry.text.toLowerCase().includes(needle))
+  );
+}
+
+const SUMMARY_MAX_CHARS = 4000;
+const SUMMARY_TURN_MAX_CHARS = 400;
+
+/**
+ * The most recent turns of a transcript as "User: …" / "Assistant: …" lines,
+ * within a character budget. `omitted` is true when older turns did not fit.
+ */
+export function condenseTranscript(
+  transcript: TranscriptEntry[],
+  maxChars: number = SUMMARY_MAX_CHARS
+): { lines: string[]; omitted: boolean } {
+  const spoken = transcript.filter(entry => entry.text.trim());
+  const lines: string[] = [];
+  let length = 0;
+  for (let i = spoken.length - 1; i >= 0; i--) {
+    const text = spoken[i].text.trim().replace(/\s+/g, ' ');
+    const clipped = text.length > SUMMARY_TURN_MAX_CHARS ? `${text.slice(0, SUMMARY_TURN_MAX_CHARS)}…` : text;
+    const line = `${spoken[i].speaker === 'user' ? 'User' : 'Assistant'}: ${clipped}`;
+    if (length + line.length > maxChars) break;
+    lines.unshift(line);
+    length += line.length + 1;
+  }
+  return { lines, omitted: lines.length < spoken.length };
+}
+
+/**
+ * Condenses a past conversation into text for a new session's system
+ * instruction. The most recent turns are kept when it has to be cut short,
+ * since they are what the user most likely wants to pick up from.
+ */
+export function summarizeConversation(record: ConversationRecord): string {
+  const { lines, omitted } = condenseTranscript(record.transcript);
+  const tools = [...new Set(record.toolActivity.filter(tool => tool.status === 'completed').map(tool => tool.name))];
+
+  const header = [
+    `This continues an earlier conversation "${record.title}" from ${new Date(record.startedAt).toLocaleString()}.`,
+    omitted ? 'Earlier turns were left out; the most recent ones follow.' : 'The full conversation follows.',
+  ];
+  if (tools.length > 0) header.push(`Tools used: ${tools.join(', ')}.`);
+
+  return [
+    ...header,
+    '',
+    ...lines,
+    '',
+    'Pick up where it left off without repeating it back unless the user asks.',
+  ].join('\n');
+}
@@ -0,0 +1,27 @@
+import { encodeBase64 } from './audio';
+import { JPEG_MIME_TYPE, JpegEncodeRequest, JpegEncodeResponse } from './video';
+
+// Encodes video frames to base64 JPEG so the main thread only has to grab bitmaps
+
+let canvas: OffscreenCanvas | null = null;
+
+const reply = (response: JpegEncodeResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<JpegEncodeRequest>) => {
+  const { id, bitmap, quality } = event.data;
+  try {
+    if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+      canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D canvas is not available');
+    ctx.drawImage(bitmap, 0, 0);
+
+    const blob = await canvas.convertToBlob({ type: JPEG_MIME_TYPE, quality });
+    reply({ id, data: encodeBase64(new Uint8Array(await blob.arrayBuffer())) });
+  } catch (err) {
+    reply({ id, error: err instanceof Error ? err.message : String(err) });
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,277 @@
+import { PCM_SAMPLE_RATE_INPUT } from './audio';
+import { powerSpectrum } from './fft';
+import { VoiceActivityDetector } from './vad';
+
+// One row of cepstral coefficients per analysis frame
+export type KeywordTemplate = number[][];
+
+export interface KeywordSpotterOptions {
+  sampleRate: number;
+  // 0 (only near-identical utterances) to 1 (accepts looser matches, and more false wakes)
+  sensitivity: number;
+}
+
+export const DEFAULT_KEYWORD_SPOTTER_OPTIONS: KeywordSpotterOptions = {
+  sampleRate: PCM_SAMPLE_RATE_INPUT,
+  sensitivity: 0.5,
+};
+
+const FRAME_MS = 25;
+const HOP_MS = 10;
+const MEL_BANDS = 26;
+const CEPSTRAL_COEFFICIENTS = 13;
+// Speech cut shorter or longer than this (relative to the templates) is not the wake phrase
+const MIN_LENGTH_RATIO = 0.5;
+const MAX_LENGTH_RATIO = 2;
+// The longest a wake phrase may run; anything longer is ordinary talk
+const MAX_UTTERANCE_MS = 3000;
+// Captured ahead of detected speech so the phrase's first sound is not lost
+const PRE_ROLL_MS = 200;
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+const melFilterCache = new Map<string, Float32Array[]>();
+
+function getMelFilters(fftSize: number, sampleRate: number): Float32Array[] {
+  const key = `${fftSize}:${sampleRate}`;
+  const cached = melFilterCache.get(key);
+  if (cached) return cached;
+
+  const bins = fftSize / 2 + 1;
+  const low = hzToMel(80);
+  const high = hzToMel(Math.min(7600, sampleRate / 2));
+  const points = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    Math.floor(((fftSize + 1) * melToHz(low + ((high - low) * i) / (MEL_BANDS + 1))) / sampleRate)
+  );
+
+  const filters = Array.from({ length: MEL_BANDS }, (_, band) => {
+    const filter = new Float32Array(bins);
+    const [start, peak, end] = [points[band], points[band + 1], points[band + 2]];
+    for (let i = start; i < peak; i++) filter[i] = (i - start) / Math.max(1, peak - start);
+    for (let i = peak; i < end; i++) filter[i] = (end - i) / Math.max(1, end - peak);
+    return filter;
+  });
+  melFilterCache.set(key, filters);
+  return filters;
+}
+
+/**
+ * Mel-frequency cepstral coefficients for each 25 ms frame (10 ms hop), with the
+ * utterance mean removed so the same phrase matches across microphones.
+ */
+export function extractFeatures(samples: Float32Array, sampleRate: number): KeywordTemplate {
+  const frameSize = Math.round((sampleRate * FRAME_MS) / 1000);
+  const hop = Math.round((sampleRate * HOP_MS) / 1000);
+  const fftSize = 1 << Math.ceil(Math.log2(frameSize));
+  const filters = getMelFilters(fftSize, sampleRate);
+
+  const features: number[][] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hop) {
+    const power = powerSpectrum(samples.subarray(start, start + frameSize), fftSize);
+    const logMel = filters.map(filter => {
+      let energy = 0;
+      for (let i = 0; i < power.length; i++) energy += filter[i] * power[i];
+      return Math.log(energy + 1e-10);
+    });
+
+    // DCT-II of the log mel energies; coefficient 0 (overall loudness) is dropped
+    const coefficients: number[] = [];
+    for (let c = 1; c <= CEPSTRAL_COEFFICIENTS; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_BANDS; m++) sum += logMel[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_BANDS);
+      coefficients.push(sum);
+    }
+    features.push(coefficients);
+  }
+
+  if (features.length > 0) {
+    for (let c = 0; c < CEPSTRAL_COEFFICIENTS; c++) {
+      const mean = features.reduce((sum, frame) => sum + frame[c], 0) / features.length;
+      features.forEach(frame => { frame[c] -= mean; });
+    }
+  }
+  return features;
+}
+
+const frameDistance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+/**
+ * Dynamic time warping distance, averaged over the alignment so utterances of
+ * different lengths compare fairly.
+ */
+export function dtwDistance(a: KeywordTemplate, b: KeywordTemplate): number {
+  if (a.length === 0 || b.length === 0) return Infinity;
+
+  let previous = new Float64Array(b.length + 1).fill(Infinity);
+  let previousSteps = new Float64Array(b.length + 1);
+  previous[0] = 0;
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Float64Array(b.length + 1).fill(Infinity);
+    const currentSteps = new Float64Array(b.length + 1);
+    for (let j = 1; j <= b.length; j++) {
+      const cost = frameDistance(a[i - 1], b[j - 1]);
+      // Pick the cheapest of match, insertion and deletion, carrying its path length along
+      let best = previous[j - 1];
+      let steps = previousSteps[j - 1];
+      if (previous[j] < best) {
+        best = previous[j];
+        steps = previousSteps[j];
+      }
+      if (current[j - 1] < best) {
+        best = current[j - 1];
+        steps = currentSteps[j - 1];
+      }
+      current[j] = best + cost;
+      currentSteps[j] = steps + 1;
+    }
+    previous = current;
+    previousSteps = currentSteps;
+  }
+  return previous[b.length] / previousSteps[b.length];
+}
+
+const toFloat32 = (samples: Float32Array | Int16Array) =>
+  samples instanceof Float32Array ? samples : Float32Array.from(samples, sample => sample / 32768);
+
+/**
+ * Listens for one enrolled phrase by comparing each spoken utterance with
+ * recordings of it. Speech is segmented with the voice activity detector, so
+ * nothing is compared while the room is quiet. Pure computation, no network.
+ */
+export class KeywordSpotter {
+  readonly options: KeywordSpotterOptions;
+  private templates: KeywordTemplate[] = [];
+  private readonly detector: VoiceActivityDetector;
+  private readonly preRoll: Float32Array[] = [];
+  private utterance: Float32Array[] = [];
+  private utteranceSamples = 0;
+  // Set once the current utterance has run too long to be the phrase
+  private isDiscarding = false;
+  private wasSpeaking = false;
+  lastDistance: number | null = null;
+
+  constructor(templates: KeywordTemplate[], options: Partial<KeywordSpotterOptions> = {}) {
+    this.options = { ...DEFAULT_KEYWORD_SPOTTER_OPTIONS, ...options };
+    this.templates = templates;
+    // Short pauses between the words of the phrase must not split it
+    this.detector = new VoiceActivityDetector({ sampleRate: this.options.sampleRate, hangoverMs: 250 });
+  }
+
+  setTemplates(templates: KeywordTemplate[]) {
+    this.templates = templates;
+  }
+
+  setSensitivity(sensitivity: number) {
+    this.options.sensitivity = Math.max(0, Math.min(1, sensitivity));
+  }
+
+  /**
+   * Feeds microphone samples; true on the chunk where a finished utterance matched the phrase.
+   */
+  process(samples: Float32Array | Int16Array): boolean {
+    const chunk = toFloat32(samples);
+    const isSpeaking = this.detector.process(chunk);
+    const { sampleRate } = this.options;
+
+    if (isSpeaking) {
+      if (!this.wasSpeaking) {
+        this.utterance = this.preRoll.splice(0);
+        this.utteranceSamples = this.utterance.reduce((sum, part) => sum + part.length, 0);
+      }
+      if (!this.isDiscarding) {
+        this.utterance.push(chunk);
+        this.utteranceSamples += chunk.length;
+      }
+    } else {
+      this.preRoll.push(chunk);
+      let preRollSamples = this.preRoll.reduce((sum, part) => sum + part.length, 0);
+      while (this.preRoll.length > 1 && preRollSamples - this.preRoll[0].length >= (sampleRate * PRE_ROLL_MS) / 1000) {
+        preRollSamples -= this.preRoll.shift()!.length;
+      }
+    }
+
+    const ended = this.wasSpeaking && !isSpeaking;
+    this.wasSpeaking = isSpeaking;
+    if (!ended) {
+      // Long speech cannot be the wake phrase; stop holding on to it
+      if (this.utteranceSamples > (sampleRate * MAX_UTTERANCE_MS) / 1000) {
+        this.utterance = [];
+        this.utteranceSamples = 0;
+        this.isDiscarding = true;
+      }
+      return false;
+    }
+
+    const parts = this.utterance;
+    const length = this.utteranceSamples;
+    const wasDiscarded = this.isDiscarding;
+    this.utterance = [];
+    this.utteranceSamples = 0;
+    this.isDiscarding = false;
+    if (wasDiscarded || length === 0 || this.templates.length === 0) return false;
+
+    const joined = new Float32Array(length);
+    let offset = 0;
+    for (const part of parts) {
+      joined.set(part, offset);
+      offset += part.length;
+    }
+    return this.matches(extractFeatures(joined, sampleRate));
+  }
+
+  private matches(features: KeywordTemplate): boolean {
+    let best = Infinity;
+    for (const template of this.templates) {
+      const ratio = features.length / template.length;
+      if (ratio < MIN_LENGTH_RATIO || ratio > MAX_LENGTH_RATIO) continue;
+      best = Math.min(best, dtwDistance(features, template));
+    }
+    this.lastDistance = Number.isFinite(best) ? best : null;
+    return best < this.threshold;
+  }
+
+  // Average per-frame cepstral distance below which an utterance counts as the phrase
+  private get threshold(): number {
+    return 14 + this.options.sensitivity * 10;
+  }
+
+  reset() {
+    this.detector.reset();
+    this.preRoll.length = 0;
+    this.utterance = [];
+    this.utteranceSamples = 0;
+    this.isDiscarding = false;
+    this.wasSpeaking = false;
+    this.lastDistance = null;
+  }
+}
+
+/**
+ * Cuts a recording of the wake phrase down to its spoken part and turns it into a template.
+ * Returns null when no speech was found.
+ */
+export function createKeywordTemplate(samples: Float32Array | Int16Array, sampleRate: number): KeywordTemplate | null {
+  const audio = toFloat32(samples);
+  const detector = new VoiceActivityDetector({ sampleRate, hangoverMs: 250, minSpeechMs: 40 });
+  const frameSize = Math.round((sampleRate * detector.options.frameMs) / 1000);
+
+  let first = -1;
+  let last = -1;
+  for (let start = 0; start + frameSize <= audio.length; start += frameSize) {
+    detector.process(audio.subarray(start, start + frameSize));
+    if (detector.lastFeatures?.isSpeechFrame) {
+      if (first === -1) first = start;
+      last = start + frameSize;
+    }
+  }
+  if (first === -1) return null;
+
+  const padding = Math.round((sampleRate * PRE_ROLL_MS) / 1000);
+  const features = extractFeatures(audio.subarray(Math.max(0, first - padding), Math.min(audio.length, last + padding)), sampleRate);
+  return features.length > 0 ? features : null;
+}
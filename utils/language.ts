@@ -0,0 +1,28 @@
+import { InterpreterSettings } from '../types';
+import { getLanguageLabel } from './settings';
+
+/**
+ * System instruction part pinning the conversation language, or null to let
+ * the model follow whatever the user speaks.
+ */
+export function buildLanguageInstruction(language: string): string | null {
+  if (!language) return null;
+  const name = getLanguageLabel(language);
+  return `Conduct the conversation in ${name}. Reply in ${name} even when the user mixes in other languages, unless they ask you to switch.`;
+}
+
+/**
+ * System instruction for interpreter mode. It replaces the persona's prompt,
+ * since the assistant should relay what is said rather than take part.
+ */
+export function buildInterpreterInstruction({ firstLanguage, secondLanguage }: InterpreterSettings): string {
+  const first = getLanguageLabel(firstLanguage);
+  const second = getLanguageLabel(secondLanguage);
+  return [
+    `You are a live interpreter between a ${first} speaker and a ${second} speaker.`,
+    `When you hear ${first}, say the same thing in ${second}. When you hear ${second}, say the same thing in ${first}.`,
+    'Translate faithfully and in the first person, keeping the tone of the speaker.',
+    'Do not answer questions, add commentary or greet anyone; only translate what was said.',
+    'If something is unclear, translate it as best you can rather than asking for clarification.',
+  ].join('\n');
+}
@@ -0,0 +1,15 @@
+import type { LiveConnectConfig } from '@google/genai';
+
+// Where the app asks for Live tokens, served by the dev server and the standalone token server alike
+export const TOKEN_ENDPOINT_PATH = '/api/live-token';
+
+/**
+ * Session config every call uses, whatever the persona or mode. The token
+ * broker locks it into each token, and the app sends the same values, so a
+ * token can only open the kind of session this app opens.
+ */
+export const LOCKED_SESSION_CONFIG: LiveConnectConfig = {
+  inputAudioTranscription: {},
+  // Keeps long calls from running out of context window
+  contextWindowCompression: { slidingWindow: {} },
+};
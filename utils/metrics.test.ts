@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { SessionMetricsTracker, base64ByteLength } from './metrics';
+
+function createTracker() {
+  const clock = { now: 0 };
+  const tracker = new SessionMetricsTracker('model-a', () => clock.now);
+  return { tracker, clock };
+}
+
+const latency = (tracker: SessionMetricsTracker) => tracker.snapshot().responseLatency;
+
+describe('SessionMetricsTracker', () => {
+  it('measures from the most reliable speech end of the turn', () => {
+    const { tracker, clock } = createTracker();
+    clock.now = 1000;
+    tracker.markSpeechEnd('transcription');
+    // The VAD marks the end later, and outranks the transcript
+    clock.now = 1200;
+    tracker.markSpeechEnd('vad');
+    // A trailing transcript does not move it back
+    clock.now = 1300;
+    tracker.markSpeechEnd('transcription');
+
+    clock.now = 1700;
+    tracker.markModelOutput();
+    clock.now = 1800;
+    tracker.markModelOutput();
+    expect(latency(tracker)).toMatchObject({ lastMs: 500, samples: [500] });
+  });
+
+  it('ignores transcription that ends after the reply has started', () => {
+    const { tracker, clock } = createTracker();
+    tracker.markSpeechEnd('text');
+    clock.now = 400;
+    tracker.markModelOutput();
+
+    clock.now = 600;
+    tracker.markSpeechEnd('transcription');
+    clock.now = 700;
+    tracker.markModelOutput();
+    expect(latency(tracker).samples).toEqual([400]);
+
+    // Once the turn is over the next one is measured again
+    tracker.countTurn();
+    clock.now = 1000;
+    tracker.markSpeechEnd('transcription');
+    clock.now = 1300;
+    tracker.markModelOutput();
+    expect(latency(tracker)).toMatchObject({ samples: [400, 300], averageMs: 350, minMs: 300, maxMs: 400 });
+  });
+
+  it('drops the pending measurement when the user interrupts', () => {
+    const { tracker, clock } = createTracker();
+    tracker.markSpeechEnd('vad');
+    clock.now = 200;
+    tracker.countInterruption();
+    // Audio still in flight from the interrupted reply is no answer to anything
+    clock.now = 300;
+    tracker.markModelOutput();
+    expect(latency(tracker)).toMatchObject({ lastMs: null, samples: [] });
+
+    // The user's own turn then ends and gets its reply
+    clock.now = 1000;
+    tracker.markSpeechEnd('vad');
+    clock.now = 1250;
+    tracker.markModelOutput();
+    expect(latency(tracker)).toMatchObject({ lastMs: 250, samples: [250] });
+    expect(tracker.snapshot().interruptions).toBe(1);
+  });
+});
+
+describe('base64ByteLength', () => {
+  it('counts the decoded bytes, padding excluded', () => {
+    expect(base64ByteLength(btoa('ab'))).toBe(2);
+    expect(base64ByteLength(btoa('abc'))).toBe(3);
+    expect(base64ByteLength(btoa('abcd'))).toBe(4);
+  });
+});
@@ -0,0 +1,149 @@
+import type { UsageMetadata } from '@google/genai';
+import { SessionMetrics } from '../types';
+
+// How the end of the user's turn was detected, most reliable first
+export type SpeechEndSource = 'push-to-talk' | 'vad' | 'text' | 'transcription';
+
+const SOURCE_PRIORITY: Record<SpeechEndSource, number> = {
+  'push-to-talk': 3,
+  vad: 3,
+  text: 3,
+  // Transcripts trail the audio, so they only stand in when nothing local marked the end
+  transcription: 1,
+};
+
+const MAX_LATENCY_SAMPLES = 200;
+
+export const EMPTY_METRICS: SessionMetrics = {
+  model: null,
+  startedAt: null,
+  responseLatency: { lastMs: null, averageMs: null, minMs: null, maxMs: null, samples: [] },
+  jitterMs: 0,
+  playbackUnderruns: 0,
+  bytesSent: 0,
+  bytesReceived: 0,
+  modelTurns: 0,
+  interruptions: 0,
+  reconnects: 0,
+  tokens: { prompt: 0, response: 0, total: 0 },
+};
+
+/**
+ * Size of the data a base64 string decodes to.
+ */
+export function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/**
+ * Accumulates the counters behind SessionMetrics for one call.
+ */
+export class SessionMetricsTracker {
+  private readonly model: string;
+  private readonly startedAt = new Date();
+  private speechEnd: { at: number; source: SpeechEndSource } | null = null;
+  private awaitingReply = false;
+  // Set from a reply's first audio until its turn ends
+  private isModelReplying = false;
+  private latencies: number[] = [];
+  private latencySum = 0;
+  private latencyCount = 0;
+  private minLatency = Infinity;
+  private maxLatency = 0;
+  private bytesSent = 0;
+  private bytesReceived = 0;
+  private modelTurns = 0;
+  private interruptions = 0;
+  private reconnects = 0;
+  private tokens = { prompt: 0, response: 0, total: 0 };
+
+  constructor(model: string, private readonly now: () => number = () => performance.now()) {
+    this.model = model;
+  }
+
+  /**
+   * Records that the user just finished a turn. A weaker source never
+   * overrides a stronger one for the same turn.
+   */
+  markSpeechEnd(source: SpeechEndSource) {
+    // Transcription of the user's turn can trail into the reply, which must not restart the clock
+    if (source === 'transcription' && this.isModelReplying) return;
+    if (this.speechEnd && this.awaitingReply && SOURCE_PRIORITY[this.speechEnd.source] > SOURCE_PRIORITY[source]) {
+      return;
+    }
+    this.speechEnd = { at: this.now(), source };
+    this.awaitingReply = true;
+  }
+
+  /**
+   * Call for every chunk of model audio (or text, for text replies); the first
+   * one after a speech end is a latency sample.
+   */
+  markModelOutput() {
+    this.isModelReplying = true;
+    if (!this.awaitingReply || !this.speechEnd) return;
+    this.awaitingReply = false;
+
+    const latency = this.now() - this.speechEnd.at;
+    this.latencies.push(latency);
+    if (this.latencies.length > MAX_LATENCY_SAMPLES) this.latencies.shift();
+    this.latencySum += latency;
+    this.latencyCount++;
+    this.minLatency = Math.min(this.minLatency, latency);
+    this.maxLatency = Math.max(this.maxLatency, latency);
+  }
+
+  addBytesSent(bytes: number) {
+    this.bytesSent += bytes;
+  }
+
+  addBytesReceived(bytes: number) {
+    this.bytesReceived += bytes;
+  }
+
+  countTurn() {
+    this.modelTurns++;
+    this.isModelReplying = false;
+  }
+
+  countInterruption() {
+    this.interruptions++;
+    this.isModelReplying = false;
+    // The user talking over the model starts a new turn the reply latency should be measured from
+    this.awaitingReply = false;
+  }
+
+  countReconnect() {
+    this.reconnects++;
+  }
+
+  addUsage(usage: UsageMetadata) {
+    this.tokens.prompt += usage.promptTokenCount ?? 0;
+    this.tokens.response += usage.responseTokenCount ?? 0;
+    this.tokens.total += usage.totalTokenCount ?? 0;
+  }
+
+  snapshot(playback: { jitterMs: number; underruns: number } = { jitterMs: 0, underruns: 0 }): SessionMetrics {
+    const hasSamples = this.latencyCount > 0;
+    return {
+      model: this.model,
+      startedAt: this.startedAt.toISOString(),
+      responseLatency: {
+        lastMs: hasSamples ? this.latencies[this.latencies.length - 1] : null,
+        averageMs: hasSamples ? this.latencySum / this.latencyCount : null,
+        minMs: hasSamples ? this.minLatency : null,
+        maxMs: hasSamples ? this.maxLatency : null,
+        samples: this.latencies.slice(),
+      },
+      jitterMs: playback.jitterMs,
+      playbackUnderruns: playback.underruns,
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      modelTurns: this.modelTurns,
+      interruptions: this.interruptions,
+      reconnects: this.reconnects,
+      tokens: { ...this.tokens },
+    };
+  }
+}
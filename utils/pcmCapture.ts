@@ -0,0 +1,63 @@
+import pcmCaptureWorkletUrl from './pcmCaptureWorklet.ts?worker&url';
+import {
+  DEFAULT_CAPTURE_CHUNK_MS,
+  PCM_CAPTURE_PROCESSOR,
+  PCM_SAMPLE_RATE_INPUT,
+  PcmCaptureMessage,
+  PcmCaptureOptions,
+} from './audio';
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Loads the capture worklet into the context (once) and creates a node that
+ * emits Int16 PCM chunks of the requested duration, resampled from whatever
+ * rate the context runs at.
+ */
+export async function createPcmCaptureNode(
+  ctx: BaseAudioContext,
+  onChunk: (pcm: Int16Array, sampleRate: number) => void,
+  options: Partial<PcmCaptureOptions> = {},
+): Promise<AudioWorkletNode> {
+  if (!loadedContexts.has(ctx)) {
+    await ctx.audioWorklet.addModule(pcmCaptureWorkletUrl);
+    loadedContexts.add(ctx);
+  }
+
+  const processorOptions: PcmCaptureOptions = {
+    chunkDurationMs: options.chunkDurationMs ?? DEFAULT_CAPTURE_CHUNK_MS,
+    targetSampleRate: options.targetSampleRate ?? PCM_SAMPLE_RATE_INPUT,
+  };
+  const node = new AudioWorkletNode(ctx, PCM_CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions,
+  });
+
+  node.port.onmessage = (e: MessageEvent<PcmCaptureMessage>) => {
+    if (e.data?.type === 'chunk') {
+      onChunk(new Int16Array(e.data.pcm), e.data.sampleRate);
+    }
+  };
+
+  return node;
+}
+
+/**
+ * Posts whatever partial chunk the worklet is holding and resolves once it has
+ * been delivered to `onChunk`.
+ */
+export function flushPcmCapture(node: AudioWorkletNode): Promise<void> {
+  return new Promise(resolve => {
+    const handleMessage = (e: MessageEvent<PcmCaptureMessage>) => {
+      if (e.data?.type === 'flushed') {
+        node.port.removeEventListener('message', handleMessage);
+        resolve();
+      }
+    };
+    node.port.addEventListener('message', handleMessage);
+    node.port.postMessage({ type: 'flush' });
+  });
+}
@@ -0,0 +1,72 @@
+import {
+  DEFAULT_CAPTURE_CHUNK_MS,
+  PCM_CAPTURE_PROCESSOR,
+  PCM_SAMPLE_RATE_INPUT,
+  PcmCaptureOptions,
+  SincResampler,
+  float32ToInt16,
+} from './audio';
+
+// AudioWorkletGlobalScope is not part of the DOM lib typings
+declare const sampleRate: number;
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+  abstract process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+declare function registerProcessor(name: string, processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+/**
+ * Collects mono microphone frames off the main thread, resamples them from the
+ * hardware rate to the target rate, converts them to Int16 and posts fixed size
+ * chunks back as transferable ArrayBuffers.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private chunk: Float32Array;
+  private offset = 0;
+  private resampler: SincResampler;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const {
+      chunkDurationMs = DEFAULT_CAPTURE_CHUNK_MS,
+      targetSampleRate = PCM_SAMPLE_RATE_INPUT,
+    } = (options?.processorOptions ?? {}) as Partial<PcmCaptureOptions>;
+    this.resampler = new SincResampler(sampleRate, targetSampleRate);
+    const samples = Math.round((targetSampleRate * chunkDurationMs) / 1000);
+    this.chunk = new Float32Array(Math.max(128, samples));
+
+    this.port.onmessage = (e: MessageEvent) => {
+      if (e.data?.type === 'flush') {
+        this.flush();
+        this.port.postMessage({ type: 'flushed' });
+      }
+    };
+  }
+
+  private flush() {
+    if (this.offset === 0) return;
+    const pcm = float32ToInt16(this.chunk.subarray(0, this.offset));
+    this.port.postMessage({ type: 'chunk', pcm: pcm.buffer, sampleRate: this.resampler.outputRate }, [pcm.buffer]);
+    this.offset = 0;
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!input) return true;
+
+    const channel = this.resampler.process(input);
+
+    let read = 0;
+    while (read < channel.length) {
+      const count = Math.min(channel.length - read, this.chunk.length - this.offset);
+      this.chunk.set(channel.subarray(read, read + count), this.offset);
+      this.offset += count;
+      read += count;
+      if (this.offset === this.chunk.length) this.flush();
+    }
+    return true;
+  }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR, PcmCaptureProcessor);
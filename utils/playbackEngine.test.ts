@@ -0,0 +1,260 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlaybackEngine, PlaybackEngineEvents, PlaybackEngineOptions } from './playbackEngine';
+import { FakeAudioContext, FakeAudioNode } from '../test/fakeAudio';
+import { OfflineAudioContext } from 'web-audio-api';
+
+const RATE = 24000;
+const FADE_S = 0.008;
+
+const chunk = (ms: number) => new Float32Array((RATE * ms) / 1000).fill(0.5);
+
+let ctx: FakeAudioContext;
+let clock: number;
+
+function createEngine(options: Partial<PlaybackEngineOptions> = {}, events: PlaybackEngineEvents = {}) {
+  // The fakes cover only what the engine touches, so they stand in for the DOM types here
+  return new PlaybackEngine(
+    ctx as unknown as BaseAudioContext,
+    new FakeAudioNode(ctx) as unknown as AudioNode,
+    { sampleRate: RATE, now: () => clock, ...options },
+    events,
+  );
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  ctx = new FakeAudioContext({ sampleRate: RATE });
+  clock = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('PlaybackEngine', () => {
+  it('holds audio back until the jitter buffer is full, then plays it back to back', () => {
+    const engine = createEngine({ minBufferMs: 60 });
+    engine.enqueue(chunk(40));
+    expect(ctx.sources).toHaveLength(0);
+    expect(engine.bufferedDuration).toBeCloseTo(0.04, 9);
+
+    engine.enqueue(chunk(40));
+    expect(ctx.sources).toHaveLength(2);
+    const [first, second] = ctx.sources;
+    expect(first.startTime).toBeCloseTo(0.02, 9);
+    // Each chunk starts under the previous one's tail fade and carries on where it ends
+    expect(second.startTime).toBeCloseTo(first.endTime - FADE_S, 9);
+    expect(second.endTime).toBeCloseTo(first.endTime + 0.04, 9);
+    expect(engine.isPlaying).toBe(true);
+
+    // Later chunks go straight on the end
+    engine.enqueue(chunk(40));
+    expect(ctx.sources[2].startTime).toBeCloseTo(second.endTime - FADE_S, 9);
+  });
+
+  it('fades a stream in, crossfades its chunks and fades out after the last one', () => {
+    const engine = createEngine({ minBufferMs: 60 });
+    [40, 40, 40].forEach(ms => engine.enqueue(chunk(ms)));
+    const [first, second, last] = ctx.sources;
+    const gains = ctx.sources.map(source => source.gainNode!.gain);
+
+    expect(gains[0].valueAt(0.02)).toBe(0);
+    expect(gains[0].valueAt(0.02 + FADE_S)).toBe(1);
+    // Each boundary hands over from one chunk's fade out to the next one's fade in
+    expect(gains[0].valueAt(first.endTime - FADE_S)).toBe(1);
+    expect(gains[0].valueAt(first.endTime)).toBe(0);
+    expect(gains[1].valueAt(second.startTime)).toBe(0);
+    expect(gains[1].valueAt(first.endTime)).toBe(1);
+    expect(gains[0].valueAt(first.endTime - FADE_S / 2) + gains[1].valueAt(first.endTime - FADE_S / 2)).toBeCloseTo(1, 9);
+    // The second chunk's buffer opens with the first one's faded tail
+    expect(second.buffer!.length).toBe(RATE * (0.04 + FADE_S));
+    // The last one fades out in case nothing follows in time
+    expect(gains[2].valueAt(last.endTime - FADE_S)).toBe(1);
+    expect(gains[2].valueAt(last.endTime)).toBe(0);
+  });
+
+  it('starts a short reply once the buffer has waited long enough', () => {
+    const engine = createEngine({ minBufferMs: 60 });
+    engine.enqueue(chunk(20));
+    // 20ms are already in, so it waits out the other 40ms
+    vi.advanceTimersByTime(39);
+    expect(ctx.sources).toHaveLength(0);
+    vi.advanceTimersByTime(1);
+    expect(ctx.sources).toHaveLength(1);
+  });
+
+  it('counts running dry mid-stream as an underrun and buffers more next time', () => {
+    const onUnderrun = vi.fn();
+    const engine = createEngine({ minBufferMs: 60 }, { onUnderrun });
+    engine.enqueue(chunk(40));
+    engine.enqueue(chunk(40));
+    const target = engine.targetBufferMs;
+
+    // The next chunk shows up 50ms after the audio ran out
+    ctx.advance(0.02 + 0.08 + 0.05);
+    engine.enqueue(chunk(40));
+    expect(onUnderrun).toHaveBeenCalledOnce();
+    expect(onUnderrun.mock.calls[0][0]).toBeCloseTo(50, 6);
+    expect(engine.getStats()).toMatchObject({ underruns: 1 });
+    expect(engine.getStats().lastUnderrunGapMs).toBeCloseTo(50, 6);
+    expect(engine.targetBufferMs).toBeGreaterThanOrEqual(target + 59);
+    // The chunk waits for the bigger buffer instead of playing straight away
+    expect(ctx.sources).toHaveLength(2);
+  });
+
+  it('plays out what is buffered at the end of the stream, and running dry afterwards is no underrun', () => {
+    const onUnderrun = vi.fn();
+    const onPlayingChange = vi.fn();
+    const engine = createEngine({ minBufferMs: 200 }, { onUnderrun, onPlayingChange });
+    engine.enqueue(chunk(40));
+    engine.endOfStream();
+    expect(ctx.sources).toHaveLength(1);
+    expect(onPlayingChange).toHaveBeenLastCalledWith(true);
+
+    ctx.advance(1);
+    expect(onPlayingChange).toHaveBeenLastCalledWith(false);
+    expect(engine.isPlaying).toBe(false);
+
+    // The next reply starts over with a fresh buffer
+    engine.enqueue(chunk(40));
+    expect(onUnderrun).not.toHaveBeenCalled();
+    expect(ctx.sources).toHaveLength(1);
+    vi.advanceTimersByTime(200);
+    expect(ctx.sources).toHaveLength(2);
+    expect(ctx.sources[1].startTime).toBeCloseTo(1.02, 9);
+  });
+
+  it('follows straight on when the next stream arrives before the last one finishes', () => {
+    const engine = createEngine({ minBufferMs: 60 });
+    engine.enqueue(chunk(80));
+    engine.endOfStream();
+    engine.enqueue(chunk(40));
+    expect(ctx.sources).toHaveLength(2);
+    expect(ctx.sources[1].startTime).toBeCloseTo(ctx.sources[0].endTime - FADE_S, 9);
+  });
+
+  it('fades out and stops everything on flush', () => {
+    const onPlayingChange = vi.fn();
+    const engine = createEngine({ minBufferMs: 60 }, { onPlayingChange });
+    [40, 40, 40].forEach(ms => engine.enqueue(chunk(ms)));
+    ctx.advance(0.05);
+    engine.flush();
+
+    ctx.sources.forEach(source => {
+      expect(source.stopTime).toBeCloseTo(0.05 + FADE_S, 9);
+      expect(source.gainNode!.gain.valueAt(0.05 + FADE_S)).toBe(0);
+    });
+    expect(engine.isPlaying).toBe(false);
+    expect(onPlayingChange).toHaveBeenLastCalledWith(false);
+    expect(engine.bufferedDuration).toBe(0);
+
+    // Nothing that was flushed comes back with the next stream
+    engine.enqueue(chunk(80));
+    expect(ctx.sources).toHaveLength(4);
+    expect(ctx.sources[3].startTime).toBeCloseTo(0.07, 9);
+  });
+
+  it('drops a half-filled buffer on flush', () => {
+    const engine = createEngine({ minBufferMs: 60 });
+    engine.enqueue(chunk(20));
+    engine.flush();
+    vi.advanceTimersByTime(1000);
+    expect(ctx.sources).toHaveLength(0);
+  });
+
+  it('plays later chunks at a new speed, within limits', () => {
+    const engine = createEngine({ minBufferMs: 40 });
+    engine.enqueue(chunk(40));
+    engine.setPlaybackRate(2);
+    engine.enqueue(chunk(40));
+    const [normal, fast] = ctx.sources;
+    expect(normal.playbackRate.value).toBe(1);
+    expect(fast.playbackRate.value).toBe(2);
+    expect(fast.startTime).toBeCloseTo(normal.endTime, 9);
+    expect(fast.endTime - fast.startTime).toBeCloseTo(0.02, 9);
+
+    engine.setPlaybackRate(10);
+    expect(engine.playbackRate).toBe(2);
+    engine.setPlaybackRate(0.1);
+    expect(engine.playbackRate).toBe(0.5);
+  });
+});
+
+describe('PlaybackEngine on an OfflineAudioContext', () => {
+  const FADE_SAMPLES = RATE * FADE_S;
+  // Where a stream's first chunk starts, after the scheduling lead
+  const LEAD = RATE * 0.02;
+
+  const tone = (length: number) =>
+    Float32Array.from({ length }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * i) / RATE));
+
+  // Plays the chunks as one stream and renders the result
+  async function render(chunks: Float32Array[], seconds: number, options: Partial<PlaybackEngineOptions> = {}) {
+    const offline = new OfflineAudioContext(1, Math.round(RATE * seconds), RATE);
+    const engine = new PlaybackEngine(
+      offline as unknown as BaseAudioContext,
+      offline.destination as unknown as AudioNode,
+      { sampleRate: RATE, minBufferMs: 60, ...options },
+    );
+    chunks.forEach(samples => engine.enqueue(samples));
+    engine.endOfStream();
+    return (await offline.startRendering()).getChannelData(0);
+  }
+
+  beforeEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('renders back-to-back chunks as the unbroken signal they were cut from', async () => {
+    const signal = tone(RATE * 0.15);
+    // Uneven cuts, so the boundaries fall at different points of the waveform
+    const cuts = [0, 917, 1873, 2999, signal.length];
+    const chunks = cuts.slice(1).map((cut, i) => signal.subarray(cuts[i], cut));
+    const rendered = await render(chunks, 0.2);
+
+    expect(rendered.subarray(0, LEAD).every(sample => sample === 0)).toBe(true);
+    let worst = 0;
+    for (let i = FADE_SAMPLES; i < signal.length - FADE_SAMPLES; i++) {
+      worst = Math.max(worst, Math.abs(rendered[LEAD + i] - signal[i]));
+    }
+    expect(worst).toBeLessThan(1e-4);
+  });
+
+  it('crossfades boundaries that fall between frames at other speeds', async () => {
+    const signal = tone(RATE * 0.15);
+    const cuts = [0, 917, 1873, 2999, signal.length];
+    const chunks = cuts.slice(1).map((cut, i) => signal.subarray(cuts[i], cut));
+    const options = { playbackRate: 0.75 };
+    const [cut, whole] = [await render(chunks, 0.3, options), await render([signal], 0.3, options)];
+
+    // Played back to back without the crossfade these differ by around 5e-3 at each boundary
+    let worst = 0;
+    for (let i = LEAD + FADE_SAMPLES; i < LEAD + signal.length / 0.75 - FADE_SAMPLES; i++) {
+      worst = Math.max(worst, Math.abs(cut[i] - whole[i]));
+    }
+    expect(worst).toBeLessThan(1e-4);
+  });
+
+  it('fades the stream in from silence and out after its last sample', async () => {
+    const signal = new Float32Array(RATE * 0.05).fill(0.5);
+    const rendered = await render([signal], 0.1);
+
+    expect(rendered[LEAD]).toBeCloseTo(0, 6);
+    expect(rendered[LEAD + FADE_SAMPLES / 2]).toBeCloseTo(0.25, 2);
+    expect(rendered[LEAD + FADE_SAMPLES]).toBeCloseTo(0.5, 6);
+    expect(rendered[LEAD + signal.length - FADE_SAMPLES]).toBeCloseTo(0.5, 6);
+    expect(rendered[LEAD + signal.length - FADE_SAMPLES / 2]).toBeCloseTo(0.25, 2);
+    expect(rendered.subarray(LEAD + signal.length).every(sample => sample === 0)).toBe(true);
+  });
+
+  it('plays chunks at another speed for their shortened length, without gaps', async () => {
+    const chunks = [0, 1, 2].map(() => new Float32Array(RATE * 0.04).fill(0.5));
+    const rendered = await render(chunks, 0.1, { playbackRate: 2 });
+    const played = (3 * RATE * 0.04) / 2;
+
+    for (let i = FADE_SAMPLES; i < played - FADE_SAMPLES; i++) {
+      expect(rendered[LEAD + i]).toBeCloseTo(0.5, 4);
+    }
+    expect(rendered.subarray(LEAD + played).every(sample => sample === 0)).toBe(true);
+  });
+});
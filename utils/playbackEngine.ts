@@ -0,0 +1,346 @@
+import { PCM_SAMPLE_RATE_OUTPUT } from './audio';
+
+export interface PlaybackEngineOptions {
+  // Rate of the PCM handed to enqueue
+  sampleRate: number;
+  // Bounds for the adaptive jitter buffer, i.e. how much audio is held back before a stream starts
+  minBufferMs: number;
+  maxBufferMs: number;
+  // Length of the fade in at the start of a stream, the crossfade between
+  // back-to-back chunks, and the fade out when a stream stops early (an underrun or a flush)
+  fadeMs: number;
+  // Speed of the speech, from 0.5 to 2; changes the pitch along with it
+  playbackRate: number;
+  // Wall clock used to measure arrival jitter; replaceable for tests
+  now: () => number;
+}
+
+export const DEFAULT_PLAYBACK_OPTIONS: PlaybackEngineOptions = {
+  sampleRate: PCM_SAMPLE_RATE_OUTPUT,
+  minBufferMs: 60,
+  maxBufferMs: 400,
+  fadeMs: 8,
+  playbackRate: 1,
+  now: () => performance.now(),
+};
+
+export interface PlaybackStats {
+  // Audio scheduled or waiting to be scheduled, in milliseconds
+  bufferedMs: number;
+  targetBufferMs: number;
+  // Smoothed lateness of chunk arrivals
+  jitterMs: number;
+  underruns: number;
+  lastUnderrunGapMs: number;
+  chunksPlayed: number;
+}
+
+export interface PlaybackEngineEvents {
+  onPlayingChange?: (playing: boolean) => void;
+  onUnderrun?: (gapMs: number) => void;
+  // Reports each chunk with the context time it will start playing at and the rate it plays at
+  onChunkScheduled?: (samples: Float32Array, startTime: number, playbackRate: number) => void;
+}
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  end: number;
+  // Where the tail fade begins; a successor crossfades in over it
+  fadeStart: number;
+  // The samples played during the tail fade, which a successor repeats under its fade in
+  tail: Float32Array;
+  playbackRate: number;
+}
+
+// Headroom between scheduling a stream's first chunk and it starting
+const SCHEDULE_LEAD_S = 0.02;
+const UNDERRUN_BOOST_MS = 60;
+// Per chunk decay of the boost added after an underrun
+const UNDERRUN_BOOST_DECAY = 0.98;
+const JITTER_SMOOTHING = 1 / 8;
+const MIN_PLAYBACK_RATE = 0.5;
+const MAX_PLAYBACK_RATE = 2;
+
+/**
+ * Schedules streamed model audio for gapless playback. Holds a small jitter
+ * buffer at the start of each stream, sized from observed arrival jitter and
+ * grown after underruns. Streams fade in, chunk boundaries are crossfaded, and
+ * each chunk's tail fades out in case nothing follows it, so starts, boundaries,
+ * underruns and flushes do not click. Works against any BaseAudioContext,
+ * including an OfflineAudioContext.
+ */
+export class PlaybackEngine {
+  private readonly options: PlaybackEngineOptions;
+  private readonly output: GainNode;
+  private scheduled: ScheduledChunk[] = [];
+  private pending: Float32Array[] = [];
+  private pendingSamples = 0;
+  private nextStartTime = 0;
+  // 'buffering' holds chunks back until the jitter buffer is full or the timer fires
+  private state: 'idle' | 'buffering' | 'streaming' = 'idle';
+  private streamEnded = true;
+  private bufferTimer: ReturnType<typeof setTimeout> | null = null;
+  private playing = false;
+
+  private lastArrival: number | null = null;
+  private lastArrivalDurationMs = 0;
+  private jitterMs = 0;
+  private underrunBoostMs = 0;
+  private underruns = 0;
+  private lastUnderrunGapMs = 0;
+  private chunksPlayed = 0;
+
+  constructor(
+    private readonly ctx: BaseAudioContext,
+    destination: AudioNode,
+    options: Partial<PlaybackEngineOptions> = {},
+    private readonly events: PlaybackEngineEvents = {},
+  ) {
+    this.options = { ...DEFAULT_PLAYBACK_OPTIONS, ...options };
+    this.output = ctx.createGain();
+    this.output.connect(destination);
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  get playbackRate(): number {
+    return this.options.playbackRate;
+  }
+
+  get targetBufferMs(): number {
+    const { minBufferMs, maxBufferMs } = this.options;
+    return Math.min(maxBufferMs, minBufferMs + 2 * this.jitterMs + this.underrunBoostMs);
+  }
+
+  /**
+   * Seconds of audio not yet played, counting chunks still in the jitter buffer.
+   */
+  get bufferedDuration(): number {
+    const ahead = this.scheduled.length ? Math.max(0, this.nextStartTime - this.ctx.currentTime) : 0;
+    return ahead + this.pendingSamples / this.options.sampleRate / this.options.playbackRate;
+  }
+
+  getStats(): PlaybackStats {
+    return {
+      bufferedMs: this.bufferedDuration * 1000,
+      targetBufferMs: this.targetBufferMs,
+      jitterMs: this.jitterMs,
+      underruns: this.underruns,
+      lastUnderrunGapMs: this.lastUnderrunGapMs,
+      chunksPlayed: this.chunksPlayed,
+    };
+  }
+
+  /**
+   * Applies to chunks scheduled from now on; audio already scheduled keeps its rate.
+   */
+  setPlaybackRate(rate: number) {
+    this.options.playbackRate = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+  }
+
+  enqueue(samples: Float32Array) {
+    if (samples.length === 0) return;
+    this.trackArrival(samples.length);
+
+    if (this.streamEnded) {
+      // A new stream either follows straight on from audio still playing or starts from silence
+      this.streamEnded = false;
+      if (this.state === 'streaming' && !this.hasRunDry()) {
+        this.scheduleChunk(samples, false);
+        return;
+      }
+      this.state = 'idle';
+    }
+
+    if (this.state === 'streaming') {
+      if (!this.hasRunDry()) {
+        this.scheduleChunk(samples, false);
+        return;
+      }
+      this.reportUnderrun();
+    }
+
+    this.pending.push(samples);
+    this.pendingSamples += samples.length;
+    this.state = 'buffering';
+
+    const pendingMs = (this.pendingSamples / this.options.sampleRate) * 1000;
+    if (pendingMs >= this.targetBufferMs) {
+      this.startStream();
+    } else if (!this.bufferTimer) {
+      // Short replies may never fill the buffer, so start anyway once it has had its chance
+      this.bufferTimer = setTimeout(() => {
+        this.bufferTimer = null;
+        if (this.state === 'buffering') this.startStream();
+      }, this.targetBufferMs - pendingMs);
+    }
+  }
+
+  /**
+   * Marks the end of the current stream (e.g. the model's turn is complete) so
+   * buffered audio plays out now and running dry afterwards is not an underrun.
+   */
+  endOfStream() {
+    this.streamEnded = true;
+    this.lastArrival = null;
+    if (this.state === 'buffering') {
+      this.startStream();
+    }
+  }
+
+  /**
+   * Drops everything buffered and fades out whatever is playing, e.g. when the
+   * model is interrupted.
+   */
+  flush() {
+    this.clearBufferTimer();
+    const now = this.ctx.currentTime;
+    const fade = this.options.fadeMs / 1000;
+
+    for (const chunk of this.scheduled) {
+      const gain = chunk.gain.gain;
+      gain.cancelScheduledValues(now);
+      gain.setValueAtTime(gain.value, now);
+      gain.linearRampToValueAtTime(0, now + fade);
+      chunk.source.onended = null;
+      try { chunk.source.stop(now + fade); } catch (e) { /* ignore */ }
+    }
+
+    this.scheduled = [];
+    this.pending = [];
+    this.pendingSamples = 0;
+    this.nextStartTime = 0;
+    this.state = 'idle';
+    this.streamEnded = true;
+    this.lastArrival = null;
+    this.setPlaying(false);
+  }
+
+  dispose() {
+    this.flush();
+    this.output.disconnect();
+  }
+
+  private hasRunDry(): boolean {
+    return this.nextStartTime <= this.ctx.currentTime;
+  }
+
+  private trackArrival(length: number) {
+    const now = this.options.now();
+    if (this.lastArrival !== null) {
+      // Chunks normally arrive faster than real time, so only count arrivals later than the audio they follow
+      const lateness = Math.max(0, now - this.lastArrival - this.lastArrivalDurationMs);
+      this.jitterMs += (lateness - this.jitterMs) * JITTER_SMOOTHING;
+    }
+    this.lastArrival = now;
+    this.lastArrivalDurationMs = (length / this.options.sampleRate) * 1000;
+    this.underrunBoostMs *= UNDERRUN_BOOST_DECAY;
+  }
+
+  private reportUnderrun() {
+    const gapMs = (this.ctx.currentTime - this.nextStartTime) * 1000;
+    this.underruns++;
+    this.lastUnderrunGapMs = gapMs;
+    this.underrunBoostMs = Math.min(this.options.maxBufferMs, this.underrunBoostMs + UNDERRUN_BOOST_MS);
+    this.events.onUnderrun?.(gapMs);
+  }
+
+  private startStream() {
+    this.clearBufferTimer();
+    this.nextStartTime = this.ctx.currentTime + SCHEDULE_LEAD_S;
+    this.state = 'streaming';
+
+    const pending = this.pending;
+    this.pending = [];
+    this.pendingSamples = 0;
+    pending.forEach((samples, i) => this.scheduleChunk(samples, i === 0));
+  }
+
+  private scheduleChunk(samples: Float32Array, fadeIn: boolean) {
+    const { sampleRate, playbackRate } = this.options;
+    const start = this.nextStartTime;
+    const end = start + samples.length / sampleRate / playbackRate;
+    // Fade lengths are counted in whole samples so a successor can repeat the faded tail exactly
+    const fadeSamples = Math.min(Math.round((this.options.fadeMs / 1000) * sampleRate * playbackRate), Math.floor(samples.length / 2));
+    const fade = fadeSamples / sampleRate / playbackRate;
+
+    // A chunk that follows seamlessly replays the previous chunk's tail while that fades out,
+    // so the boundary is a crossfade of identical audio that hides a start time falling between frames
+    const previous = fadeIn ? undefined : this.scheduled[this.scheduled.length - 1];
+    const overlap = previous
+      && previous.tail.length > 0
+      && previous.playbackRate === playbackRate
+      && previous.fadeStart >= this.ctx.currentTime
+      ? previous.tail
+      : null;
+    const sourceStart = overlap ? previous!.fadeStart : start;
+
+    const buffer = this.ctx.createBuffer(1, (overlap?.length ?? 0) + samples.length, sampleRate);
+    const channel = buffer.getChannelData(0);
+    if (overlap) channel.set(overlap);
+    channel.set(samples, overlap?.length ?? 0);
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = playbackRate;
+    const gain = this.ctx.createGain();
+    source.connect(gain);
+    gain.connect(this.output);
+
+    if (overlap) {
+      gain.gain.setValueAtTime(0, sourceStart);
+      gain.gain.linearRampToValueAtTime(1, start);
+    } else if (fadeIn) {
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(1, start + fade);
+    } else {
+      // Too late to crossfade, or the speed changed, so the previous chunk plays to its end at full level
+      previous?.gain.gain.cancelScheduledValues(previous.fadeStart);
+      gain.gain.setValueAtTime(1, start);
+    }
+    // Fade out the tail in case nothing arrives in time to follow it
+    const fadeStart = end - fade;
+    gain.gain.setValueAtTime(1, fadeStart);
+    gain.gain.linearRampToValueAtTime(0, end);
+
+    const chunk: ScheduledChunk = {
+      source,
+      gain,
+      end,
+      fadeStart,
+      tail: samples.subarray(samples.length - fadeSamples),
+      playbackRate,
+    };
+    source.onended = () => {
+      this.scheduled = this.scheduled.filter(c => c !== chunk);
+      source.disconnect();
+      gain.disconnect();
+      if (this.scheduled.length === 0 && this.pending.length === 0) {
+        this.setPlaying(false);
+      }
+    };
+    source.start(sourceStart);
+
+    this.scheduled.push(chunk);
+    this.nextStartTime = end;
+    this.chunksPlayed++;
+    this.events.onChunkScheduled?.(samples, start, playbackRate);
+    this.setPlaying(true);
+  }
+
+  private clearBufferTimer() {
+    if (this.bufferTimer) {
+      clearTimeout(this.bufferTimer);
+      this.bufferTimer = null;
+    }
+  }
+
+  private setPlaying(playing: boolean) {
+    if (this.playing === playing) return;
+    this.playing = playing;
+    this.events.onPlayingChange?.(playing);
+  }
+}
@@ -0,0 +1,28 @@
+export interface ReconnectOptions {
+  // Attempts made after a drop before giving up
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // How much microphone audio to hold on to while the session is down
+  maxBufferedInputMs: number;
+  // How long a resumed session has to stay up before the attempts count starts over
+  stableAfterMs: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxBufferedInputMs: 5000,
+  stableAfterMs: 10000,
+};
+
+/**
+ * Exponential backoff with a little jitter so clients that dropped together
+ * don't all come back at the same instant. `attempt` starts at 1.
+ */
+export function getReconnectDelay(attempt: number, options: ReconnectOptions): number {
+  const exponential = options.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  const jitter = Math.random() * options.baseDelayMs * 0.5;
+  return Math.min(options.maxDelayMs, exponential + jitter);
+}
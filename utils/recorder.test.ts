@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConversationRecorder } from './recorder';
+
+// One rate for both tracks keeps resampling out of the timeline checks
+const RATE = 1000;
+
+// Reads a 16-bit PCM WAV back into one array of samples per channel, scaled to -1..1
+async function decodeWav(wav: Blob): Promise<number[][]> {
+  const view = new DataView(await wav.arrayBuffer());
+  const numChannels = view.getUint16(22, true);
+  const frames = view.getUint32(40, true) / (numChannels * 2);
+  const channels = Array.from({ length: numChannels }, () => [] as number[]);
+  for (let i = 0; i < frames; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      channels[channel].push(view.getInt16(44 + (i * numChannels + channel) * 2, true) / 32768);
+    }
+  }
+  return channels;
+}
+
+const input = (length: number, value: number) => new Int16Array(length).fill(value * 32768);
+const output = (length: number, value: number) => new Float32Array(length).fill(value);
+
+let recorder: ConversationRecorder;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+  recorder = new ConversationRecorder(RATE, RATE);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ConversationRecorder', () => {
+  it('lays microphone chunks end to end from when the first one started', async () => {
+    recorder.addInput(input(100, 0.25), 300);
+    // Arrival jitter does not move later chunks
+    recorder.addInput(input(100, 0.5), 450);
+    vi.setSystemTime(500);
+    recorder.stop();
+
+    const [mic, model] = await decodeWav(recorder.export([]).wav);
+    expect(mic).toHaveLength(500);
+    expect(mic[199]).toBe(0);
+    expect(mic[200]).toBeCloseTo(0.25, 3);
+    expect(mic[299]).toBeCloseTo(0.25, 3);
+    expect(mic[300]).toBeCloseTo(0.5, 3);
+    expect(mic[399]).toBeCloseTo(0.5, 3);
+    expect(mic[400]).toBe(0);
+    expect(model.every(sample => sample === 0)).toBe(true);
+  });
+
+  it('places model audio where it plays and sums what overlaps', async () => {
+    recorder.addOutput(output(100, 0.25), 100);
+    recorder.addOutput(output(100, 0.25), 150);
+    vi.setSystemTime(300);
+    recorder.stop();
+
+    const [, model] = await decodeWav(recorder.export([]).wav);
+    expect(model[99]).toBe(0);
+    expect(model[100]).toBeCloseTo(0.25, 3);
+    expect(model[150]).toBeCloseTo(0.5, 3);
+    expect(model[200]).toBeCloseTo(0.25, 3);
+    expect(model[250]).toBe(0);
+  });
+
+  it('places model audio by how long it plays for at other speeds', async () => {
+    const ramp = (length: number) => Float32Array.from({ length }, (_, i) => i / 400);
+    // 200 samples at double speed last 100 samples, so the next chunk follows straight on
+    recorder.addOutput(ramp(200), 100, 2);
+    recorder.addOutput(output(200, 0.25), 200, 2);
+    // and at half speed 100 samples last 200
+    recorder.addOutput(output(100, 0.5), 300, 0.5);
+    vi.setSystemTime(600);
+    recorder.stop();
+
+    const [mic, model] = await decodeWav(recorder.export([]).wav);
+    expect(model[100]).toBeCloseTo(0, 3);
+    expect(model[150]).toBeCloseTo(0.25, 3);
+    expect(model[199]).toBeCloseTo(0.495, 3);
+    expect(model[200]).toBeCloseTo(0.25, 3);
+    expect(model[299]).toBeCloseTo(0.25, 3);
+    expect(model[300]).toBeCloseTo(0.5, 3);
+    expect(model[499]).toBeCloseTo(0.5, 3);
+    expect(model[500]).toBe(0);
+    expect(mic).toHaveLength(600);
+  });
+
+  it('cuts off model audio that an interruption stopped', async () => {
+    recorder.addOutput(output(100, 0.5), 0);
+    recorder.addOutput(output(100, 0.5), 100);
+    recorder.addOutput(output(100, 0.5), 200);
+    recorder.truncateOutput(150);
+    vi.setSystemTime(300);
+    recorder.stop();
+
+    const [, model] = await decodeWav(recorder.export([]).wav);
+    expect(model[149]).toBeCloseTo(0.5, 3);
+    expect(model[150]).toBe(0);
+    expect(model[250]).toBe(0);
+  });
+
+  it('mixes both tracks into one channel when asked', async () => {
+    recorder.addInput(input(100, 0.25), 100);
+    recorder.addOutput(output(100, 0.25), 50);
+    vi.setSystemTime(200);
+    recorder.stop();
+
+    const channels = await decodeWav(recorder.export([], 'mix').wav);
+    expect(channels).toHaveLength(1);
+    const [mixed] = channels;
+    expect(mixed[25]).toBeCloseTo(0.25, 3);
+    expect(mixed[75]).toBeCloseTo(0.5, 3);
+    expect(mixed[125]).toBeCloseTo(0.25, 3);
+    expect(mixed[175]).toBe(0);
+  });
+
+  it('logs events against the start of the call and ignores anything after stop', () => {
+    vi.setSystemTime(120);
+    recorder.log('connected');
+    vi.setSystemTime(400);
+    recorder.log('turn_complete', 'first turn');
+    recorder.stop();
+    recorder.log('error', 'too late');
+    recorder.addInput(input(100, 0.25), 500);
+    recorder.addOutput(output(100, 0.5), 500);
+
+    const { wav, log } = recorder.export([]);
+    expect(log).toEqual({
+      startedAt: new Date(0).toISOString(),
+      endedAt: new Date(400).toISOString(),
+      durationMs: 400,
+      events: [{ type: 'connected', t: 120 }, { type: 'turn_complete', t: 400, detail: 'first turn' }],
+      transcript: [],
+    });
+    expect(recorder.isRecording).toBe(false);
+    // Two silent channels for the length of the call
+    expect(wav.size).toBe(44 + 400 * 2 * 2);
+  });
+});
@@ -0,0 +1,170 @@
+import { PCM_SAMPLE_RATE_INPUT, PCM_SAMPLE_RATE_OUTPUT, encodeWav, resample } from './audio';
+import { SessionEvent, SessionEventType, TranscriptEntry } from '../types';
+
+// 'stereo' keeps the user on the left channel and the model on the right
+export type RecordingMixMode = 'stereo' | 'mix';
+
+export interface SessionLog {
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  events: SessionEvent[];
+  transcript: TranscriptEntry[];
+}
+
+export interface RecordingExport {
+  wav: Blob;
+  log: SessionLog;
+}
+
+interface OutputSegment {
+  // Offset on the recording timeline, in output samples
+  offset: number;
+  samples: Int16Array;
+}
+
+const msToSamples = (ms: number, sampleRate: number) => Math.max(0, Math.round((ms * sampleRate) / 1000));
+
+// Stretches or squeezes a chunk to the length it plays for at `rate`, interpolating
+// linearly between samples as browsers do for a buffer source's playbackRate
+function changeSpeed(samples: Float32Array, rate: number): Float32Array {
+  if (rate === 1) return samples;
+  const out = new Float32Array(Math.round(samples.length / rate));
+  for (let i = 0; i < out.length; i++) {
+    const position = i * rate;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    out[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+  }
+  return out;
+}
+
+/**
+ * Captures the microphone and model audio of a call on a shared timeline,
+ * along with a log of what happened, for export after the call.
+ * Audio is held as Int16 to keep long calls within reasonable memory.
+ */
+export class ConversationRecorder {
+  readonly startedAt = Date.now();
+  private endedAt: number | null = null;
+  private inputChunks: Int16Array[] = [];
+  private inputStartMs: number | null = null;
+  private outputSegments: OutputSegment[] = [];
+  private events: SessionEvent[] = [];
+
+  constructor(
+    private readonly inputSampleRate = PCM_SAMPLE_RATE_INPUT,
+    private readonly outputSampleRate = PCM_SAMPLE_RATE_OUTPUT,
+  ) {}
+
+  get isRecording(): boolean {
+    return this.endedAt === null;
+  }
+
+  /**
+   * Adds a microphone chunk. Capture is continuous, so chunks are laid end to
+   * end from the moment the first one was recorded.
+   */
+  addInput(pcm: Int16Array, capturedAt: number = Date.now()) {
+    if (!this.isRecording) return;
+    if (this.inputStartMs === null) {
+      const chunkMs = (pcm.length / this.inputSampleRate) * 1000;
+      this.inputStartMs = capturedAt - chunkMs - this.startedAt;
+    }
+    this.inputChunks.push(pcm.slice());
+  }
+
+  /**
+   * Adds a chunk of model audio that will start playing at `playbackAt` (epoch ms)
+   * at `playbackRate` times its normal speed.
+   */
+  addOutput(samples: Float32Array, playbackAt: number, playbackRate = 1) {
+    if (!this.isRecording) return;
+    const played = changeSpeed(samples, playbackRate);
+    const int16 = new Int16Array(played.length);
+    for (let i = 0; i < played.length; i++) {
+      const s = Math.max(-1, Math.min(1, played[i]));
+      int16[i] = s < 0 ? s * 32768 : s * 32767;
+    }
+    this.outputSegments.push({
+      offset: msToSamples(playbackAt - this.startedAt, this.outputSampleRate),
+      samples: int16,
+    });
+  }
+
+  /**
+   * Cuts off model audio that was scheduled but never played because the user barged in.
+   */
+  truncateOutput(at: number = Date.now()) {
+    const cut = msToSamples(at - this.startedAt, this.outputSampleRate);
+    this.outputSegments = this.outputSegments
+      .filter(segment => segment.offset < cut)
+      .map(segment => segment.offset + segment.samples.length > cut
+        ? { offset: segment.offset, samples: segment.samples.subarray(0, cut - segment.offset) }
+        : segment);
+  }
+
+  log(type: SessionEventType, detail?: string) {
+    if (!this.isRecording) return;
+    this.events.push({ type, t: Date.now() - this.startedAt, ...(detail ? { detail } : {}) });
+  }
+
+  stop() {
+    if (this.endedAt === null) {
+      this.endedAt = Date.now();
+    }
+  }
+
+  private renderTracks(): { input: Float32Array; output: Float32Array } {
+    const rate = this.outputSampleRate;
+
+    // Bring the microphone up to the output rate so both tracks share one timeline
+    const inputLength = this.inputChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const rawInput = new Float32Array(inputLength);
+    let position = 0;
+    this.inputChunks.forEach(chunk => {
+      for (let i = 0; i < chunk.length; i++) rawInput[position++] = chunk[i] / 32768;
+    });
+    const inputAtRate = resample(rawInput, this.inputSampleRate, rate);
+    const inputOffset = msToSamples(this.inputStartMs ?? 0, rate);
+
+    const durationMs = (this.endedAt ?? Date.now()) - this.startedAt;
+    const outputEnd = this.outputSegments.reduce((max, s) => Math.max(max, s.offset + s.samples.length), 0);
+    const length = Math.max(msToSamples(durationMs, rate), inputOffset + inputAtRate.length, outputEnd);
+
+    const input = new Float32Array(length);
+    input.set(inputAtRate.subarray(0, length - inputOffset), inputOffset);
+
+    const output = new Float32Array(length);
+    this.outputSegments.forEach(({ offset, samples }) => {
+      for (let i = 0; i < samples.length; i++) output[offset + i] += samples[i] / 32768;
+    });
+
+    return { input, output };
+  }
+
+  export(transcript: TranscriptEntry[], mode: RecordingMixMode = 'stereo'): RecordingExport {
+    const { input, output } = this.renderTracks();
+
+    let channels: Float32Array[];
+    if (mode === 'stereo') {
+      channels = [input, output];
+    } else {
+      const mixed = new Float32Array(input.length);
+      for (let i = 0; i < mixed.length; i++) mixed[i] = input[i] + output[i];
+      channels = [mixed];
+    }
+
+    const endedAt = this.endedAt;
+    return {
+      wav: new Blob([encodeWav(channels, this.outputSampleRate)], { type: 'audio/wav' }),
+      log: {
+        startedAt: new Date(this.startedAt).toISOString(),
+        endedAt: endedAt === null ? null : new Date(endedAt).toISOString(),
+        durationMs: (endedAt ?? Date.now()) - this.startedAt,
+        events: this.events.slice(),
+        transcript,
+      },
+    };
+  }
+}
@@ -0,0 +1,401 @@
+import {
+  BargeInSettings,
+  InterpreterSettings,
+  LiveSettings,
+  NoiseGateSettings,
+  Persona,
+  ResponseMode,
+  VideoSettings,
+  VisualizerMode,
+  VisualizerSettings,
+  VisualizerTheme,
+  WakeWordSettings,
+} from '../types';
+import { KeywordTemplate } from './keywordSpotter';
+import { MessageKey, Translate, translate } from '../i18n';
+
+export interface SelectOption {
+  value: string;
+  label: string;
+}
+
+// Options shown in the interface language; the label comes from the i18n catalogs
+export interface LocalizedOption {
+  value: string;
+  labelKey: MessageKey;
+}
+
+// Text the model reads (prompts) stays English whatever the interface language
+const english: Translate = (key, params) => translate('en', key, params);
+
+export const AVAILABLE_MODELS: SelectOption[] = [
+  { value: 'gemini-2.5-flash-native-audio-preview-09-2025', label: 'Gemini 2.5 Flash Native Audio Preview' },
+  { value: 'gemini-live-2.5-flash-preview', label: 'Gemini Live 2.5 Flash Preview' },
+  { value: 'gemini-2.0-flash-live-001', label: 'Gemini 2.0 Flash Live' },
+];
+
+export const AVAILABLE_VOICES: LocalizedOption[] = [
+  { value: 'Kore', labelKey: 'voice.Kore' },
+  { value: 'Puck', labelKey: 'voice.Puck' },
+  { value: 'Charon', labelKey: 'voice.Charon' },
+  { value: 'Fenrir', labelKey: 'voice.Fenrir' },
+  { value: 'Aoede', labelKey: 'voice.Aoede' },
+  { value: 'Leda', labelKey: 'voice.Leda' },
+  { value: 'Orus', labelKey: 'voice.Orus' },
+  { value: 'Zephyr', labelKey: 'voice.Zephyr' },
+];
+
+export const AVAILABLE_LANGUAGES: LocalizedOption[] = [
+  { value: '', labelKey: 'language.auto' },
+  { value: 'en-US', labelKey: 'language.en-US' },
+  { value: 'en-GB', labelKey: 'language.en-GB' },
+  { value: 'ur-PK', labelKey: 'language.ur-PK' },
+  { value: 'hi-IN', labelKey: 'language.hi-IN' },
+  { value: 'ar-XA', labelKey: 'language.ar-XA' },
+  { value: 'es-US', labelKey: 'language.es-US' },
+  { value: 'fr-FR', labelKey: 'language.fr-FR' },
+  { value: 'de-DE', labelKey: 'language.de-DE' },
+];
+
+export const DEFAULT_SETTINGS: LiveSettings = {
+  model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  voice: 'Kore',
+  language: '',
+  systemPrompt: "You are a helpful, witty, and concise AI assistant. Keep responses relatively short to facilitate a natural conversation flow.",
+  temperature: 1,
+};
+
+export const DEFAULT_PERSONAS: Persona[] = [
+  { id: 'default', name: 'Fahad.AI', settings: DEFAULT_SETTINGS, builtIn: true },
+];
+
+export const DEFAULT_NOISE_GATE: NoiseGateSettings = {
+  enabled: true,
+  sensitivity: 0.5,
+};
+
+// Speakers leak the model's voice into the microphone, so the default keeps it from interrupting itself
+export const DEFAULT_BARGE_IN_SETTINGS: BargeInSettings = {
+  interruptionsAllowed: true,
+  echoHandling: 'suppress',
+  minSpeechMs: 300,
+};
+
+export const ECHO_HANDLING_OPTIONS: LocalizedOption[] = [
+  { value: 'suppress', labelKey: 'option.echo.suppress' },
+  { value: 'duck', labelKey: 'option.echo.duck' },
+  { value: 'off', labelKey: 'option.echo.off' },
+];
+
+export const MIN_BARGE_IN_SPEECH_OPTIONS: LocalizedOption[] = [
+  { value: '0', labelKey: 'option.bargeIn.0' },
+  { value: '150', labelKey: 'option.bargeIn.150' },
+  { value: '300', labelKey: 'option.bargeIn.300' },
+  { value: '500', labelKey: 'option.bargeIn.500' },
+  { value: '800', labelKey: 'option.bargeIn.800' },
+];
+
+export const RESPONSE_MODES: LocalizedOption[] = [
+  { value: 'audio', labelKey: 'option.response.audio' },
+  { value: 'text', labelKey: 'option.response.text' },
+];
+
+export const DEFAULT_RESPONSE_MODE: ResponseMode = 'audio';
+
+export const PLAYBACK_RATE_OPTIONS: LocalizedOption[] = [
+  { value: '0.75', labelKey: 'option.speed.0.75' },
+  { value: '1', labelKey: 'option.speed.1' },
+  { value: '1.25', labelKey: 'option.speed.1.25' },
+  { value: '1.5', labelKey: 'option.speed.1.5' },
+];
+
+export const DEFAULT_PLAYBACK_RATE = 1;
+
+export const FRAME_RATE_OPTIONS: LocalizedOption[] = [
+  { value: '0.5', labelKey: 'option.frameRate.0.5' },
+  { value: '1', labelKey: 'option.frameRate.1' },
+  { value: '2', labelKey: 'option.frameRate.2' },
+  { value: '5', labelKey: 'option.frameRate.5' },
+];
+
+export const FRAME_WIDTH_OPTIONS: LocalizedOption[] = [
+  { value: '480', labelKey: 'option.frameWidth.480' },
+  { value: '768', labelKey: 'option.frameWidth.768' },
+  { value: '1024', labelKey: 'option.frameWidth.1024' },
+  { value: '1280', labelKey: 'option.frameWidth.1280' },
+];
+
+// The Live API works best with about one frame per second at 768px
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  frameRate: 1,
+  maxWidth: 768,
+  jpegQuality: 0.7,
+};
+
+export const VISUALIZER_MODES: LocalizedOption[] = [
+  { value: 'circle', labelKey: 'option.visualizer.circle' },
+  { value: 'dual-ring', labelKey: 'option.visualizer.dual-ring' },
+  { value: 'bars', labelKey: 'option.visualizer.bars' },
+  { value: 'waveform', labelKey: 'option.visualizer.waveform' },
+  { value: 'spectrogram', labelKey: 'option.visualizer.spectrogram' },
+];
+
+export const VISUALIZER_THEMES: Record<string, VisualizerTheme> = {
+  aurora: { output: '#818cf8', input: '#34d399', track: '#27272a', glow: true },
+  ember: { output: '#f97316', input: '#facc15', track: '#292524', glow: true },
+  ocean: { output: '#38bdf8', input: '#2dd4bf', track: '#1e293b', glow: false },
+  mono: { output: '#e4e4e7', input: '#a1a1aa', track: '#27272a', glow: false },
+};
+
+export const VISUALIZER_THEME_OPTIONS: LocalizedOption[] = [
+  { value: 'aurora', labelKey: 'option.theme.aurora' },
+  { value: 'ember', labelKey: 'option.theme.ember' },
+  { value: 'ocean', labelKey: 'option.theme.ocean' },
+  { value: 'mono', labelKey: 'option.theme.mono' },
+];
+
+export const DEFAULT_VISUALIZER_SETTINGS: VisualizerSettings = {
+  mode: 'circle',
+  theme: 'aurora',
+};
+
+export const IDLE_TIMEOUT_OPTIONS: LocalizedOption[] = [
+  { value: '0', labelKey: 'option.idle.0' },
+  { value: '15', labelKey: 'option.idle.15' },
+  { value: '30', labelKey: 'option.idle.30' },
+  { value: '60', labelKey: 'option.idle.60' },
+  { value: '300', labelKey: 'option.idle.300' },
+];
+
+export const DEFAULT_WAKE_WORD_SETTINGS: WakeWordSettings = {
+  enabled: false,
+  phrase: 'Hey Fahad',
+  sensitivity: 0.5,
+  idleTimeoutSec: 30,
+};
+
+// A few samples of the phrase make matching robust to how it is said each time
+export const RECOMMENDED_WAKE_WORD_SAMPLES = 3;
+export const MAX_WAKE_WORD_SAMPLES = 5;
+
+export const DEFAULT_INTERPRETER_SETTINGS: InterpreterSettings = {
+  enabled: false,
+  firstLanguage: 'en-US',
+  secondLanguage: 'ur-PK',
+};
+
+const PERSONAS_STORAGE_KEY = 'fahad-ai:personas';
+const ACTIVE_PERSONA_STORAGE_KEY = 'fahad-ai:active-persona';
+const NOISE_GATE_STORAGE_KEY = 'fahad-ai:noise-gate';
+const RESPONSE_MODE_STORAGE_KEY = 'fahad-ai:response-mode';
+const VIDEO_STORAGE_KEY = 'fahad-ai:video';
+const VISUALIZER_STORAGE_KEY = 'fahad-ai:visualizer';
+const WAKE_WORD_STORAGE_KEY = 'fahad-ai:wake-word';
+const WAKE_WORD_TEMPLATES_STORAGE_KEY = 'fahad-ai:wake-word-templates';
+const INTERPRETER_STORAGE_KEY = 'fahad-ai:interpreter';
+const BARGE_IN_STORAGE_KEY = 'fahad-ai:barge-in';
+const PLAYBACK_RATE_STORAGE_KEY = 'fahad-ai:playback-rate';
+
+export const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+
+/**
+ * Returns a list of human readable problems, empty when the settings are usable.
+ */
+export function validateSettings(settings: LiveSettings, t: Translate = english): string[] {
+  const errors: string[] = [];
+  if (!settings.model.trim()) {
+    errors.push(t('validation.modelRequired'));
+  }
+  if (!AVAILABLE_VOICES.some(voice => voice.value === settings.voice)) {
+    errors.push(t('validation.unknownVoice', { voice: settings.voice }));
+  }
+  if (settings.language && !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(settings.language)) {
+    errors.push(t('validation.languageCode', { language: settings.language }));
+  }
+  if (!settings.systemPrompt.trim()) {
+    errors.push(t('validation.promptEmpty'));
+  } else if (settings.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    errors.push(t('validation.promptTooLong', { max: MAX_SYSTEM_PROMPT_LENGTH }));
+  }
+  if (!Number.isFinite(settings.temperature) || settings.temperature < 0 || settings.temperature > 2) {
+    errors.push(t('validation.temperature'));
+  }
+  return errors;
+}
+
+export function validateInterpreterSettings(interpreter: InterpreterSettings, t: Translate = english): string[] {
+  if (!interpreter.enabled) return [];
+  const errors: string[] = [];
+  if (!interpreter.firstLanguage || !interpreter.secondLanguage) {
+    errors.push(t('validation.interpreterLanguages'));
+  } else if (interpreter.firstLanguage === interpreter.secondLanguage) {
+    errors.push(t('validation.interpreterSame'));
+  }
+  return errors;
+}
+
+// Native audio models only produce speech, so they cannot be asked for text replies
+export function supportsTextResponses(model: string): boolean {
+  return !model.includes('native-audio');
+}
+
+export function getModelLabel(model: string): string {
+  return AVAILABLE_MODELS.find(option => option.value === model)?.label ?? model;
+}
+
+export function getLanguageLabel(language: string, t: Translate = english): string {
+  const option = AVAILABLE_LANGUAGES.find(candidate => candidate.value === language);
+  return option ? t(option.labelKey) : language;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+function isPersona(value: unknown): value is Persona {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && isRecord(value.settings)
+    && typeof value.settings.model === 'string';
+}
+
+export function loadPersonas(): Persona[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PERSONAS_STORAGE_KEY) ?? 'null');
+    if (Array.isArray(stored)) {
+      // Fill in any fields added since the persona was saved
+      const personas = stored.filter(isPersona).map(persona => ({
+        ...persona,
+        settings: { ...DEFAULT_SETTINGS, ...persona.settings },
+      }));
+      if (personas.length > 0) return personas;
+    }
+  } catch (e) {
+    console.warn('Could not read saved personas', e);
+  }
+  return DEFAULT_PERSONAS;
+}
+
+export function savePersonas(personas: Persona[]) {
+  localStorage.setItem(PERSONAS_STORAGE_KEY, JSON.stringify(personas));
+}
+
+export function loadActivePersonaId(): string | null {
+  return localStorage.getItem(ACTIVE_PERSONA_STORAGE_KEY);
+}
+
+export function saveActivePersonaId(id: string) {
+  localStorage.setItem(ACTIVE_PERSONA_STORAGE_KEY, id);
+}
+
+export function loadNoiseGate(): NoiseGateSettings {
+  try {
+    return { ...DEFAULT_NOISE_GATE, ...JSON.parse(localStorage.getItem(NOISE_GATE_STORAGE_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_NOISE_GATE;
+  }
+}
+
+export function saveNoiseGate(noiseGate: NoiseGateSettings) {
+  localStorage.setItem(NOISE_GATE_STORAGE_KEY, JSON.stringify(noiseGate));
+}
+
+export function loadResponseMode(): ResponseMode {
+  return localStorage.getItem(RESPONSE_MODE_STORAGE_KEY) === 'text' ? 'text' : DEFAULT_RESPONSE_MODE;
+}
+
+export function saveResponseMode(mode: ResponseMode) {
+  localStorage.setItem(RESPONSE_MODE_STORAGE_KEY, mode);
+}
+
+export function loadPlaybackRate(): number {
+  const stored = localStorage.getItem(PLAYBACK_RATE_STORAGE_KEY);
+  return PLAYBACK_RATE_OPTIONS.some(option => option.value === stored) ? parseFloat(stored!) : DEFAULT_PLAYBACK_RATE;
+}
+
+export function savePlaybackRate(rate: number) {
+  localStorage.setItem(PLAYBACK_RATE_STORAGE_KEY, String(rate));
+}
+
+export function loadVideoSettings(): VideoSettings {
+  try {
+    return { ...DEFAULT_VIDEO_SETTINGS, ...JSON.parse(localStorage.getItem(VIDEO_STORAGE_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_VIDEO_SETTINGS;
+  }
+}
+
+export function saveVideoSettings(video: VideoSettings) {
+  localStorage.setItem(VIDEO_STORAGE_KEY, JSON.stringify(video));
+}
+
+export function loadVisualizerSettings(): VisualizerSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VISUALIZER_STORAGE_KEY) ?? '{}');
+    return {
+      mode: VISUALIZER_MODES.some(option => option.value === stored.mode)
+        ? stored.mode as VisualizerMode
+        : DEFAULT_VISUALIZER_SETTINGS.mode,
+      theme: VISUALIZER_THEME_OPTIONS.some(option => option.value === stored.theme)
+        ? stored.theme
+        : DEFAULT_VISUALIZER_SETTINGS.theme,
+    };
+  } catch {
+    return DEFAULT_VISUALIZER_SETTINGS;
+  }
+}
+
+export function saveVisualizerSettings(visualizer: VisualizerSettings) {
+  localStorage.setItem(VISUALIZER_STORAGE_KEY, JSON.stringify(visualizer));
+}
+
+export function loadWakeWordSettings(): WakeWordSettings {
+  try {
+    return { ...DEFAULT_WAKE_WORD_SETTINGS, ...JSON.parse(localStorage.getItem(WAKE_WORD_STORAGE_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_WAKE_WORD_SETTINGS;
+  }
+}
+
+export function saveWakeWordSettings(wakeWord: WakeWordSettings) {
+  localStorage.setItem(WAKE_WORD_STORAGE_KEY, JSON.stringify(wakeWord));
+}
+
+export function loadWakeWordTemplates(): KeywordTemplate[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WAKE_WORD_TEMPLATES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(template => Array.isArray(template) && template.length > 0) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveWakeWordTemplates(templates: KeywordTemplate[]) {
+  // Two decimals is plenty for matching and keeps the stored samples small
+  const rounded = templates.map(template => template.map(frame => frame.map(value => Math.round(value * 100) / 100)));
+  localStorage.setItem(WAKE_WORD_TEMPLATES_STORAGE_KEY, JSON.stringify(rounded));
+}
+
+export function loadInterpreterSettings(): InterpreterSettings {
+  try {
+    return { ...DEFAULT_INTERPRETER_SETTINGS, ...JSON.parse(localStorage.getItem(INTERPRETER_STORAGE_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_INTERPRETER_SETTINGS;
+  }
+}
+
+export function saveInterpreterSettings(interpreter: InterpreterSettings) {
+  localStorage.setItem(INTERPRETER_STORAGE_KEY, JSON.stringify(interpreter));
+}
+
+export function loadBargeInSettings(): BargeInSettings {
+  try {
+    return { ...DEFAULT_BARGE_IN_SETTINGS, ...JSON.parse(localStorage.getItem(BARGE_IN_STORAGE_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_BARGE_IN_SETTINGS;
+  }
+}
+
+export function saveBargeInSettings(bargeIn: BargeInSettings) {
+  localStorage.setItem(BARGE_IN_STORAGE_KEY, JSON.stringify(bargeIn));
+}
@@ -0,0 +1,21 @@
+export interface ShortcutKey {
+  // KeyboardEvent.code, so shortcuts work the same on every keyboard layout
+  code: string;
+  alt?: boolean;
+}
+
+export const SHORTCUTS = {
+  connect: { code: 'KeyC', alt: true },
+  endCall: { code: 'KeyE', alt: true },
+  mute: { code: 'KeyM', alt: true },
+  // Held rather than pressed, so it is handled separately from the others
+  pushToTalk: { code: 'Space' },
+} satisfies Record<string, ShortcutKey>;
+
+// Shortcuts must not fire while the user is typing into a field
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// In the form aria-keyshortcuts expects, e.g. "Alt+C"
+export const describeShortcut = ({ code, alt }: ShortcutKey) =>
+  `${alt ? 'Alt+' : ''}${code.replace(/^Key/, '')}`;
@@ -0,0 +1,82 @@
+import { Speaker, TranscriptEntry, TranscriptSource } from '../types';
+
+let entryCounter = 0;
+
+function findOpenIndex(entries: TranscriptEntry[], speaker: Speaker): number {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].speaker === speaker && entries[i].endedAt === null) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Appends a transcription fragment to the open turn of the given speaker,
+ * starting a new turn if that speaker has none open.
+ */
+export function appendTranscript(
+  entries: TranscriptEntry[],
+  speaker: Speaker,
+  text: string,
+  now: number = Date.now(),
+  source: TranscriptSource = 'voice',
+): TranscriptEntry[] {
+  if (!text) return entries;
+
+  const index = findOpenIndex(entries, speaker);
+  if (index === -1) {
+    return [
+      ...entries,
+      {
+        id: `${speaker}-${now}-${entryCounter++}`,
+        speaker,
+        text: text.trimStart(),
+        startedAt: now,
+        endedAt: null,
+        interrupted: false,
+        source,
+      },
+    ];
+  }
+
+  const next = entries.slice();
+  next[index] = { ...next[index], text: next[index].text + text };
+  return next;
+}
+
+/**
+ * Closes the open turn of the given speaker, if any.
+ */
+export function closeTranscriptTurn(
+  entries: TranscriptEntry[],
+  speaker: Speaker,
+  now: number = Date.now(),
+  interrupted = false,
+): TranscriptEntry[] {
+  const index = findOpenIndex(entries, speaker);
+  if (index === -1) return entries;
+
+  const next = entries.slice();
+  next[index] = {
+    ...next[index],
+    text: next[index].text.trim(),
+    endedAt: now,
+    interrupted: next[index].interrupted || interrupted,
+  };
+  return next;
+}
+
+/**
+ * Adds a complete typed turn, closing whatever that speaker was saying first
+ * so spoken and typed turns stay in order.
+ */
+export function addTextTurn(
+  entries: TranscriptEntry[],
+  speaker: Speaker,
+  text: string,
+  now: number = Date.now(),
+): TranscriptEntry[] {
+  const closed = closeTranscriptTurn(entries, speaker, now);
+  return closeTranscriptTurn(appendTranscript(closed, speaker, text, now, 'text'), speaker, now);
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { PCM_SAMPLE_RATE_INPUT } from './audio';
+import { VadGate, VoiceActivityDetector } from './vad';
+
+const RATE = PCM_SAMPLE_RATE_INPUT;
+const CHUNK = RATE / 10;
+
+const samples = (ms: number) => Math.round((RATE * ms) / 1000);
+
+// Seeded so the noise fixtures are the same on every run
+function noise(ms: number, level: number, seed = 1): Float32Array {
+  const out = new Float32Array(samples(ms));
+  let state = seed;
+  for (let i = 0; i < out.length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    out[i] = level * (state / 0x80000000 - 1);
+  }
+  return out;
+}
+
+// A voiced sound: a 150 Hz fundamental with falling harmonics through the voice band
+function voiced(ms: number, level = 0.3): Float32Array {
+  const out = new Float32Array(samples(ms));
+  for (let i = 0; i < out.length; i++) {
+    let value = 0;
+    for (let harmonic = 1; harmonic <= 8; harmonic++) {
+      value += Math.sin((2 * Math.PI * 150 * harmonic * i) / RATE) / harmonic;
+    }
+    out[i] = (level * value) / 2;
+  }
+  return out;
+}
+
+const silence = (ms: number) => new Float32Array(samples(ms));
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => (out.set(part, offset), offset + part.length), 0);
+  return out;
+}
+
+function toInt16(signal: Float32Array): Int16Array {
+  return Int16Array.from(signal, value => Math.round(value * 32767));
+}
+
+// Speech state after each 100ms chunk
+function run(detector: VoiceActivityDetector, signal: Float32Array): boolean[] {
+  const states: boolean[] = [];
+  for (let offset = 0; offset < signal.length; offset += CHUNK) {
+    states.push(detector.process(signal.subarray(offset, offset + CHUNK)));
+  }
+  return states;
+}
+
+describe('VoiceActivityDetector', () => {
+  it('stays off in digital silence', () => {
+    expect(run(new VoiceActivityDetector(), silence(2000))).not.toContain(true);
+  });
+
+  it('stays off in steady broadband noise', () => {
+    const states = run(new VoiceActivityDetector(), noise(3000, 0.05));
+    expect(states.slice(5)).not.toContain(true);
+  });
+
+  it('turns on for a voiced burst and off again after the hangover', () => {
+    const detector = new VoiceActivityDetector();
+    const states = run(detector, concat(noise(1000, 0.001), voiced(500), noise(1000, 0.001)));
+    expect(states.slice(0, 10)).not.toContain(true);
+    // On within the first chunk of the burst
+    expect(states[10]).toBe(true);
+    expect(states.slice(10, 15)).not.toContain(false);
+    // Held through the 400ms hangover, then off
+    expect(states.slice(15, 18)).not.toContain(false);
+    expect(states.slice(20)).not.toContain(true);
+  });
+
+  it('bridges a pause shorter than the hangover', () => {
+    const states = run(new VoiceActivityDetector(), concat(silence(500), voiced(300), silence(200), voiced(300)));
+    expect(states.slice(5)).not.toContain(false);
+  });
+
+  it('ignores a click shorter than the minimum speech length', () => {
+    const states = run(new VoiceActivityDetector(), concat(silence(500), voiced(20, 0.8), silence(500)));
+    expect(states).not.toContain(true);
+  });
+
+  it('picks up quieter speech at a higher sensitivity', () => {
+    // About 9 dB above the noise: under the strict margin, over the lenient one
+    const quiet = concat(noise(1000, 0.01), voiced(500, 0.036));
+    expect(run(new VoiceActivityDetector({ sensitivity: 0 }), quiet)).not.toContain(true);
+    expect(run(new VoiceActivityDetector({ sensitivity: 1 }), quiet)).toContain(true);
+  });
+
+  it('forgets its state on reset', () => {
+    const detector = new VoiceActivityDetector();
+    run(detector, voiced(300));
+    expect(detector.isSpeaking).toBe(true);
+    detector.reset();
+    expect(detector.isSpeaking).toBe(false);
+    expect(detector.lastFeatures).toBeNull();
+  });
+});
+
+describe('VadGate', () => {
+  function chunks(signal: Float32Array): Int16Array[] {
+    const pcm = toInt16(signal);
+    const out: Int16Array[] = [];
+    for (let offset = 0; offset < pcm.length; offset += CHUNK) out.push(pcm.subarray(offset, offset + CHUNK));
+    return out;
+  }
+
+  it('holds silence back and sends the pre-roll ahead of speech', () => {
+    const gate = new VadGate();
+    const input = chunks(concat(noise(1000, 0.001), voiced(300)));
+
+    const results = input.map(chunk => gate.push(chunk));
+    results.slice(0, 10).forEach(result => expect(result.send).toEqual([]));
+
+    // 300ms of pre-roll arrives with the first speech chunk, oldest first
+    const onset = results[10];
+    expect(onset.isSpeaking).toBe(true);
+    expect(onset.send).toEqual([input[7], input[8], input[9], input[10]]);
+    expect(results[11].send).toEqual([input[11]]);
+  });
+
+  it('keeps sending through the hangover and reports the end of speech once', () => {
+    const gate = new VadGate();
+    const results = chunks(concat(silence(500), voiced(300), silence(1000))).map(chunk => gate.push(chunk));
+
+    const ended = results.map(result => result.speechEnded);
+    expect(ended.filter(Boolean)).toHaveLength(1);
+    const end = ended.indexOf(true);
+    // Three speech chunks, then silence sent until the 400ms hangover runs out in the fourth
+    expect(end).toBe(11);
+    expect(results.slice(5, end).every(result => result.send.length > 0)).toBe(true);
+    expect(results[end].send).toEqual([]);
+    results.slice(end).forEach(result => expect(result.send).toEqual([]));
+  });
+
+  it('starts over without pre-roll after reset', () => {
+    const gate = new VadGate();
+    chunks(silence(500)).forEach(chunk => gate.push(chunk));
+    gate.reset();
+    const [first] = chunks(voiced(100));
+    expect(gate.push(first).send).toEqual([first]);
+  });
+});
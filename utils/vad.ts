@@ -0,0 +1,221 @@
+import { PCM_SAMPLE_RATE_INPUT } from './audio';
+import { powerSpectrum } from './fft';
+
+export interface VadOptions {
+  sampleRate: number;
+  // Analysis frame length
+  frameMs: number;
+  // 0 (only clear, loud speech) to 1 (picks up quiet speech, and more noise)
+  sensitivity: number;
+  // Speech needed before the detector switches on, filters clicks and bumps
+  minSpeechMs: number;
+  // Silence tolerated before the detector switches off, bridges pauses between words
+  hangoverMs: number;
+  // Audio held back while silent and sent ahead of detected speech, so onsets aren't clipped
+  preRollMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  sampleRate: PCM_SAMPLE_RATE_INPUT,
+  frameMs: 20,
+  sensitivity: 0.5,
+  minSpeechMs: 60,
+  hangoverMs: 400,
+  preRollMs: 300,
+};
+
+// Frames quieter than this are never speech, whatever the noise floor does
+const ABSOLUTE_MIN_DB = -60;
+
+export interface VadFrameFeatures {
+  energyDb: number;
+  noiseFloorDb: number;
+  // Geometric over arithmetic mean of the power spectrum; near 1 for noise, low for voiced speech
+  spectralFlatness: number;
+  // Share of energy in the 300-3400 Hz voice band
+  speechBandRatio: number;
+  isSpeechFrame: boolean;
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Frame-level voice activity detector combining energy against an adaptive
+ * noise floor with spectral flatness and voice-band energy. Pure computation,
+ * so it can be driven offline from recorded PCM.
+ */
+export class VoiceActivityDetector {
+  readonly options: VadOptions;
+  private readonly frameSize: number;
+  private readonly fftSize: number;
+  private readonly frame: Float32Array;
+  private frameOffset = 0;
+  private noiseFloorDb = -50;
+  private speechRun = 0;
+  private silenceRun = 0;
+  private speaking = false;
+  lastFeatures: VadFrameFeatures | null = null;
+
+  constructor(options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+    this.frameSize = Math.round((this.options.sampleRate * this.options.frameMs) / 1000);
+    this.fftSize = 1 << Math.ceil(Math.log2(this.frameSize));
+    this.frame = new Float32Array(this.frameSize);
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  setSensitivity(sensitivity: number) {
+    this.options.sensitivity = Math.max(0, Math.min(1, sensitivity));
+  }
+
+  /**
+   * Feeds samples of any length and returns whether speech is active after them.
+   */
+  process(samples: Float32Array | Int16Array): boolean {
+    const scale = samples instanceof Int16Array ? 1 / 32768 : 1;
+    for (let i = 0; i < samples.length; i++) {
+      this.frame[this.frameOffset++] = samples[i] * scale;
+      if (this.frameOffset === this.frameSize) {
+        this.processFrame(this.frame);
+        this.frameOffset = 0;
+      }
+    }
+    return this.speaking;
+  }
+
+  analyzeFrame(frame: Float32Array): VadFrameFeatures {
+    const { sampleRate, sensitivity } = this.options;
+
+    let sumSquares = 0;
+    for (let i = 0; i < frame.length; i++) sumSquares += frame[i] * frame[i];
+    const energyDb = 10 * Math.log10(sumSquares / frame.length + 1e-12);
+
+    const power = powerSpectrum(frame, this.fftSize);
+    const binHz = sampleRate / this.fftSize;
+    let total = 0;
+    let voiceBand = 0;
+    let logSum = 0;
+    let linSum = 0;
+    let count = 0;
+    for (let i = 1; i < power.length; i++) {
+      const hz = i * binHz;
+      total += power[i];
+      if (hz >= 300 && hz <= 3400) voiceBand += power[i];
+      if (hz >= 100 && hz <= 4000) {
+        logSum += Math.log(power[i] + 1e-12);
+        linSum += power[i];
+        count++;
+      }
+    }
+    const spectralFlatness = count ? Math.exp(logSum / count) / (linSum / count + 1e-12) : 1;
+    const speechBandRatio = total > 0 ? voiceBand / total : 0;
+
+    const marginDb = lerp(14, 4, sensitivity);
+    const loudEnough = energyDb > this.noiseFloorDb + marginDb && energyDb > ABSOLUTE_MIN_DB;
+    const voiceLike = spectralFlatness < lerp(0.3, 0.55, sensitivity) || speechBandRatio > lerp(0.75, 0.55, sensitivity);
+
+    return {
+      energyDb,
+      noiseFloorDb: this.noiseFloorDb,
+      spectralFlatness,
+      speechBandRatio,
+      isSpeechFrame: loudEnough && voiceLike,
+    };
+  }
+
+  private processFrame(frame: Float32Array) {
+    const features = this.analyzeFrame(frame);
+    this.lastFeatures = features;
+
+    // Track the noise floor: drop quickly to quieter frames, creep up slowly while not speaking
+    if (features.energyDb < this.noiseFloorDb) {
+      this.noiseFloorDb = features.energyDb;
+    } else if (!features.isSpeechFrame) {
+      this.noiseFloorDb += (features.energyDb - this.noiseFloorDb) * 0.05;
+    } else {
+      this.noiseFloorDb += 0.01;
+    }
+    this.noiseFloorDb = Math.max(this.noiseFloorDb, ABSOLUTE_MIN_DB - 20);
+
+    const { frameMs, minSpeechMs, hangoverMs } = this.options;
+    if (features.isSpeechFrame) {
+      this.speechRun++;
+      this.silenceRun = 0;
+      if (!this.speaking && this.speechRun * frameMs >= minSpeechMs) {
+        this.speaking = true;
+      }
+    } else {
+      this.silenceRun++;
+      this.speechRun = 0;
+      if (this.speaking && this.silenceRun * frameMs >= hangoverMs) {
+        this.speaking = false;
+      }
+    }
+  }
+
+  reset() {
+    this.frameOffset = 0;
+    this.noiseFloorDb = -50;
+    this.speechRun = 0;
+    this.silenceRun = 0;
+    this.speaking = false;
+    this.lastFeatures = null;
+  }
+}
+
+export interface VadGateResult {
+  // Chunks to upload now, oldest first (pre-roll plus the current chunk)
+  send: Int16Array[];
+  isSpeaking: boolean;
+  // True on the chunk where speech (including hangover) has just ended
+  speechEnded: boolean;
+}
+
+/**
+ * Gates PCM chunks on voice activity: silent chunks are held in a short
+ * pre-roll buffer and dropped, speech is passed through along with that
+ * pre-roll.
+ */
+export class VadGate {
+  readonly detector: VoiceActivityDetector;
+  private preRoll: Int16Array[] = [];
+  private preRollSamples = 0;
+  private wasSpeaking = false;
+
+  constructor(options: Partial<VadOptions> = {}) {
+    this.detector = new VoiceActivityDetector(options);
+  }
+
+  push(chunk: Int16Array): VadGateResult {
+    const isSpeaking = this.detector.process(chunk);
+    const speechEnded = this.wasSpeaking && !isSpeaking;
+    this.wasSpeaking = isSpeaking;
+
+    if (isSpeaking) {
+      const send = [...this.preRoll, chunk];
+      this.preRoll = [];
+      this.preRollSamples = 0;
+      return { send, isSpeaking, speechEnded };
+    }
+
+    // Keep just enough recent silence to cover the pre-roll window
+    const { sampleRate, preRollMs } = this.detector.options;
+    const maxSamples = (sampleRate * preRollMs) / 1000;
+    this.preRoll.push(chunk);
+    this.preRollSamples += chunk.length;
+    while (this.preRoll.length > 1 && this.preRollSamples - this.preRoll[0].length >= maxSamples) {
+      this.preRollSamples -= this.preRoll.shift()!.length;
+    }
+    return { send: [], isSpeaking, speechEnded };
+  }
+
+  reset() {
+    this.detector.reset();
+    this.preRoll = [];
+    this.preRollSamples = 0;
+    this.wasSpeaking = false;
+  }
+}
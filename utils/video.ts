@@ -0,0 +1,23 @@
+export const JPEG_MIME_TYPE = 'image/jpeg';
+
+export interface JpegEncodeRequest {
+  id: number;
+  // Already scaled to the size to send; ownership moves to the worker
+  bitmap: ImageBitmap;
+  quality: number;
+}
+
+export type JpegEncodeResponse =
+  | { id: number; data: string }
+  | { id: number; error: string };
+
+/**
+ * Size a frame is scaled to so it fits within maxWidth, never upscaling.
+ */
+export function getFrameSize(width: number, height: number, maxWidth: number): { width: number; height: number } {
+  const scale = Math.min(1, maxWidth / width);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
@@ -0,0 +1,109 @@
+import type { Blob } from '@google/genai';
+import JpegEncoderWorker from './jpegEncoderWorker.ts?worker';
+import { JPEG_MIME_TYPE, JpegEncodeResponse, getFrameSize } from './video';
+import { VideoSettings, VideoSource } from '../types';
+
+/**
+ * Asks for the camera or a screen/window to share. Rejects with the browser's
+ * NotAllowedError when the user declines or cancels the picker.
+ */
+export function openVideoStream(source: VideoSource, settings: VideoSettings): Promise<MediaStream> {
+  if (source === 'screen') {
+    return navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+  }
+  return navigator.mediaDevices.getUserMedia({
+    video: { width: { ideal: settings.maxWidth } },
+    audio: false,
+  });
+}
+
+/**
+ * Samples frames from a video stream at the configured rate and hands them
+ * over as base64 JPEG. Scaling happens in createImageBitmap and encoding in a
+ * worker; a frame is skipped while the previous one is still being encoded.
+ */
+export class VideoFrameCapture {
+  private readonly video: HTMLVideoElement;
+  private readonly worker: Worker;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isEncoding = false;
+  private nextId = 0;
+  private paused = false;
+
+  constructor(
+    readonly stream: MediaStream,
+    private readonly onFrame: (frame: Blob) => void,
+    private settings: VideoSettings,
+  ) {
+    this.video = document.createElement('video');
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.srcObject = stream;
+    this.video.play().catch(err => console.warn('Could not play video source', err));
+
+    this.worker = new JpegEncoderWorker();
+    this.worker.onmessage = (event: MessageEvent<JpegEncodeResponse>) => {
+      this.isEncoding = false;
+      const response = event.data;
+      if ('error' in response) {
+        console.warn('Could not encode video frame', response.error);
+        return;
+      }
+      if (!this.paused && this.timer) {
+        this.onFrame({ data: response.data, mimeType: JPEG_MIME_TYPE });
+      }
+    };
+
+    this.schedule();
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  setSettings(settings: VideoSettings) {
+    this.settings = settings;
+    this.schedule();
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.worker.terminate();
+    this.video.pause();
+    this.video.srcObject = null;
+    this.stream.getTracks().forEach(track => track.stop());
+  }
+
+  private schedule() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = setInterval(() => this.captureFrame(), 1000 / this.settings.frameRate);
+  }
+
+  private async captureFrame() {
+    const { videoWidth, videoHeight } = this.video;
+    if (this.paused || this.isEncoding || !videoWidth || this.video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      return;
+    }
+
+    this.isEncoding = true;
+    const size = getFrameSize(videoWidth, videoHeight, this.settings.maxWidth);
+    try {
+      const bitmap = await createImageBitmap(this.video, {
+        resizeWidth: size.width,
+        resizeHeight: size.height,
+        resizeQuality: 'medium',
+      });
+      this.worker.postMessage({ id: this.nextId++, bitmap, quality: this.settings.jpegQuality }, [bitmap]);
+    } catch (err) {
+      this.isEncoding = false;
+      console.warn('Could not grab video frame', err);
+    }
+  }
+}
@@ -1,19 +1,63 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createTokenHandler } from './server/tokenBroker';
+import { LOCKED_SESSION_CONFIG, TOKEN_ENDPOINT_PATH } from './utils/liveConfig';
+import { AVAILABLE_MODELS } from './utils/settings';
+
+// Serves the token broker from the dev server so the API key never reaches the browser
+function liveTokenBroker(apiKey: string | undefined): Plugin {
+  return {
+    name: 'live-token-broker',
+    configureServer(server) {
+      if (!apiKey) {
+        server.config.logger.warn('GEMINI_API_KEY is not set, the token endpoint is disabled');
+        return;
+      }
+      server.middlewares.use(TOKEN_ENDPOINT_PATH, createTokenHandler({
+        apiKey,
+        allowedModels: AVAILABLE_MODELS.map(model => model.value),
+        lockedConfig: LOCKED_SESSION_CONFIG,
+      }));
+    },
+  };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+
+    // `vite build --mode widget` packages <fahad-voice-agent> as a standalone script with React bundled in
+    if (mode === 'widget') {
+      return {
+        // The worklet and worker are loaded relative to the script, wherever the host page serves it from
+        base: './',
+        plugins: [react()],
+        define: {
+          'process.env.NODE_ENV': JSON.stringify('production'),
+        },
+        build: {
+          outDir: 'dist/widget',
+          lib: {
+            entry: path.resolve(__dirname, 'widget/index.tsx'),
+            name: 'FahadVoiceAgent',
+            formats: ['es', 'iife'],
+            fileName: format => `fahad-voice-agent.${format}.js`,
+          },
+        },
+        resolve: {
+          alias: {
+            '@': path.resolve(__dirname, '.'),
+          }
+        }
+      };
+    }
+
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), liveTokenBroker(env.GEMINI_API_KEY)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
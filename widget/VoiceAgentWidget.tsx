@@ -0,0 +1,116 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Phone, PhoneOff, X } from 'lucide-react';
+import { useLiveGemini } from '../hooks/useLiveGemini';
+import AudioVisualizer from '../components/AudioVisualizer';
+import { LiveError, describeError } from '../utils/errors';
+import { Locale, Translate, getTextDirection, translate } from '../i18n';
+import { Persona, TranscriptEntry, VisualizerTheme } from '../types';
+
+// Detail of each DOM event the element dispatches
+export interface VoiceAgentEventMap {
+  connect: { agent: string };
+  disconnect: Record<string, never>;
+  transcript: { entry: TranscriptEntry };
+  error: { error: LiveError };
+}
+
+export type VoiceAgentEmitter = <K extends keyof VoiceAgentEventMap>(type: K, detail: VoiceAgentEventMap[K]) => void;
+
+interface VoiceAgentWidgetProps {
+  tokenEndpoint: string;
+  persona: Persona;
+  theme: VisualizerTheme;
+  locale: Locale;
+  onEvent: VoiceAgentEmitter;
+}
+
+/**
+ * Compact call UI for the embeddable element: the visualizer, a call button
+ * and the latest error.
+ */
+const VoiceAgentWidget: React.FC<VoiceAgentWidgetProps> = ({ tokenEndpoint, persona, theme, locale, onEvent }) => {
+  const {
+    isConnected,
+    isConnecting,
+    isReconnecting,
+    reconnectAttempt,
+    isSpeaking,
+    connect,
+    disconnect,
+    error,
+    clearError,
+    transcript,
+    outputAnalyser,
+  } = useLiveGemini({
+    tokenEndpoint,
+    settings: persona.settings,
+    agentName: persona.name,
+  });
+
+  const t = useCallback<Translate>((key, params) => translate(locale, key, params), [locale]);
+  const isInCall = isConnected || isReconnecting;
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  // A reconnect is the same call as far as the page is concerned
+  const wasInCallRef = useRef(false);
+  useEffect(() => {
+    if (isInCall === wasInCallRef.current) return;
+    wasInCallRef.current = isInCall;
+    if (isInCall) onEventRef.current('connect', { agent: persona.name });
+    else onEventRef.current('disconnect', {});
+  }, [isInCall, persona.name]);
+
+  // Each turn is reported once, when it has finished
+  const reportedTurnsRef = useRef(new Set<string>());
+  useEffect(() => {
+    if (transcript.length === 0) reportedTurnsRef.current.clear();
+    transcript.forEach(entry => {
+      if (entry.endedAt === null || reportedTurnsRef.current.has(entry.id)) return;
+      reportedTurnsRef.current.add(entry.id);
+      onEventRef.current('transcript', { entry });
+    });
+  }, [transcript]);
+
+  useEffect(() => {
+    if (error) onEventRef.current('error', { error });
+  }, [error]);
+
+  return (
+    <div
+      className="widget"
+      lang={locale}
+      dir={getTextDirection(locale)}
+      style={{ '--fva-accent': theme.output, '--fva-track': theme.track } as React.CSSProperties}
+    >
+      <div className="visualizer">
+        <AudioVisualizer analyser={outputAnalyser} isActive={isSpeaking} mode="circle" theme={theme} />
+      </div>
+      <span className="status">
+        {isReconnecting
+          ? t('status.reconnecting', { attempt: reconnectAttempt })
+          : isConnecting ? t('status.connecting') : isConnected ? persona.name.toUpperCase() : t('widget.ready')}
+      </span>
+
+      {error && (
+        <div className="error" role="alert">
+          <p>{describeError(error, t)}</p>
+          <button onClick={clearError} aria-label={t('error.dismiss')}>
+            <X />
+          </button>
+        </div>
+      )}
+
+      <button
+        className={`call-button${isInCall ? ' in-call' : ''}`}
+        onClick={() => (isInCall ? disconnect() : connect())}
+        disabled={isConnecting}
+      >
+        {isInCall ? <PhoneOff /> : <Phone />}
+        {isInCall ? t('call.end') : isConnecting ? t('call.connecting') : t('widget.talkTo', { name: persona.name })}
+      </button>
+    </div>
+  );
+};
+
+export default VoiceAgentWidget;
@@ -0,0 +1,121 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import VoiceAgentWidget, { VoiceAgentEmitter } from './VoiceAgentWidget';
+import { WIDGET_STYLES } from './styles';
+import { TOKEN_ENDPOINT_PATH } from '../utils/liveConfig';
+import { matchLocale } from '../i18n';
+import {
+  DEFAULT_SETTINGS,
+  DEFAULT_VISUALIZER_SETTINGS,
+  VISUALIZER_THEMES,
+  VISUALIZER_THEME_OPTIONS,
+  loadPersonas,
+} from '../utils/settings';
+import { LiveSettings, Persona } from '../types';
+
+export type { VoiceAgentEventMap } from './VoiceAgentWidget';
+
+export const VOICE_AGENT_TAG = 'fahad-voice-agent';
+
+/**
+ * The `persona` attribute is either the id or name of a persona saved on this
+ * origin, or inline JSON such as `{"name": "Support", "systemPrompt": "..."}`
+ * for pages that have none saved.
+ */
+function resolvePersona(value: string | null): Persona {
+  const personas = loadPersonas();
+  if (!value) return personas[0];
+
+  if (value.trim().startsWith('{')) {
+    try {
+      const { name, ...settings } = JSON.parse(value) as Partial<LiveSettings> & { name?: string };
+      return { id: 'embedded', name: name || 'Assistant', settings: { ...DEFAULT_SETTINGS, ...settings } };
+    } catch (err) {
+      console.warn(`<${VOICE_AGENT_TAG}> persona is not valid JSON`, err);
+      return personas[0];
+    }
+  }
+
+  const match = personas.find(persona => persona.id === value || persona.name.toLowerCase() === value.toLowerCase());
+  if (!match) console.warn(`<${VOICE_AGENT_TAG}> has no persona "${value}", using ${personas[0].name}`);
+  return match ?? personas[0];
+}
+
+/**
+ * `<fahad-voice-agent token-endpoint="..." persona="..." theme="aurora" lang="es">`
+ *
+ * Renders the voice agent into its own shadow root, bundled with React so the
+ * host page needs nothing else. Without a `lang` it follows the host page's,
+ * falling back to English for languages without a catalog. Dispatches `connect`, `disconnect`,
+ * `transcript` and `error` events (bubbling, and composed so they leave the
+ * shadow root). Removing the element ends any call in progress, dispatching
+ * `disconnect` for it.
+ */
+export class FahadVoiceAgentElement extends HTMLElement {
+  static observedAttributes = ['token-endpoint', 'persona', 'theme', 'lang'];
+
+  private readonly container: HTMLDivElement;
+  private root: ReactDOM.Root | null = null;
+  private persona: Persona | null = null;
+  // Follows the connect and disconnect events, so removal can report the call it ends
+  private inCall = false;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = WIDGET_STYLES;
+    this.container = document.createElement('div');
+    shadow.append(style, this.container);
+  }
+
+  connectedCallback() {
+    this.root ??= ReactDOM.createRoot(this.container);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    // Unmounting ends the call without the widget getting to report it
+    if (this.inCall) this.emit('disconnect', {});
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback(name: string) {
+    // Parsed once per change rather than on every render
+    if (name === 'persona') this.persona = null;
+    this.render();
+  }
+
+  private emit: VoiceAgentEmitter = (type, detail) => {
+    if (type === 'connect') this.inCall = true;
+    if (type === 'disconnect') this.inCall = false;
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  };
+
+  private render() {
+    if (!this.root) return;
+    this.persona ??= resolvePersona(this.getAttribute('persona'));
+    const themeName = this.getAttribute('theme');
+    const theme = VISUALIZER_THEMES[
+      VISUALIZER_THEME_OPTIONS.some(option => option.value === themeName) ? themeName! : DEFAULT_VISUALIZER_SETTINGS.theme
+    ];
+    const locale = matchLocale(this.getAttribute('lang') || document.documentElement.lang) ?? 'en';
+
+    this.root.render(
+      <React.StrictMode>
+        <VoiceAgentWidget
+          tokenEndpoint={this.getAttribute('token-endpoint') || TOKEN_ENDPOINT_PATH}
+          persona={this.persona}
+          theme={theme}
+          locale={locale}
+          onEvent={this.emit}
+        />
+      </React.StrictMode>
+    );
+  }
+}
+
+if (!customElements.get(VOICE_AGENT_TAG)) {
+  customElements.define(VOICE_AGENT_TAG, FahadVoiceAgentElement);
+}
@@ -0,0 +1,96 @@
+// The host page's styles (and the app's Tailwind) do not reach into the shadow root, so the widget carries its own.
+// --fva-accent and --fva-track are set from the theme attribute.
+export const WIDGET_STYLES = `
+  :host {
+    display: inline-block;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    color: #e4e4e7;
+  }
+  :host([hidden]) {
+    display: none;
+  }
+  .widget {
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    gap: 12px;
+    width: 200px;
+    padding: 16px;
+    border-radius: 16px;
+    border: 1px solid var(--fva-track);
+    background: #09090bee;
+    box-sizing: border-box;
+  }
+  .visualizer {
+    width: 160px;
+    height: 160px;
+  }
+  .visualizer canvas {
+    width: 100%;
+    height: 100%;
+  }
+  .status {
+    font-size: 11px;
+    letter-spacing: 0.08em;
+    color: #a1a1aa;
+  }
+  .call-button {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    gap: 8px;
+    width: 100%;
+    padding: 10px 16px;
+    border: none;
+    border-radius: 999px;
+    font: inherit;
+    font-size: 14px;
+    font-weight: 600;
+    color: #fff;
+    background: var(--fva-accent);
+    cursor: pointer;
+    transition: opacity 150ms;
+  }
+  .call-button:hover {
+    opacity: 0.9;
+  }
+  .call-button:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+  .call-button.in-call {
+    background: #ef444426;
+    color: #f87171;
+    box-shadow: inset 0 0 0 1px #ef444480;
+  }
+  .call-button svg {
+    width: 16px;
+    height: 16px;
+  }
+  .error {
+    display: flex;
+    align-items: flex-start;
+    gap: 6px;
+    width: 100%;
+    padding: 8px;
+    border-radius: 8px;
+    background: #ef44441a;
+    font-size: 12px;
+    color: #fecaca;
+  }
+  .error p {
+    flex: 1;
+    margin: 0;
+  }
+  .error button {
+    padding: 0;
+    border: none;
+    background: none;
+    color: #71717a;
+    cursor: pointer;
+  }
+  .error svg {
+    width: 12px;
+    height: 12px;
+  }
+`;